@@ -13,8 +13,96 @@ const envSchema = z.object({
 
   // JWT Configuration
   JWT_SECRET: z.string().min(32),
-  JWT_EXPIRES_IN: z.string().default('24h'),
-  JWT_ALGORITHM: z.enum(['HS256', 'HS384', 'HS512']).default('HS256'),
+  JWT_EXPIRES_IN: z.string().default('15m'),
+  JWT_REFRESH_EXPIRES_DAYS: z.string().transform(Number).default('30'),
+  JWT_ALGORITHM: z.enum(['HS256', 'HS384', 'HS512', 'RS256', 'ES256']).default('HS256'),
+  JWT_KEYS_FILE: z.string().optional(),
+
+  // MFA Configuration
+  MFA_ISSUER: z.string().default('API Boilerplate'),
+  MFA_CHALLENGE_EXPIRES_IN: z.string().default('5m'),
+  MFA_ENCRYPTION_KEY: z.string().min(32).optional(),
+
+  // Password Policy Configuration
+  PASSWORD_MIN_LENGTH: z.string().transform(Number).default('8'),
+  PASSWORD_REQUIRE_UPPERCASE: z
+    .string()
+    .transform(val => val === 'true')
+    .default('true'),
+  PASSWORD_REQUIRE_LOWERCASE: z
+    .string()
+    .transform(val => val === 'true')
+    .default('true'),
+  PASSWORD_REQUIRE_DIGIT: z
+    .string()
+    .transform(val => val === 'true')
+    .default('true'),
+  PASSWORD_REQUIRE_SYMBOL: z
+    .string()
+    .transform(val => val === 'true')
+    .default('false'),
+  PASSWORD_HISTORY_COUNT: z.string().transform(Number).default('5'),
+  PASSWORD_BREACHED_LIST_FILE: z.string().optional(),
+
+  // OAuth2 Client Credentials Configuration
+  OAUTH_TOKEN_EXPIRES_IN: z.string().default('1h'),
+
+  // Mail Configuration
+  MAIL_TRANSPORT: z.enum(['smtp', 'outbox']).optional(),
+  MAIL_FROM: z.string().default('API Boilerplate <no-reply@localhost>'),
+  MAIL_DEFAULT_LOCALE: z.enum(['en', 'pt-BR']).default('en'),
+  MAIL_OUTBOX_DIR: z.string().default('tmp/mail-outbox'),
+  MAIL_MAX_ATTEMPTS: z.string().transform(Number).default('5'),
+  MAIL_RETRY_BASE_SECONDS: z.string().transform(Number).default('30'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().transform(Number).default('587'),
+  SMTP_SECURE: z
+    .string()
+    .transform(val => val === 'true')
+    .default('false'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
+  // Invitation Configuration
+  INVITATION_EXPIRES_HOURS: z.string().transform(Number).default('72'),
+
+  // User Import Configuration
+  USER_IMPORT_MAX_ROWS: z.string().transform(Number).default('1000'),
+  USER_IMPORT_BATCH_SIZE: z.string().transform(Number).default('10'),
+
+  // Admin Impersonation Configuration
+  IMPERSONATION_EXPIRES_IN: z.string().default('15m'),
+
+  // Live User Status Configuration
+  USER_STATUS_CHECK: z
+    .string()
+    .transform(val => val === 'true')
+    .default('true'),
+  USER_STATUS_CACHE_TTL_SECONDS: z.string().transform(Number).default('30'),
+
+  // Login History Configuration
+  LOGIN_NEW_DEVICE_ALERTS: z
+    .string()
+    .transform(val => val === 'true')
+    .default('true'),
+
+  // Supabase Auth Ban Sync Configuration
+  AUTH_SYNC_MAX_ATTEMPTS: z.string().transform(Number).default('5'),
+  AUTH_SYNC_RETRY_BASE_SECONDS: z.string().transform(Number).default('30'),
+
+  // Identity Reconciliation Configuration
+  RECONCILIATION_INTERVAL_MINUTES: z.string().transform(Number).default('0'),
+  RECONCILIATION_SCHEDULED_MODE: z.enum(['dry_run', 'apply']).default('dry_run'),
+
+  // OIDC Single Sign-On Configuration
+  SSO_PROVIDERS_FILE: z.string().optional(),
+
+  // Supabase Token Exchange Configuration
+  TOKEN_EXCHANGE_AUTO_PROVISION: z
+    .string()
+    .transform(val => val === 'true')
+    .default('false'),
+  TOKEN_EXCHANGE_DEFAULT_PROFILE: z.string().default('user'),
 
   // Supabase Configuration
   SUPABASE_URL: z.string().url(),
@@ -37,10 +125,21 @@ const envSchema = z.object({
   RATE_LIMIT_HEALTH: z.string().transform(Number).default('1000'),
   RATE_LIMIT_WINDOW: z.string().transform(Number).default('1'),
 
+  // Login Lockout Configuration
+  LOGIN_LOCKOUT_THRESHOLD: z.string().transform(Number).default('5'),
+  LOGIN_LOCKOUT_MINUTES: z.string().transform(Number).default('15'),
+  LOGIN_BACKOFF_BASE_SECONDS: z.string().transform(Number).default('1'),
+
   // Frontend Configuration
   FRONTEND_URL: z.string().url().default('http://localhost:3000'),
   LOGIN_REDIRECT_URL: z.string().url().default('http://localhost:3000/dashboard'),
   LOGOUT_REDIRECT_URL: z.string().url().default('http://localhost:3000/login'),
+  MAGIC_LINK_REDIRECT_URL: z.string().url().default('http://localhost:3000/auth/magic-link'),
+  INVITATION_ACCEPT_URL: z.string().url().default('http://localhost:3000/auth/invitation'),
+  PASSWORD_RESET_REDIRECT_URL: z
+    .string()
+    .url()
+    .default('http://localhost:3000/auth/reset-password'),
 
   // HTTP Client Configuration
   HTTP_TIMEOUT: z.string().transform(Number).default('10000'),
@@ -49,10 +148,25 @@ const envSchema = z.object({
   HTTP_CACHE_TTL: z.string().transform(Number).default('300000'),
 });
 
+// Asymmetric algorithms need a key set, HMAC algorithms only use JWT_SECRET
+const refinedEnvSchema = envSchema
+  .refine(env => env.JWT_ALGORITHM.startsWith('HS') || !!env.JWT_KEYS_FILE, {
+    message: 'JWT_KEYS_FILE is required for RS256/ES256',
+    path: ['JWT_KEYS_FILE'],
+  })
+  .refine(env => env.NODE_ENV !== 'production' || !!env.MAIL_TRANSPORT, {
+    message: 'MAIL_TRANSPORT is required in production',
+    path: ['MAIL_TRANSPORT'],
+  })
+  .refine(env => env.MAIL_TRANSPORT !== 'smtp' || !!env.SMTP_HOST, {
+    message: 'SMTP_HOST is required when MAIL_TRANSPORT is smtp',
+    path: ['SMTP_HOST'],
+  });
+
 // Validate environment variables
 const validateEnvironment = () => {
   try {
-    return envSchema.parse(process.env);
+    return refinedEnvSchema.parse(process.env);
   } catch (error) {
     if (error instanceof z.ZodError) {
       const missingVars = error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
@@ -75,7 +189,111 @@ export const config = {
   jwt: {
     secret: env.JWT_SECRET,
     expiresIn: env.JWT_EXPIRES_IN,
-    algorithm: env.JWT_ALGORITHM as 'HS256' | 'HS384' | 'HS512',
+    refreshExpiresDays: env.JWT_REFRESH_EXPIRES_DAYS,
+    algorithm: env.JWT_ALGORITHM as 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'ES256',
+    keysFile: env.JWT_KEYS_FILE,
+  },
+
+  // MFA
+  mfa: {
+    issuer: env.MFA_ISSUER,
+    challengeExpiresIn: env.MFA_CHALLENGE_EXPIRES_IN,
+    // Falls back to JWT_SECRET so existing deployments work without a new secret
+    encryptionKey: env.MFA_ENCRYPTION_KEY || env.JWT_SECRET,
+  },
+
+  // Password policy
+  passwordPolicy: {
+    minLength: env.PASSWORD_MIN_LENGTH,
+    requireUppercase: env.PASSWORD_REQUIRE_UPPERCASE,
+    requireLowercase: env.PASSWORD_REQUIRE_LOWERCASE,
+    requireDigit: env.PASSWORD_REQUIRE_DIGIT,
+    requireSymbol: env.PASSWORD_REQUIRE_SYMBOL,
+    historyCount: env.PASSWORD_HISTORY_COUNT,
+    breachedListFile: env.PASSWORD_BREACHED_LIST_FILE,
+  },
+
+  // OAuth2 service clients
+  oauth: {
+    tokenExpiresIn: env.OAUTH_TOKEN_EXPIRES_IN,
+  },
+
+  // Transactional email
+  mail: {
+    // Outside production mail goes to the outbox unless configured otherwise
+    transport: env.MAIL_TRANSPORT || 'outbox',
+    from: env.MAIL_FROM,
+    defaultLocale: env.MAIL_DEFAULT_LOCALE,
+    // Directory where the outbox transport writes messages instead of sending them
+    outboxDir: env.MAIL_OUTBOX_DIR,
+    maxAttempts: env.MAIL_MAX_ATTEMPTS,
+    retryBaseSeconds: env.MAIL_RETRY_BASE_SECONDS,
+    smtp: {
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT,
+      secure: env.SMTP_SECURE,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    },
+  },
+
+  // User invitations
+  invitations: {
+    expiresHours: env.INVITATION_EXPIRES_HOURS,
+    // Frontend page that receives the invitation token and calls /api/auth/invitations/:token/accept
+    acceptUrl: env.INVITATION_ACCEPT_URL,
+  },
+
+  // Bulk user import
+  userImport: {
+    maxRows: env.USER_IMPORT_MAX_ROWS,
+    // Invitations created concurrently in apply mode
+    batchSize: env.USER_IMPORT_BATCH_SIZE,
+  },
+
+  // Admin impersonation
+  impersonation: {
+    expiresIn: env.IMPERSONATION_EXPIRES_IN,
+  },
+
+  // Live user status on authenticated requests
+  userStatus: {
+    // When disabled, status and profile come from the token until it expires
+    check: env.USER_STATUS_CHECK,
+    cacheTtlSeconds: env.USER_STATUS_CACHE_TTL_SECONDS,
+  },
+
+  // Login history
+  loginEvents: {
+    // Notify users of successful logins from a device and IP they never logged in from
+    newDeviceAlerts: env.LOGIN_NEW_DEVICE_ALERTS,
+  },
+
+  // Ban/unban in Supabase Auth when a user status changes
+  authSync: {
+    maxAttempts: env.AUTH_SYNC_MAX_ATTEMPTS,
+    retryBaseSeconds: env.AUTH_SYNC_RETRY_BASE_SECONDS,
+  },
+
+  // Reconciliation between the users table and Supabase Auth
+  reconciliation: {
+    // 0 disables scheduled runs, admins can still start one through the API
+    intervalMinutes: env.RECONCILIATION_INTERVAL_MINUTES,
+    scheduledMode: env.RECONCILIATION_SCHEDULED_MODE,
+  },
+
+  // OIDC single sign-on
+  sso: {
+    // JSON file with the identity providers, no provider is offered without it
+    providersFile: env.SSO_PROVIDERS_FILE,
+  },
+
+  // Exchange of Supabase Auth sessions for our JWT
+  tokenExchange: {
+    // Create a users row for Supabase Auth accounts that have none, instead of rejecting them
+    autoProvision: env.TOKEN_EXCHANGE_AUTO_PROVISION,
+    // Profile name given to auto-provisioned users
+    defaultProfile: env.TOKEN_EXCHANGE_DEFAULT_PROFILE,
   },
 
   // Supabase
@@ -107,6 +325,13 @@ export const config = {
     window: env.RATE_LIMIT_WINDOW,
   },
 
+  // Login Lockout
+  loginLockout: {
+    threshold: env.LOGIN_LOCKOUT_THRESHOLD,
+    lockoutMinutes: env.LOGIN_LOCKOUT_MINUTES,
+    backoffBaseSeconds: env.LOGIN_BACKOFF_BASE_SECONDS,
+  },
+
   // Frontend
   frontend: {
     url: env.FRONTEND_URL,
@@ -114,6 +339,18 @@ export const config = {
     logoutRedirectUrl: env.LOGOUT_REDIRECT_URL,
   },
 
+  // Passwordless login
+  magicLink: {
+    // Frontend page that receives the token hash and calls /api/auth/magic-link/verify
+    redirectUrl: env.MAGIC_LINK_REDIRECT_URL,
+  },
+
+  // Password reset
+  passwordReset: {
+    // Frontend page that receives the token hash and calls /api/auth/reset-password/confirm
+    redirectUrl: env.PASSWORD_RESET_REDIRECT_URL,
+  },
+
   // HTTP Client
   httpClient: {
     timeout: env.HTTP_TIMEOUT,
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { KeyObject } from 'crypto';
+import { z } from 'zod';
+import { config } from './index';
+
+export type AsymmetricAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtSigningKey {
+  kid: string;
+  alg: AsymmetricAlgorithm;
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+  activatesAt: Date;
+  expiresAt?: Date;
+}
+
+// Key set file schema
+// Keys without a private key only verify (retired keys kept until their expiry)
+const keySchema = z
+  .object({
+    kid: z.string().min(1),
+    alg: z.enum(['RS256', 'ES256']).optional(),
+    privateKeyPath: z.string().optional(),
+    publicKeyPath: z.string().optional(),
+    activatesAt: z.string().datetime().optional(),
+    expiresAt: z.string().datetime().optional(),
+  })
+  .refine(key => !!key.privateKeyPath || !!key.publicKeyPath, {
+    message: 'Either privateKeyPath or publicKeyPath is required',
+  });
+
+const keySetSchema = z.array(keySchema).min(1, 'At least one key is required');
+
+/**
+ * Load the asymmetric key set referenced by JWT_KEYS_FILE
+ * PEM paths are resolved relative to the key set file
+ */
+export const loadJwtKeys = (): JwtSigningKey[] => {
+  if (config.jwt.algorithm.startsWith('HS') || !config.jwt.keysFile) {
+    return [];
+  }
+
+  const keysFile = path.resolve(config.jwt.keysFile);
+  const baseDir = path.dirname(keysFile);
+
+  let entries: z.infer<typeof keySetSchema>;
+
+  try {
+    entries = keySetSchema.parse(JSON.parse(fs.readFileSync(keysFile, 'utf8')));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`JWT key set validation failed:\n${issues.join('\n')}`);
+    }
+    throw new Error(
+      `Failed to read JWT key set ${keysFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const kids = new Set<string>();
+
+  return entries.map(entry => {
+    if (kids.has(entry.kid)) {
+      throw new Error(`Duplicate JWT key id: ${entry.kid}`);
+    }
+    kids.add(entry.kid);
+
+    const readPem = (file: string) => fs.readFileSync(path.resolve(baseDir, file), 'utf8');
+
+    const privateKey = entry.privateKeyPath
+      ? crypto.createPrivateKey(readPem(entry.privateKeyPath))
+      : undefined;
+    const publicKey = entry.publicKeyPath
+      ? crypto.createPublicKey(readPem(entry.publicKeyPath))
+      : privateKey && crypto.createPublicKey(privateKey);
+
+    // The schema requires one of the two paths
+    if (!publicKey) {
+      throw new Error(`JWT key ${entry.kid} has no key file`);
+    }
+
+    return {
+      kid: entry.kid,
+      alg: entry.alg || (config.jwt.algorithm as AsymmetricAlgorithm),
+      privateKey,
+      publicKey,
+      activatesAt: entry.activatesAt ? new Date(entry.activatesAt) : new Date(0),
+      expiresAt: entry.expiresAt ? new Date(entry.expiresAt) : undefined,
+    };
+  });
+};
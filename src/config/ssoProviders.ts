@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { config } from './index';
+
+export type TokenEndpointAuthMethod = 'client_secret_basic' | 'client_secret_post' | 'none';
+
+export interface SsoProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  tokenEndpointAuthMethod: TokenEndpointAuthMethod;
+  scopes: string[];
+  // Claim holding the role or groups, a string or an array of strings
+  profileClaim?: string;
+  // Claim value to profile name, the first value found in the claim wins
+  profileMapping: Record<string, string>;
+  // Profile used when no mapping matches, users without a profile cannot be provisioned
+  defaultProfile?: string;
+  // Create users on their first login instead of requiring an existing account with the same email
+  autoProvision: boolean;
+  // Apply the mapped profile on every login, the IdP becomes the source of truth for roles
+  syncProfile: boolean;
+  // Some corporate IdPs never send email_verified, trusting their emails is an explicit choice
+  requireVerifiedEmail: boolean;
+}
+
+// Provider file schema
+const providerSchema = z
+  .object({
+    id: z
+      .string()
+      .regex(/^[a-z0-9-]+$/, 'Provider id must contain only lowercase letters, digits and dashes'),
+    name: z.string().min(1).optional(),
+    issuer: z.string().url(),
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1).optional(),
+    tokenEndpointAuthMethod: z
+      .enum(['client_secret_basic', 'client_secret_post', 'none'])
+      .optional(),
+    scopes: z.array(z.string().min(1)).default(['openid', 'email', 'profile']),
+    profileClaim: z.string().min(1).optional(),
+    profileMapping: z.record(z.string()).default({}),
+    defaultProfile: z.string().min(1).optional(),
+    autoProvision: z.boolean().default(false),
+    syncProfile: z.boolean().default(false),
+    requireVerifiedEmail: z.boolean().default(true),
+  })
+  .refine(provider => provider.scopes.includes('openid'), {
+    message: 'scopes must include openid',
+    path: ['scopes'],
+  })
+  .refine(provider => provider.tokenEndpointAuthMethod === 'none' || !!provider.clientSecret, {
+    message: 'clientSecret is required unless tokenEndpointAuthMethod is none',
+    path: ['clientSecret'],
+  });
+
+const providerSetSchema = z.array(providerSchema);
+
+/**
+ * Load the OIDC providers referenced by SSO_PROVIDERS_FILE
+ * Returns an empty list when SSO is not configured
+ */
+export const loadSsoProviders = (): SsoProvider[] => {
+  if (!config.sso.providersFile) {
+    return [];
+  }
+
+  const providersFile = path.resolve(config.sso.providersFile);
+
+  let entries: z.infer<typeof providerSetSchema>;
+
+  try {
+    entries = providerSetSchema.parse(JSON.parse(fs.readFileSync(providersFile, 'utf8')));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const issues = error.errors.map(err => `${err.path.join('.')}: ${err.message}`);
+      throw new Error(`SSO provider validation failed:\n${issues.join('\n')}`);
+    }
+    throw new Error(
+      `Failed to read SSO providers ${providersFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const ids = new Set<string>();
+
+  return entries.map(entry => {
+    if (ids.has(entry.id)) {
+      throw new Error(`Duplicate SSO provider id: ${entry.id}`);
+    }
+    ids.add(entry.id);
+
+    return {
+      ...entry,
+      name: entry.name || entry.id,
+      tokenEndpointAuthMethod: entry.tokenEndpointAuthMethod || 'client_secret_basic',
+    };
+  });
+};
@@ -31,6 +31,26 @@ const options: swaggerJsdoc.Options = {
           bearerFormat: 'JWT',
           description: 'Enter your JWT token in the format: Bearer <token>',
         },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'Personal API key, limited to its scopes',
+        },
+        oauth2ClientCredentials: {
+          type: 'oauth2',
+          description: 'Service token for machine clients, limited to its scopes',
+          flows: {
+            clientCredentials: {
+              tokenUrl: '/api/oauth/token',
+              scopes: {
+                'projects:read': 'Read projects',
+                'projects:write': 'Create, update and delete projects',
+                'projects:admin': 'Act on the projects of every user, required for service tokens',
+              },
+            },
+          },
+        },
       },
       responses: {
         UnauthorizedError: {
@@ -1,8 +1,20 @@
 import express, { Request, Response } from 'express';
 import { authService } from '../services/authService';
-import { logger } from '../utils/logger';
+import { introspectionService } from '../services/introspectionService';
+import { reconciliationService } from '../services/reconciliationService';
+import { loginEventService } from '../services/loginEventService';
+import { userService } from '../services/userService';
+import { userImportService } from '../services/userImportService';
+import { oauthService, OAuthError } from '../services/oauthService';
+import { ssoService, SsoLoginError } from '../services/ssoService';
+import { config } from '../config';
+import { logger, redactForLog } from '../utils/logger';
 import { ApiResponse } from '../utils/types';
 import { AuthenticatedRequest } from '../middlewares/authenticate';
+import { AccountLockedError } from '../services/loginAttemptService';
+import { PasswordPolicyError } from '../services/passwordPolicyService';
+import { getRequestContext } from '../utils/requestContext';
+import { parseBasicCredentials } from '../utils/basicAuth';
 
 export class AuthController {
   /**
@@ -46,20 +58,32 @@ export class AuthController {
    *                   properties:
    *                     token:
    *                       type: string
+   *                     refreshToken:
+   *                       type: string
    *                     user:
    *                       type: object
+   *                     mfaRequired:
+   *                       type: boolean
+   *                       description: Present when a second factor is needed, instead of token/user
+   *                     mfaEnrollmentRequired:
+   *                       type: boolean
+   *                     challengeToken:
+   *                       type: string
+   *                       description: Short-lived token for /api/auth/mfa/verify or /api/auth/mfa/enroll
    *       400:
    *         description: Invalid credentials or validation error
    *       401:
    *         description: Authentication failed
+   *       429:
+   *         description: Account temporarily locked (ACCOUNT_LOCKED, with unlockAt)
    */
   async login(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const loginData = await authService.login(req.body);
+      const loginData = await authService.login(req.body, getRequestContext(req));
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'Login successful',
+        message: 'mfaRequired' in loginData ? 'MFA verification required' : 'Login successful',
         data: loginData,
       };
 
@@ -67,13 +91,31 @@ export class AuthController {
     } catch (error) {
       logger.error('Login controller error:', { 
         error: error instanceof Error ? error.message : 'Unknown error',
-        body: req.body 
+        body: redactForLog(req.body),
       });
 
       const errorMessage = error instanceof Error ? error.message : 'Login failed';
       let statusCode = 401;
       let errorCode = 'AUTH_FAILED';
 
+      if (error instanceof AccountLockedError) {
+        const retryAfter = Math.max(1, Math.ceil((error.unlockAt.getTime() - Date.now()) / 1000));
+        res.set('Retry-After', String(retryAfter));
+
+        const response: ApiResponse = {
+          status: 'error',
+          message: errorMessage,
+          data: {
+            code: 'ACCOUNT_LOCKED',
+            field: 'email',
+            unlockAt: error.unlockAt.toISOString(),
+          },
+        };
+
+        res.status(429).json(response);
+        return;
+      }
+
       // Map specific error messages to appropriate codes
       if (errorMessage.includes('Invalid login credentials')) {
         errorCode = 'INVALID_CREDENTIALS';
@@ -81,7 +123,11 @@ export class AuthController {
         errorCode = 'EMAIL_NOT_CONFIRMED';
       } else if (errorMessage.includes('User not found in system')) {
         errorCode = 'USER_NOT_FOUND';
-      } else if (errorMessage.includes('User lookup failed')) {
+      } else if (
+        errorMessage.includes('User lookup failed') ||
+        errorMessage.includes('User is banned')
+      ) {
+        // Deactivated users are also banned in Supabase Auth, which rejects them before our own check
         errorCode = 'USER_BANNED';
       }
 
@@ -100,9 +146,9 @@ export class AuthController {
 
   /**
    * @swagger
-   * /api/auth/reset-password:
+   * /api/auth/mfa/verify:
    *   post:
-   *     summary: Request password reset
+   *     summary: Complete a login with a TOTP or recovery code
    *     tags: [Authentication]
    *     requestBody:
    *       required: true
@@ -111,141 +157,173 @@ export class AuthController {
    *           schema:
    *             type: object
    *             required:
-   *               - email
+   *               - challengeToken
    *             properties:
-   *               email:
+   *               challengeToken:
+   *                 type: string
+   *               code:
+   *                 type: string
+   *                 example: '123456'
+   *               recoveryCode:
    *                 type: string
-   *                 format: email
    *     responses:
    *       200:
-   *         description: Password reset email sent
+   *         description: Login successful
    *       400:
    *         description: Validation error
+   *       401:
+   *         description: Invalid code or challenge
+   *       429:
+   *         description: Too many wrong codes, MFA is in back-off or locked (ACCOUNT_LOCKED)
    */
-  async resetPassword(req: express.Request, res: express.Response): Promise<void> {
+  async verifyMfa(req: express.Request, res: express.Response): Promise<void> {
     try {
-      await authService.resetPassword(req.body);
+      const loginData = await authService.verifyMfa(req.body, getRequestContext(req));
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'Password reset email sent',
-        data: {},
+        message: 'Login successful',
+        data: loginData,
       };
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Reset password controller error:', { 
+      logger.error('Verify MFA controller error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        body: req.body 
       });
 
-      const response: ApiResponse = {
-        status: 'error',
-        message: error instanceof Error ? error.message : 'Password reset failed',
-        data: {
-          code: 'PASSWORD_RESET_ERROR',
-        },
-      };
+      const errorMessage = error instanceof Error ? error.message : 'MFA verification failed';
+      let errorCode = 'MFA_VERIFICATION_ERROR';
 
-      res.status(400).json(response);
-    }
-  }
+      if (error instanceof AccountLockedError) {
+        const retryAfter = Math.max(1, Math.ceil((error.unlockAt.getTime() - Date.now()) / 1000));
+        res.set('Retry-After', String(retryAfter));
 
-  /**
-   * @swagger
-   * /api/auth/me:
-   *   get:
-   *     summary: Get current user data
-   *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
-   *     responses:
-   *       200:
-   *         description: User data retrieved successfully
-   *       401:
-   *         description: Unauthorized
-   */
-  async getMe(req: express.Request, res: express.Response): Promise<void> {
-    try {
-      const user = req.user!;
+        const response: ApiResponse = {
+          status: 'error',
+          message: errorMessage,
+          data: {
+            code: 'ACCOUNT_LOCKED',
+            unlockAt: error.unlockAt.toISOString(),
+          },
+        };
 
-      const response: ApiResponse = {
-        status: 'success',
-        message: 'User data retrieved successfully',
-        data: user,
-      };
+        res.status(429).json(response);
+        return;
+      }
 
-      res.status(200).json(response);
-    } catch (error) {
-      logger.error('Get me controller error:', { 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        userId: req.user!.id 
-      });
+      if (errorMessage.includes('Invalid MFA code')) {
+        errorCode = 'INVALID_MFA_CODE';
+      } else if (errorMessage.includes('MFA challenge')) {
+        errorCode = 'INVALID_MFA_CHALLENGE';
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      }
 
       const response: ApiResponse = {
         status: 'error',
-        message: 'Failed to retrieve user data',
+        message: errorMessage,
         data: {
-          code: 'USER_DATA_ERROR',
+          code: errorCode,
         },
       };
 
-      res.status(500).json(response);
+      res.status(401).json(response);
     }
   }
 
   /**
    * @swagger
-   * /api/auth/validate:
-   *   get:
-   *     summary: Validate JWT token
+   * /api/auth/refresh:
+   *   post:
+   *     summary: Exchange a refresh token for a new token pair
    *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - refreshToken
+   *             properties:
+   *               refreshToken:
+   *                 type: string
    *     responses:
    *       200:
-   *         description: Token is valid
+   *         description: Token refreshed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 status:
+   *                   type: string
+   *                   example: success
+   *                 message:
+   *                   type: string
+   *                   example: Token refreshed
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     token:
+   *                       type: string
+   *                     refreshToken:
+   *                       type: string
+   *                     user:
+   *                       type: object
+   *       400:
+   *         description: Validation error
    *       401:
-   *         description: Invalid or expired token
+   *         description: Invalid, expired or reused refresh token
    */
-  async validateToken(req: express.Request, res: express.Response): Promise<void> {
+  async refresh(req: express.Request, res: express.Response): Promise<void> {
     try {
+      const tokenData = await authService.refreshToken(req.body);
+
       const response: ApiResponse = {
         status: 'success',
-        message: 'Token valid',
-        data: {
-          valid: true,
-          user_id: req.user!.id,
-        },
+        message: 'Token refreshed',
+        data: tokenData,
       };
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Validate token controller error:', { 
+      logger.error('Refresh token controller error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        userId: req.user!.id 
       });
 
+      const errorMessage = error instanceof Error ? error.message : 'Token refresh failed';
+      let errorCode = 'INVALID_REFRESH_TOKEN';
+
+      if (errorMessage.includes('reuse detected')) {
+        errorCode = 'REFRESH_TOKEN_REUSED';
+      } else if (errorMessage.includes('Refresh token expired')) {
+        errorCode = 'REFRESH_TOKEN_EXPIRED';
+      } else if (errorMessage.includes('User not found in system')) {
+        errorCode = 'USER_NOT_FOUND';
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      }
+
       const response: ApiResponse = {
         status: 'error',
-        message: 'Token validation failed',
+        message: errorMessage,
         data: {
-          code: 'TOKEN_VALIDATION_ERROR',
+          code: errorCode,
         },
       };
 
-      res.status(500).json(response);
+      res.status(401).json(response);
     }
   }
 
   /**
    * @swagger
-   * /api/auth/users:
+   * /api/auth/reset-password:
    *   post:
-   *     summary: Create new user (Admin only)
+   *     summary: Request password reset
    *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -253,58 +331,39 @@ export class AuthController {
    *           schema:
    *             type: object
    *             required:
-   *               - name
    *               - email
-   *               - profile_id
    *             properties:
-   *               name:
-   *                 type: string
-   *                 minLength: 2
-   *                 maxLength: 100
    *               email:
    *                 type: string
    *                 format: email
-   *               profile_id:
-   *                 type: string
-   *                 format: uuid
    *     responses:
-   *       201:
-   *         description: User created successfully
+   *       200:
+   *         description: Password reset email sent
    *       400:
    *         description: Validation error
-   *       403:
-   *         description: Insufficient permissions
    */
-  async createUser(req: express.Request, res: express.Response): Promise<void> {
+  async resetPassword(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const createdUser = await authService.createUser(req.body);
+      await authService.resetPassword(req.body);
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'User created successfully',
-        data: createdUser,
+        message: 'Password reset email sent',
+        data: {},
       };
 
-      res.status(201).json(response);
+      res.status(200).json(response);
     } catch (error) {
-      logger.error('Create user controller error:', { 
+      logger.error('Reset password controller error:', { 
         error: error instanceof Error ? error.message : 'Unknown error',
-        body: req.body,
-        adminId: req.user!.id 
+        body: redactForLog(req.body),
       });
 
-      const errorMessage = error instanceof Error ? error.message : 'User creation failed';
-      let errorCode = 'USER_CREATION_ERROR';
-
-      if (errorMessage.includes('already exists') || errorMessage.includes('duplicate key')) {
-        errorCode = 'USER_EXISTS';
-      }
-
       const response: ApiResponse = {
         status: 'error',
-        message: errorMessage,
+        message: error instanceof Error ? error.message : 'Password reset failed',
         data: {
-          code: errorCode,
+          code: 'PASSWORD_RESET_ERROR',
         },
       };
 
@@ -314,19 +373,11 @@ export class AuthController {
 
   /**
    * @swagger
-   * /api/auth/users/{id}/status:
-   *   patch:
-   *     summary: Update user status (Admin only)
+   * /api/auth/reset-password/confirm:
+   *   post:
+   *     summary: Set a new password from a password reset link
+   *     description: The new password must satisfy the password policy. Every session of the user is signed out.
    *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
-   *     parameters:
-   *       - in: path
-   *         name: id
-   *         required: true
-   *         schema:
-   *           type: string
-   *           format: uuid
    *     requestBody:
    *       required: true
    *       content:
@@ -334,67 +385,76 @@ export class AuthController {
    *           schema:
    *             type: object
    *             required:
-   *               - status
+   *               - tokenHash
+   *               - newPassword
    *             properties:
-   *               status:
+   *               tokenHash:
    *                 type: string
-   *                 enum: [active, inactive]
+   *                 description: token_hash query parameter of the reset link
+   *               newPassword:
+   *                 type: string
+   *                 description: Must satisfy the password policy
    *     responses:
    *       200:
-   *         description: User status updated
+   *         description: Password reset
    *       400:
-   *         description: Validation error
-   *       403:
-   *         description: Insufficient permissions
-   *       404:
-   *         description: User not found
+   *         description: Validation error or password policy violation
+   *       401:
+   *         description: Invalid or expired reset link
    */
-  async updateUserStatus(req: express.Request, res: express.Response): Promise<void> {
+  async confirmPasswordReset(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const { id } = req.params;
-      const updatedUser = await authService.updateUserStatus(id, req.body);
+      await authService.confirmPasswordReset(req.body);
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'User status updated',
-        data: {
-          id: updatedUser.id,
-          status: updatedUser.status,
-        },
+        message: 'Password reset successfully',
+        data: {},
       };
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Update user status controller error:', { 
+      logger.error('Confirm password reset controller error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        params: req.params,
-        body: req.body,
-        adminId: req.user!.id 
       });
 
-      const errorMessage = error instanceof Error ? error.message : 'Status update failed';
-      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+      if (error instanceof PasswordPolicyError) {
+        const response: ApiResponse = {
+          status: 'error',
+          message: error.message,
+          data: {
+            code: 'PASSWORD_POLICY_VIOLATION',
+            field: 'newPassword',
+            violations: error.violations,
+          },
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Password reset failed';
+      const isInvalidLink = errorMessage.includes('Invalid or expired password reset link');
 
       const response: ApiResponse = {
         status: 'error',
         message: errorMessage,
         data: {
-          code: 'STATUS_UPDATE_ERROR',
+          code: isInvalidLink ? 'INVALID_RESET_LINK' : 'PASSWORD_RESET_ERROR',
         },
       };
 
-      res.status(statusCode).json(response);
+      res.status(isInvalidLink ? 401 : 400).json(response);
     }
   }
 
   /**
    * @swagger
-   * /api/auth/change-password:
+   * /api/auth/magic-link:
    *   post:
-   *     summary: Change user password (Admin only)
+   *     summary: Send a passwordless sign-in link
+   *     description: Always succeeds so the response does not reveal whether the email is registered.
    *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -403,60 +463,51 @@ export class AuthController {
    *             type: object
    *             required:
    *               - email
-   *               - newPassword
    *             properties:
    *               email:
    *                 type: string
    *                 format: email
-   *               newPassword:
-   *                 type: string
-   *                 minLength: 8
    *     responses:
    *       200:
-   *         description: Password changed successfully
+   *         description: Link sent if the email belongs to an active user
    *       400:
    *         description: Validation error
-   *       403:
-   *         description: Insufficient permissions
    */
-  async changePassword(req: express.Request, res: express.Response): Promise<void> {
+  async requestMagicLink(req: express.Request, res: express.Response): Promise<void> {
     try {
-      await authService.changePassword(req.body);
+      await authService.requestMagicLink(req.body);
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'Password changed successfully',
+        message: 'If the email is registered, a sign-in link has been sent',
         data: {},
       };
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Change password controller error:', { 
+      logger.error('Magic link controller error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        body: { email: req.body?.email }, // Don't log password
-        adminId: req.user!.id 
+        body: redactForLog(req.body),
       });
 
       const response: ApiResponse = {
         status: 'error',
-        message: error instanceof Error ? error.message : 'Password change failed',
+        message: error instanceof Error ? error.message : 'Failed to send magic link',
         data: {
-          code: 'PASSWORD_CHANGE_ERROR',
+          code: 'MAGIC_LINK_ERROR',
         },
       };
 
-      res.status(400).json(response);
+      res.status(500).json(response);
     }
   }
 
   /**
    * @swagger
-   * /api/auth/check-sync:
+   * /api/auth/magic-link/verify:
    *   post:
-   *     summary: Check user synchronization (Admin only)
+   *     summary: Exchange a magic link token for a JWT
    *     tags: [Authentication]
-   *     security:
-   *       - bearerAuth: []
    *     requestBody:
    *       required: true
    *       content:
@@ -464,44 +515,2843 @@ export class AuthController {
    *           schema:
    *             type: object
    *             required:
-   *               - email
+   *               - tokenHash
    *             properties:
-   *               email:
+   *               tokenHash:
    *                 type: string
-   *                 format: email
+   *                 description: token_hash query parameter of the link
    *     responses:
    *       200:
-   *         description: Sync status checked
+   *         description: Login successful, or MFA challenge like /api/auth/login
    *       400:
    *         description: Validation error
-   *       403:
-   *         description: Insufficient permissions
+   *       401:
+   *         description: Invalid or expired link, or inactive user
    */
-  async checkSync(req: express.Request, res: express.Response): Promise<void> {
+  async verifyMagicLink(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const syncResult = await authService.checkSync(req.body);
+      const loginData = await authService.verifyMagicLink(req.body, getRequestContext(req));
 
       const response: ApiResponse = {
         status: 'success',
-        message: 'User synchronization status verified',
-        data: {
-          email: req.body.email,
-          ...syncResult,
-        },
+        message: 'mfaRequired' in loginData ? 'MFA verification required' : 'Login successful',
+        data: loginData,
       };
 
       res.status(200).json(response);
     } catch (error) {
-      logger.error('Check sync controller error:', { 
+      logger.error('Magic link verify controller error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
-        body: req.body,
-        adminId: req.user!.id 
       });
 
-      const response: ApiResponse = {
-        status: 'error',
-        message: error instanceof Error ? error.message : 'Sync check failed',
-        data: {
+      const errorMessage = error instanceof Error ? error.message : 'Login failed';
+      let errorCode = 'AUTH_FAILED';
+
+      if (errorMessage.includes('Invalid or expired magic link')) {
+        errorCode = 'INVALID_MAGIC_LINK';
+      } else if (errorMessage.includes('User not found in system')) {
+        errorCode = 'USER_NOT_FOUND';
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(401).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/token/exchange:
+   *   post:
+   *     summary: Exchange a Supabase Auth access token for a JWT
+   *     description: For sessions started with supabase-js (e.g. social logins), without sending the password again.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - accessToken
+   *             properties:
+   *               accessToken:
+   *                 type: string
+   *                 description: access_token of the Supabase session
+   *     responses:
+   *       200:
+   *         description: Login successful, or MFA challenge like /api/auth/login
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Invalid or expired Supabase token, or inactive user
+   *       403:
+   *         description: Supabase Auth account has no user in the system (USER_NOT_PROVISIONED)
+   */
+  async exchangeToken(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const loginData = await authService.exchangeSupabaseToken(req.body, getRequestContext(req));
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'mfaRequired' in loginData ? 'MFA verification required' : 'Login successful',
+        data: loginData,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Token exchange controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Token exchange failed';
+      let errorCode = 'AUTH_FAILED';
+      let statusCode = 401;
+
+      if (errorMessage.includes('Invalid or expired Supabase token')) {
+        errorCode = 'INVALID_SUPABASE_TOKEN';
+      } else if (errorMessage.includes('User not provisioned')) {
+        errorCode = 'USER_NOT_PROVISIONED';
+        statusCode = 403;
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      } else if (errorMessage.includes('Failed to')) {
+        errorCode = 'TOKEN_EXCHANGE_ERROR';
+        statusCode = 500;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sso/providers:
+   *   get:
+   *     summary: List the configured SSO identity providers
+   *     tags: [Authentication]
+   *     responses:
+   *       200:
+   *         description: Providers to offer on the login page
+   */
+  async listSsoProviders(req: express.Request, res: express.Response): Promise<void> {
+    const response: ApiResponse = {
+      status: 'success',
+      message: 'SSO providers retrieved successfully',
+      data: ssoService.listProviders(),
+    };
+
+    res.status(200).json(response);
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sso/{provider}/start:
+   *   get:
+   *     summary: Start an SSO login
+   *     description: Redirects the browser to the identity provider (authorization code flow with PKCE).
+   *     tags: [Authentication]
+   *     parameters:
+   *       - in: path
+   *         name: provider
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: redirect
+   *         description: Frontend URL to return to, must be on FRONTEND_URL (defaults to LOGIN_REDIRECT_URL)
+   *         schema:
+   *           type: string
+   *     responses:
+   *       302:
+   *         description: Redirect to the identity provider
+   *       404:
+   *         description: SSO provider not found
+   *       502:
+   *         description: Identity provider unreachable
+   */
+  async startSso(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const authorizationUrl = await ssoService.startLogin(
+        req.params.provider,
+        req.query.redirect as string | undefined
+      );
+
+      res.redirect(302, authorizationUrl);
+    } catch (error) {
+      logger.error('Start SSO controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        provider: req.params.provider,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to start SSO login';
+      let errorCode = 'SSO_ERROR';
+      let statusCode = 500;
+
+      if (errorMessage.includes('SSO provider not found')) {
+        errorCode = 'SSO_PROVIDER_NOT_FOUND';
+        statusCode = 404;
+      } else if (errorMessage.includes('Failed to reach identity provider')) {
+        errorCode = 'SSO_IDP_ERROR';
+        statusCode = 502;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sso/{provider}/callback:
+   *   get:
+   *     summary: SSO redirect URI registered at the identity provider
+   *     description: Redirects to the frontend with a one-time `code` to redeem on /api/auth/sso/complete, or with an `error` code.
+   *     tags: [Authentication]
+   *     parameters:
+   *       - in: path
+   *         name: provider
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       302:
+   *         description: Redirect to the frontend
+   */
+  async ssoCallback(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const redirectUrl = await authService.completeSsoLogin(
+        req.params.provider,
+        {
+          code: typeof req.query.code === 'string' ? req.query.code : undefined,
+          state: typeof req.query.state === 'string' ? req.query.state : undefined,
+          error: typeof req.query.error === 'string' ? req.query.error : undefined,
+          error_description:
+            typeof req.query.error_description === 'string'
+              ? req.query.error_description
+              : undefined,
+        },
+        getRequestContext(req)
+      );
+
+      res.redirect(302, redirectUrl);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'SSO login failed';
+      const redirectUrl =
+        error instanceof SsoLoginError ? error.redirectUrl : config.frontend.loginRedirectUrl;
+      let errorCode = 'SSO_ERROR';
+
+      if (errorMessage.includes('Invalid or expired SSO state')) {
+        errorCode = 'INVALID_SSO_STATE';
+      } else if (errorMessage.includes('SSO login rejected by identity provider')) {
+        errorCode = 'SSO_REJECTED';
+      } else if (
+        errorMessage.includes('Failed to reach identity provider') ||
+        errorMessage.includes('SSO code exchange failed') ||
+        errorMessage.includes('Invalid ID token')
+      ) {
+        errorCode = 'SSO_IDP_ERROR';
+      } else if (errorMessage.includes('User not provisioned')) {
+        errorCode = 'USER_NOT_PROVISIONED';
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      }
+
+      res.redirect(302, ssoService.buildRedirect(redirectUrl, { error: errorCode }));
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sso/complete:
+   *   post:
+   *     summary: Redeem the one-time code of an SSO login for a JWT
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 description: code query parameter of the redirect to the frontend
+   *     responses:
+   *       200:
+   *         description: Login successful, or MFA challenge like /api/auth/login
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Invalid, expired or already used code
+   */
+  async completeSso(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const loginData = await ssoService.takeLoginResult(req.body.code);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'mfaRequired' in loginData ? 'MFA verification required' : 'Login successful',
+        data: loginData,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Complete SSO controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'SSO login failed',
+        data: {
+          code: 'INVALID_SSO_CODE',
+        },
+      };
+
+      res.status(401).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/me:
+   *   get:
+   *     summary: Get current user data
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: User data retrieved successfully
+   *       401:
+   *         description: Unauthorized
+   */
+  async getMe(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const user = req.user!;
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User data retrieved successfully',
+        data: user,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Get me controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user!.id 
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: 'Failed to retrieve user data',
+        data: {
+          code: 'USER_DATA_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/introspect:
+   *   post:
+   *     summary: Introspect a token (RFC 7662)
+   *     description: |
+   *       For resource servers registered as OAuth clients, authenticated with HTTP Basic or
+   *       client_id/client_secret in the body. Accepts access, impersonation and service tokens,
+   *       refresh tokens and API keys. Revoked tokens, revoked clients and inactive users are
+   *       reported as `{ "active": false }`; profile_name reflects the current profile.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/x-www-form-urlencoded:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *             properties:
+   *               token:
+   *                 type: string
+   *               token_type_hint:
+   *                 type: string
+   *                 description: Accepted but not needed, the type is detected from the token format
+   *               client_id:
+   *                 type: string
+   *               client_secret:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Introspection response (RFC 7662 format)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 active:
+   *                   type: boolean
+   *                 sub:
+   *                   type: string
+   *                 scope:
+   *                   type: string
+   *                 exp:
+   *                   type: integer
+   *                 iat:
+   *                   type: integer
+   *                 client_id:
+   *                   type: string
+   *                 username:
+   *                   type: string
+   *                 profile_name:
+   *                   type: string
+   *                 token_type:
+   *                   type: string
+   *                   enum: [access_token, refresh_token, api_key]
+   *       400:
+   *         description: invalid_request
+   *       401:
+   *         description: invalid_client
+   */
+  async introspect(req: express.Request, res: express.Response): Promise<void> {
+    // Introspection responses describe live credentials and must not be cached
+    res.set('Cache-Control', 'no-store');
+    res.set('Pragma', 'no-cache');
+
+    try {
+      // A malformed Basic header parses to null and ends in invalid_client below
+      const basicCredentials = parseBasicCredentials(req);
+      const body = req.body || {};
+      const clientId = basicCredentials?.client_id || body.client_id;
+      const clientSecret = basicCredentials?.client_secret || body.client_secret;
+
+      if (!clientId || !clientSecret) {
+        throw new OAuthError('invalid_client', 'Client authentication required', 401);
+      }
+
+      const client = await oauthService.authenticateClient(clientId, clientSecret);
+
+      if (typeof body.token !== 'string' || !body.token) {
+        throw new OAuthError('invalid_request', 'token is required');
+      }
+
+      const introspection = await introspectionService.introspect(body.token);
+
+      logger.info('Token introspected', {
+        clientId: client.client_id,
+        active: introspection.active,
+        tokenType: introspection.token_type,
+        sub: introspection.sub,
+      });
+
+      // Standard introspection response, not wrapped in ApiResponse
+      res.status(200).json(introspection);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        if (error.statusCode === 401) {
+          res.set('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+
+        res.status(error.statusCode).json({
+          error: error.error,
+          error_description: error.message,
+        });
+        return;
+      }
+
+      logger.error('Introspection controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Failed to introspect token',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/validate:
+   *   get:
+   *     summary: Validate JWT token
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Token is valid
+   *       401:
+   *         description: Invalid or expired token
+   */
+  async validateToken(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Token valid',
+        data: {
+          valid: true,
+          user_id: req.user!.id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Validate token controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: req.user!.id 
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: 'Token validation failed',
+        data: {
+          code: 'TOKEN_VALIDATION_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/mfa/enroll:
+   *   post:
+   *     summary: Start TOTP enrollment
+   *     description: Accepts a regular token or the challenge token returned when the profile requires MFA
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Secret generated
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     secret:
+   *                       type: string
+   *                     otpauthUri:
+   *                       type: string
+   *       400:
+   *         description: MFA already enabled
+   *       401:
+   *         description: Unauthorized
+   */
+  async startMfaEnrollment(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const enrollment = await authService.startMfaEnrollment((req as AuthenticatedRequest).user);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'MFA enrollment started',
+        data: enrollment,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Start MFA enrollment controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'MFA enrollment failed',
+        data: {
+          code: 'MFA_ENROLLMENT_ERROR',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/mfa/enroll/confirm:
+   *   post:
+   *     summary: Confirm TOTP enrollment with a first code
+   *     description: Returns one-time recovery codes, plus the login tokens when called with an enrollment challenge token
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: MFA enabled
+   *       400:
+   *         description: Invalid code or enrollment not started
+   *       401:
+   *         description: Unauthorized
+   */
+  async confirmMfaEnrollment(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.confirmMfaEnrollment(
+        (req as AuthenticatedRequest).user,
+        req.body,
+        getRequestContext(req)
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'MFA enabled',
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Confirm MFA enrollment controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'MFA enrollment failed';
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorMessage.includes('Invalid MFA code')
+            ? 'INVALID_MFA_CODE'
+            : 'MFA_ENROLLMENT_ERROR',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/mfa/disable:
+   *   post:
+   *     summary: Disable MFA for the current user
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: MFA disabled
+   *       400:
+   *         description: Invalid code or MFA required by profile
+   *       401:
+   *         description: Unauthorized
+   */
+  async disableMfa(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      await authService.disableMfa((req as AuthenticatedRequest).user, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'MFA disabled',
+        data: {},
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Disable MFA controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'MFA disable failed';
+      let errorCode = 'MFA_DISABLE_ERROR';
+
+      if (errorMessage.includes('Invalid MFA code')) {
+        errorCode = 'INVALID_MFA_CODE';
+      } else if (errorMessage.includes('required for your profile')) {
+        errorCode = 'MFA_REQUIRED_BY_PROFILE';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/logout:
+   *   post:
+   *     summary: Logout and end the current session
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: false
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               refreshToken:
+   *                 type: string
+   *                 description: Refresh token to revoke, only needed for tokens issued without a session
+   *     responses:
+   *       200:
+   *         description: Logout successful
+   *       401:
+   *         description: Unauthorized
+   */
+  async logout(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      await authService.logout((req as AuthenticatedRequest).user, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Logout successful',
+        data: {},
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Logout controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Logout failed',
+        data: {
+          code: 'LOGOUT_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/me/password:
+   *   post:
+   *     summary: Change the current user's password
+   *     description: Re-verifies the current password and signs out every other session.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - currentPassword
+   *               - newPassword
+   *             properties:
+   *               currentPassword:
+   *                 type: string
+   *               newPassword:
+   *                 type: string
+   *                 description: Must satisfy the password policy
+   *     responses:
+   *       200:
+   *         description: Password changed successfully
+   *       400:
+   *         description: Validation error or incorrect current password
+   *       401:
+   *         description: Unauthorized
+   *       429:
+   *         description: Too many failed attempts (ACCOUNT_LOCKED)
+   */
+  async changeOwnPassword(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      await authService.changeOwnPassword((req as AuthenticatedRequest).user, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Password changed successfully',
+        data: {},
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Change own password controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Password change failed';
+
+      if (error instanceof PasswordPolicyError) {
+        const response: ApiResponse = {
+          status: 'error',
+          message: error.message,
+          data: {
+            code: 'PASSWORD_POLICY_VIOLATION',
+            field: 'newPassword',
+            violations: error.violations,
+          },
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      if (error instanceof AccountLockedError) {
+        const retryAfter = Math.max(1, Math.ceil((error.unlockAt.getTime() - Date.now()) / 1000));
+        res.set('Retry-After', String(retryAfter));
+
+        const response: ApiResponse = {
+          status: 'error',
+          message: errorMessage,
+          data: {
+            code: 'ACCOUNT_LOCKED',
+            unlockAt: error.unlockAt.toISOString(),
+          },
+        };
+
+        res.status(429).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorMessage.includes('Current password is incorrect')
+            ? 'INVALID_CURRENT_PASSWORD'
+            : 'PASSWORD_CHANGE_ERROR',
+          field: errorMessage.includes('Current password is incorrect')
+            ? 'currentPassword'
+            : 'newPassword',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sessions:
+   *   get:
+   *     summary: List active sessions of the current user
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Active sessions, the one making the request flagged as current
+   *       401:
+   *         description: Unauthorized
+   */
+  async getSessions(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const sessions = await authService.listSessions(
+        (req as AuthenticatedRequest).user.id,
+        (req as AuthenticatedRequest).user.sid
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Sessions retrieved successfully',
+        data: {
+          sessions,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Get sessions controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list sessions',
+        data: {
+          code: 'SESSION_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/me/logins:
+   *   get:
+   *     summary: Login history of the current user
+   *     description: Successful and failed logins, most recent first.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Login events retrieved
+   *       401:
+   *         description: Unauthorized
+   */
+  async getOwnLogins(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const logins = await loginEventService.listForUser(
+        (req as AuthenticatedRequest).user.id,
+        req.query
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Login history retrieved successfully',
+        data: {
+          logins: logins.items,
+          pagination: logins.pagination,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Get own logins controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list login events',
+        data: {
+          code: 'LOGIN_HISTORY_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/sessions/{id}:
+   *   delete:
+   *     summary: Sign out one of the current user's sessions
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: Session not found
+   */
+  async deleteSession(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.revokeSession((req as AuthenticatedRequest).user.id, id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Session revoked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Delete session controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Session revocation failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'SESSION_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/api-keys:
+   *   post:
+   *     summary: Create a personal API key
+   *     description: The key is only returned in this response. Send it in the X-API-Key header.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - scopes
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *               scopes:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   enum: [projects:read, projects:write]
+   *               expiresAt:
+   *                 type: string
+   *                 format: date-time
+   *     responses:
+   *       201:
+   *         description: API key created
+   *       400:
+   *         description: Validation error
+   *       401:
+   *         description: Unauthorized
+   */
+  async createApiKey(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.createApiKey(
+        (req as AuthenticatedRequest).user.id,
+        req.body
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'API key created',
+        data: result,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Create API key controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'API key creation failed',
+        data: {
+          code: 'API_KEY_CREATION_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/api-keys:
+   *   get:
+   *     summary: List active API keys of the current user
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: API keys (without the secret part)
+   *       401:
+   *         description: Unauthorized
+   */
+  async listApiKeys(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const apiKeys = await authService.listApiKeys((req as AuthenticatedRequest).user.id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'API keys retrieved successfully',
+        data: {
+          apiKeys,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List API keys controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list API keys',
+        data: {
+          code: 'API_KEY_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/api-keys/{id}:
+   *   delete:
+   *     summary: Revoke an API key of the current user
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: API key revoked
+   *       401:
+   *         description: Unauthorized
+   *       404:
+   *         description: API key not found
+   */
+  async revokeApiKey(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.revokeApiKey((req as AuthenticatedRequest).user.id, id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'API key revoked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Revoke API key controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        userId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'API key revocation failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'API_KEY_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users:
+   *   post:
+   *     summary: Invite a new user (Admin only)
+   *     description: |
+   *       Creates a pending invitation. The user is only created, with the password they choose,
+   *       when the invitation is accepted. The returned token and link are not shown again.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - email
+   *               - profile_id
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 minLength: 2
+   *                 maxLength: 100
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               profile_id:
+   *                 type: string
+   *                 format: uuid
+   *     responses:
+   *       201:
+   *         description: Invitation created
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   *       409:
+   *         description: User exists or an invitation is already pending
+   */
+  async createUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.inviteUser((req as AuthenticatedRequest).user.id, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitation created successfully',
+        data: result,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Create user controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        body: redactForLog(req.body),
+        adminId: req.user!.id 
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'User creation failed';
+      let statusCode = 400;
+      let errorCode = 'USER_CREATION_ERROR';
+
+      if (errorMessage.includes('already exists')) {
+        statusCode = 409;
+        errorCode = 'USER_EXISTS';
+      } else if (errorMessage.includes('already pending')) {
+        statusCode = 409;
+        errorCode = 'INVITATION_PENDING';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/import:
+   *   post:
+   *     summary: Invite users in bulk from a CSV or JSON file (Admin only)
+   *     description: |
+   *       Every row needs name, email and profile (a profile name or ID) and is validated with the
+   *       same rules as POST /api/auth/users. dry_run, the default, only reports the result of each row;
+   *       apply also creates the invitations of the valid rows in batches.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: mode
+   *         schema:
+   *           type: string
+   *           enum: [dry_run, apply]
+   *           default: dry_run
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         text/csv:
+   *           schema:
+   *             type: string
+   *             example: |
+   *               name,email,profile
+   *               Maria Silva,maria@example.com,user
+   *         application/json:
+   *           schema:
+   *             type: array
+   *             items:
+   *               type: object
+   *               properties:
+   *                 name:
+   *                   type: string
+   *                 email:
+   *                   type: string
+   *                   format: email
+   *                 profile:
+   *                   type: string
+   *     responses:
+   *       200:
+   *         description: Per-row import report
+   *       400:
+   *         description: Malformed file or too many rows
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async importUsers(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const mode = req.query.mode as 'dry_run' | 'apply';
+      const report = await userImportService.import(
+        (req as AuthenticatedRequest).user.id,
+        req.body,
+        mode
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: mode === 'apply' ? 'User import applied' : 'User import validated',
+        data: report,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Import users controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'User import failed';
+      let statusCode = 500;
+      let errorCode = 'USER_IMPORT_ERROR';
+
+      if (errorMessage.startsWith('Invalid import file') || errorMessage.includes('has no rows')) {
+        statusCode = 400;
+        errorCode = 'INVALID_IMPORT_FILE';
+      } else if (errorMessage.includes('exceeds the limit')) {
+        statusCode = 400;
+        errorCode = 'IMPORT_TOO_LARGE';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users:
+   *   get:
+   *     summary: List users, inactive ones included (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: search
+   *         description: Case-insensitive match on name or email
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [active, inactive]
+   *       - in: query
+   *         name: profile_id
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: created_from
+   *         description: Users created at or after this ISO 8601 date-time
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: created_to
+   *         description: Users created before this ISO 8601 date-time
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [name, email, status, created_at]
+   *           default: created_at
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *           default: desc
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           default: 1
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 100
+   *           default: 10
+   *     responses:
+   *       200:
+   *         description: Users retrieved
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async listUsers(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const users = await userService.list(req.query);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Users retrieved successfully',
+        data: {
+          users: users.items,
+          pagination: users.pagination,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List users controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list users',
+        data: {
+          code: 'USER_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}:
+   *   get:
+   *     summary: Get a user with profile and project counts (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: User retrieved
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   */
+  async getUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const user = await userService.getById(req.params.id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User retrieved successfully',
+        data: user,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch user';
+
+      logger.error('Get user controller error:', {
+        error: errorMessage,
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const notFound = errorMessage === 'User not found';
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: notFound ? 'USER_NOT_FOUND' : 'USER_FETCH_ERROR',
+        },
+      };
+
+      res.status(notFound ? 404 : 500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/invitations/{token}:
+   *   get:
+   *     summary: Show a pending invitation
+   *     tags: [Authentication]
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Invitation details
+   *       401:
+   *         description: Invalid, expired, accepted or revoked invitation
+   */
+  async getInvitation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const invitation = await authService.getInvitation(req.params.token);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitation retrieved successfully',
+        data: invitation,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to retrieve invitation';
+
+      logger.warn('Get invitation controller error:', {
+        error: errorMessage,
+        ip: req.ip,
+      });
+
+      const isInvalid =
+        errorMessage === 'Invalid invitation' || errorMessage === 'Invitation expired';
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: isInvalid ? 'INVALID_INVITATION' : 'INVITATION_ERROR',
+        },
+      };
+
+      res.status(isInvalid ? 401 : 500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/invitations/{token}/accept:
+   *   post:
+   *     summary: Accept an invitation and set the account password
+   *     tags: [Authentication]
+   *     parameters:
+   *       - in: path
+   *         name: token
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - password
+   *             properties:
+   *               password:
+   *                 type: string
+   *                 description: Must satisfy the password policy
+   *     responses:
+   *       201:
+   *         description: Invitation accepted and user created
+   *       400:
+   *         description: Validation error or password policy violation
+   *       401:
+   *         description: Invalid, expired, accepted or revoked invitation
+   */
+  async acceptInvitation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const createdUser = await authService.acceptInvitation(req.params.token, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitation accepted',
+        data: createdUser,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Accept invitation controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ip: req.ip,
+      });
+
+      if (error instanceof PasswordPolicyError) {
+        const response: ApiResponse = {
+          status: 'error',
+          message: error.message,
+          data: {
+            code: 'PASSWORD_POLICY_VIOLATION',
+            field: 'password',
+            violations: error.violations,
+          },
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Invitation acceptance failed';
+      let statusCode = 400;
+      let errorCode = 'INVITATION_ACCEPT_ERROR';
+
+      if (errorMessage === 'Invalid invitation' || errorMessage === 'Invitation expired') {
+        statusCode = 401;
+        errorCode = 'INVALID_INVITATION';
+      } else if (errorMessage.includes('already') || errorMessage.includes('duplicate key')) {
+        statusCode = 409;
+        errorCode = 'USER_EXISTS';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/invitations:
+   *   get:
+   *     summary: List pending invitations, expired ones included (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Pending invitations
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async listInvitations(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const invitations = await authService.listInvitations();
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitations retrieved successfully',
+        data: {
+          invitations,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List invitations controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list invitations',
+        data: {
+          code: 'INVITATION_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/invitations/{id}/resend:
+   *   post:
+   *     summary: Issue a new link for a pending invitation (Admin only)
+   *     description: The previous link stops working and the expiry is reset.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Invitation resent
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Invitation not found
+   */
+  async resendInvitation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.resendInvitation(req.params.id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitation resent',
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Resend invitation controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resend invitation';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'INVITATION_RESEND_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/invitations/{id}:
+   *   delete:
+   *     summary: Revoke a pending invitation (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Invitation revoked
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Invitation not found
+   */
+  async revokeInvitation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.revokeInvitation(id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Invitation revoked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Revoke invitation controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Failed to revoke invitation';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'INVITATION_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/status:
+   *   patch:
+   *     summary: Update user status (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - status
+   *             properties:
+   *               status:
+   *                 type: string
+   *                 enum: [active, inactive]
+   *     responses:
+   *       200:
+   *         description: User status updated and synced with Supabase Auth (authSync.status synced, not_linked or sso_only)
+   *       202:
+   *         description: User status updated, Supabase Auth ban sync failed and was queued for retry
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   */
+  async updateUserStatus(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { user: updatedUser, authSync } = await authService.updateUserStatus(id, req.body);
+
+      const messages = {
+        synced: 'User status updated',
+        queued: 'User status updated, Supabase Auth sync queued for retry',
+        not_linked: 'User status updated, user is not linked to Supabase Auth',
+        sso_only: 'User status updated, user signs in through SSO and has no Supabase Auth account',
+      };
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: messages[authSync.status],
+        data: {
+          id: updatedUser.id,
+          status: updatedUser.status,
+          authSync,
+        },
+      };
+
+      // The status change is stored either way, 202 signals the Supabase Auth side is still pending
+      res.status(authSync.status === 'queued' ? 202 : 200).json(response);
+    } catch (error) {
+      logger.error('Update user status controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        body: redactForLog(req.body),
+        adminId: req.user!.id 
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Status update failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'STATUS_UPDATE_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}:
+   *   patch:
+   *     summary: Rename a user or change its profile (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               name:
+   *                 type: string
+   *               profile_id:
+   *                 type: string
+   *                 format: uuid
+   *     responses:
+   *       200:
+   *         description: User updated
+   *       400:
+   *         description: Validation error or unknown profile
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   *       409:
+   *         description: The user is the last active admin (LAST_ADMIN)
+   */
+  async updateUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const updatedUser = await authService.updateUser(req.params.id, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User updated',
+        data: updatedUser,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Update user controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        body: redactForLog(req.body),
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'User update failed';
+      let errorCode = 'USER_UPDATE_ERROR';
+      let statusCode = 500;
+
+      if (errorMessage === 'User not found') {
+        errorCode = 'USER_NOT_FOUND';
+        statusCode = 404;
+      } else if (errorMessage === 'Profile not found') {
+        errorCode = 'PROFILE_NOT_FOUND';
+        statusCode = 400;
+      } else if (errorMessage === 'Cannot remove the last admin') {
+        errorCode = 'LAST_ADMIN';
+        statusCode = 409;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}:
+   *   delete:
+   *     summary: Delete a user and its Supabase Auth account (Admin only)
+   *     description: The user's projects are reassigned to another user or deleted. Project and ban changes are undone when the user cannot be deleted.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: projects
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [reassign, delete]
+   *       - in: query
+   *         name: reassign_to
+   *         description: User receiving the projects, required with projects=reassign
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: User deleted, Supabase Auth account deleted (authSync.status synced, not_linked or sso_only)
+   *       202:
+   *         description: User deleted, Supabase Auth account deletion queued for retry (the account stays banned)
+   *       400:
+   *         description: Validation error, self-deletion or unknown reassignment target
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   *       409:
+   *         description: The user is the last active admin (LAST_ADMIN)
+   */
+  async deleteUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.deleteUser(
+        (req as AuthenticatedRequest).user.id,
+        req.params.id,
+        {
+          projects: req.query.projects as 'reassign' | 'delete',
+          reassign_to: req.query.reassign_to as string | undefined,
+        }
+      );
+
+      const messages = {
+        synced: 'User deleted',
+        queued: 'User deleted, Supabase Auth account deletion queued for retry',
+        not_linked: 'User deleted, user was not linked to Supabase Auth',
+        sso_only: 'User deleted, user signed in through SSO and had no Supabase Auth account',
+      };
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: messages[result.authSync.status],
+        data: result,
+      };
+
+      // The user is gone either way, 202 signals the Supabase Auth side is still pending
+      res.status(result.authSync.status === 'queued' ? 202 : 200).json(response);
+    } catch (error) {
+      logger.error('Delete user controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        query: req.query,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'User deletion failed';
+      let errorCode = 'USER_DELETE_ERROR';
+      let statusCode = 500;
+
+      if (errorMessage === 'User not found') {
+        errorCode = 'USER_NOT_FOUND';
+        statusCode = 404;
+      } else if (errorMessage === 'Reassignment target not found') {
+        errorCode = 'REASSIGN_TARGET_NOT_FOUND';
+        statusCode = 400;
+      } else if (
+        errorMessage.startsWith('Cannot delete yourself') ||
+        errorMessage.startsWith('Cannot reassign')
+      ) {
+        errorCode = 'INVALID_USER_DELETION';
+        statusCode = 400;
+      } else if (errorMessage === 'Cannot remove the last admin') {
+        errorCode = 'LAST_ADMIN';
+        statusCode = 409;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/revoke-tokens:
+   *   post:
+   *     summary: Revoke all tokens of a user (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: User tokens revoked
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async revokeUserTokens(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.revokeUserTokens(id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User tokens revoked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Revoke user tokens controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Token revocation failed',
+        data: {
+          code: 'TOKEN_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/sessions:
+   *   get:
+   *     summary: List active sessions of a user (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Active sessions of the user
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async getUserSessions(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const sessions = await authService.listSessions(id, (req as AuthenticatedRequest).user.sid);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Sessions retrieved successfully',
+        data: {
+          sessions,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Get user sessions controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list sessions',
+        data: {
+          code: 'SESSION_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/login-events:
+   *   get:
+   *     summary: Login history across users (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: user_id
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: email
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: method
+   *         schema:
+   *           type: string
+   *           enum: [password, magic_link, token_exchange, sso]
+   *       - in: query
+   *         name: success
+   *         schema:
+   *           type: boolean
+   *       - in: query
+   *         name: ip
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: from
+   *         description: Events at or after this ISO 8601 date-time
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: to
+   *         description: Events before this ISO 8601 date-time
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Login events retrieved
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async listLoginEvents(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const logins = await loginEventService.list(req.query);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Login events retrieved successfully',
+        data: {
+          logins: logins.items,
+          pagination: logins.pagination,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List login events controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        query: req.query,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list login events',
+        data: {
+          code: 'LOGIN_HISTORY_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/sessions/{sessionId}:
+   *   delete:
+   *     summary: Sign out a session of a user (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Session not found
+   */
+  async deleteUserSession(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id, sessionId } = req.params;
+      await authService.revokeSession(id, sessionId);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Session revoked',
+        data: {
+          id: sessionId,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Delete user session controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Session revocation failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'SESSION_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/impersonate:
+   *   post:
+   *     summary: Issue a short-lived token acting as a user (Admin only)
+   *     description: |
+   *       The token carries an `act` claim naming the admin. It has no refresh token,
+   *       every request made with it is logged with both identities, and it is rejected
+   *       by admin routes and account routes such as password changes.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Impersonation token issued
+   *       400:
+   *         description: User is inactive or is the admin
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   */
+  async impersonateUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const result = await authService.impersonateUser((req as AuthenticatedRequest).user, id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Impersonation token issued',
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Impersonate user controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Impersonation failed';
+      let statusCode = 400;
+      let errorCode = 'IMPERSONATION_ERROR';
+
+      if (errorMessage.includes('User not found in system')) {
+        statusCode = 404;
+        errorCode = 'USER_NOT_FOUND';
+      } else if (errorMessage.includes('User lookup failed')) {
+        errorCode = 'USER_BANNED';
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: errorCode,
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/unlock:
+   *   post:
+   *     summary: Clear failed logins and lift an account lockout (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: User unlocked
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: User not found
+   */
+  async unlockUser(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.unlockUser(id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User unlocked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Unlock user controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'User unlock failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'USER_UNLOCK_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/users/{id}/mfa:
+   *   delete:
+   *     summary: Reset MFA of a user who lost their device (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: User MFA reset
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async resetUserMfa(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.resetUserMfa(id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User MFA reset',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Reset user MFA controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'MFA reset failed',
+        data: {
+          code: 'MFA_RESET_ERROR',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/profiles/{id}/mfa:
+   *   patch:
+   *     summary: Require MFA for a profile (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - mfa_required
+   *             properties:
+   *               mfa_required:
+   *                 type: boolean
+   *     responses:
+   *       200:
+   *         description: Profile MFA policy updated
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Profile not found
+   */
+  async updateProfileMfa(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await authService.updateProfileMfa(id, req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Profile MFA policy updated',
+        data: {
+          id,
+          mfa_required: req.body.mfa_required,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Update profile MFA controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        body: redactForLog(req.body),
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage = error instanceof Error ? error.message : 'Profile MFA update failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'PROFILE_MFA_UPDATE_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/change-password:
+   *   post:
+   *     summary: Change any user's password (Admin override)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *               - newPassword
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               newPassword:
+   *                 type: string
+   *                 description: Must satisfy the password policy
+   *     responses:
+   *       200:
+   *         description: Password changed successfully
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async changePassword(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      await authService.changePassword(req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Password changed successfully',
+        data: {},
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Change password controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        body: redactForLog(req.body),
+        adminId: req.user!.id 
+      });
+
+      if (error instanceof PasswordPolicyError) {
+        const response: ApiResponse = {
+          status: 'error',
+          message: error.message,
+          data: {
+            code: 'PASSWORD_POLICY_VIOLATION',
+            field: 'newPassword',
+            violations: error.violations,
+          },
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Password change failed',
+        data: {
+          code: 'PASSWORD_CHANGE_ERROR',
+        },
+      };
+
+      res.status(400).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/backfill-auth-ids:
+   *   post:
+   *     summary: Link existing users to their Supabase Auth account (Admin only)
+   *     description: Matches users without a stored Supabase Auth ID by email. Safe to run more than once.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Backfill completed
+   *       403:
+   *         description: Insufficient permissions
+   *       500:
+   *         description: Authentication system unavailable
+   */
+  async backfillAuthUserIds(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await authService.backfillAuthUserIds();
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Auth user IDs backfilled',
+        data: result,
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Backfill auth user IDs controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Auth user ID backfill failed',
+        data: {
+          code: 'AUTH_SYSTEM_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/check-sync:
+   *   post:
+   *     summary: Check user synchronization (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *     responses:
+   *       200:
+   *         description: Sync status checked
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async checkSync(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const syncResult = await authService.checkSync(req.body);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'User synchronization status verified',
+        data: {
+          email: req.body.email,
+          ...syncResult,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Check sync controller error:', { 
+        error: error instanceof Error ? error.message : 'Unknown error',
+        body: redactForLog(req.body),
+        adminId: req.user!.id 
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Sync check failed',
+        data: {
           code: 'SYNC_CHECK_ERROR',
         },
       };
@@ -509,6 +3359,247 @@ export class AuthController {
       res.status(400).json(response);
     }
   }
+
+  /**
+   * @swagger
+   * /api/auth/reconciliation:
+   *   post:
+   *     summary: Start a reconciliation between users and Supabase Auth (Admin only)
+   *     description: Runs in the background. dry_run only reports drift, apply also repairs the safe cases.
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               mode:
+   *                 type: string
+   *                 enum: [dry_run, apply]
+   *                 default: dry_run
+   *     responses:
+   *       202:
+   *         description: Reconciliation started
+   *       403:
+   *         description: Insufficient permissions
+   *       409:
+   *         description: A reconciliation is already running
+   */
+  async startReconciliation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const report = await reconciliationService.start(
+        req.body.mode,
+        (req as AuthenticatedRequest).user.id
+      );
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Reconciliation started',
+        data: { report },
+      };
+
+      res.status(202).json(response);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to start reconciliation';
+
+      logger.error('Start reconciliation controller error:', {
+        error: errorMessage,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      if (errorMessage === 'Reconciliation already running') {
+        const response: ApiResponse = {
+          status: 'error',
+          message: errorMessage,
+          data: {
+            code: 'RECONCILIATION_RUNNING',
+          },
+        };
+
+        res.status(409).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'RECONCILIATION_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/reconciliation:
+   *   get:
+   *     summary: List the latest reconciliation reports without their items (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Reports retrieved
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async listReconciliations(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const reports = await reconciliationService.list();
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Reconciliation reports retrieved',
+        data: { reports },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List reconciliations controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list reconciliation reports',
+        data: {
+          code: 'RECONCILIATION_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/reconciliation/{id}:
+   *   get:
+   *     summary: Get a reconciliation report with its drift items (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Report retrieved
+   *       404:
+   *         description: Report not found
+   */
+  async getReconciliation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const report = await reconciliationService.get(req.params.id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'Reconciliation report retrieved',
+        data: { report },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to load reconciliation report';
+
+      logger.error('Get reconciliation controller error:', {
+        error: errorMessage,
+        reportId: req.params.id,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const notFound = errorMessage === 'Reconciliation report not found';
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: notFound ? 'REPORT_NOT_FOUND' : 'RECONCILIATION_ERROR',
+        },
+      };
+
+      res.status(notFound ? 404 : 500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/auth/reconciliation/{id}/download:
+   *   get:
+   *     summary: Download a reconciliation report as a CSV or JSON file (Admin only)
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *       - in: query
+   *         name: format
+   *         schema:
+   *           type: string
+   *           enum: [csv, json]
+   *           default: csv
+   *     responses:
+   *       200:
+   *         description: Report file
+   *         content:
+   *           text/csv: {}
+   *           application/json: {}
+   *       404:
+   *         description: Report not found
+   */
+  async downloadReconciliation(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const report = await reconciliationService.get(req.params.id);
+      const format = req.query.format as 'csv' | 'json';
+
+      res.attachment(`reconciliation-${report.id}.${format}`);
+
+      if (format === 'json') {
+        res.status(200).json(report);
+        return;
+      }
+
+      res.type('text/csv').status(200).send(reconciliationService.toCsv(report));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to load reconciliation report';
+
+      logger.error('Download reconciliation controller error:', {
+        error: errorMessage,
+        reportId: req.params.id,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const notFound = errorMessage === 'Reconciliation report not found';
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: notFound ? 'REPORT_NOT_FOUND' : 'RECONCILIATION_ERROR',
+        },
+      };
+
+      res.status(notFound ? 404 : 500).json(response);
+    }
+  }
 }
 
 export const authController = new AuthController();
\ No newline at end of file
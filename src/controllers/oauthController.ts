@@ -0,0 +1,287 @@
+import express from 'express';
+import { oauthService, OAuthError } from '../services/oauthService';
+import { logger } from '../utils/logger';
+import { hasBasicAuthorization, parseBasicCredentials } from '../utils/basicAuth';
+import { ApiResponse, OAuthTokenRequest } from '../utils/types';
+import { AuthenticatedRequest } from '../middlewares/authenticate';
+
+export class OAuthController {
+  /**
+   * @swagger
+   * /api/oauth/token:
+   *   post:
+   *     summary: Issue a service token (client_credentials grant)
+   *     description: Client credentials can be sent with HTTP Basic authentication or in the body.
+   *     tags: [OAuth]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/x-www-form-urlencoded:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - grant_type
+   *             properties:
+   *               grant_type:
+   *                 type: string
+   *                 example: client_credentials
+   *               client_id:
+   *                 type: string
+   *               client_secret:
+   *                 type: string
+   *               scope:
+   *                 type: string
+   *                 description: Space-separated scopes, defaults to every scope granted to the client
+   *     responses:
+   *       200:
+   *         description: Access token (RFC 6749 format)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 access_token:
+   *                   type: string
+   *                 token_type:
+   *                   type: string
+   *                   example: Bearer
+   *                 expires_in:
+   *                   type: integer
+   *                 scope:
+   *                   type: string
+   *       400:
+   *         description: invalid_request, unsupported_grant_type or invalid_scope
+   *       401:
+   *         description: invalid_client
+   */
+  async token(req: express.Request, res: express.Response): Promise<void> {
+    // Token responses must never be cached (RFC 6749 section 5.1)
+    res.set('Cache-Control', 'no-store');
+    res.set('Pragma', 'no-cache');
+
+    const usesBasicAuth = hasBasicAuthorization(req);
+
+    try {
+      const basicCredentials = parseBasicCredentials(req);
+
+      if (usesBasicAuth && !basicCredentials) {
+        throw new OAuthError('invalid_client', 'Malformed Basic authorization header', 401);
+      }
+
+      const body = req.body || {};
+      const tokenRequest: OAuthTokenRequest = {
+        grant_type: body.grant_type,
+        client_id: basicCredentials?.client_id || body.client_id,
+        client_secret: basicCredentials?.client_secret || body.client_secret,
+        scope: body.scope,
+      };
+
+      if (!tokenRequest.grant_type) {
+        throw new OAuthError('invalid_request', 'grant_type is required');
+      }
+
+      const tokenResponse = await oauthService.issueToken(tokenRequest);
+
+      // Standard token response, not wrapped in ApiResponse so OAuth libraries can consume it
+      res.status(200).json(tokenResponse);
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        if (error.statusCode === 401 && usesBasicAuth) {
+          res.set('WWW-Authenticate', 'Basic realm="oauth"');
+        }
+
+        res.status(error.statusCode).json({
+          error: error.error,
+          error_description: error.message,
+        });
+        return;
+      }
+
+      logger.error('OAuth token controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Failed to issue token',
+      });
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/oauth/clients:
+   *   post:
+   *     summary: Register a service client (Admin only)
+   *     description: The client secret is only returned in this response.
+   *     tags: [OAuth]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *               - scopes
+   *             properties:
+   *               name:
+   *                 type: string
+   *                 maxLength: 100
+   *               scopes:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   enum: [projects:read, projects:write, projects:admin]
+   *                 description: projects:admin is required to use the project endpoints and gives access to the projects of every user
+   *     responses:
+   *       201:
+   *         description: Client registered
+   *       400:
+   *         description: Validation error
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async createClient(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const result = await oauthService.createClient(req.body);
+
+      logger.info('OAuth client registered by admin', {
+        adminId: (req as AuthenticatedRequest).user.id,
+        clientId: result.client.client_id,
+      });
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'OAuth client created',
+        data: result,
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      logger.error('Create OAuth client controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'OAuth client creation failed',
+        data: {
+          code: 'OAUTH_CLIENT_CREATION_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/oauth/clients:
+   *   get:
+   *     summary: List active service clients (Admin only)
+   *     tags: [OAuth]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Registered clients (without secrets)
+   *       403:
+   *         description: Insufficient permissions
+   */
+  async listClients(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const clients = await oauthService.listClients();
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'OAuth clients retrieved successfully',
+        data: {
+          clients,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('List OAuth clients controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Failed to list OAuth clients',
+        data: {
+          code: 'OAUTH_CLIENT_LIST_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/oauth/clients/{id}:
+   *   delete:
+   *     summary: Revoke a service client and its tokens (Admin only)
+   *     tags: [OAuth]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *           format: uuid
+   *     responses:
+   *       200:
+   *         description: Client revoked
+   *       403:
+   *         description: Insufficient permissions
+   *       404:
+   *         description: Client not found
+   */
+  async revokeClient(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      await oauthService.revokeClient(id);
+
+      const response: ApiResponse = {
+        status: 'success',
+        message: 'OAuth client revoked',
+        data: {
+          id,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      logger.error('Revoke OAuth client controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        params: req.params,
+        adminId: (req as AuthenticatedRequest).user.id,
+      });
+
+      const errorMessage =
+        error instanceof Error ? error.message : 'OAuth client revocation failed';
+      const statusCode = errorMessage.includes('not found') ? 404 : 400;
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: errorMessage,
+        data: {
+          code: 'OAUTH_CLIENT_REVOCATION_ERROR',
+        },
+      };
+
+      res.status(statusCode).json(response);
+    }
+  }
+}
+
+export const oauthController = new OAuthController();
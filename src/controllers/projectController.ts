@@ -4,6 +4,16 @@ import { logger } from '../utils/logger';
 import { ApiResponse } from '../utils/types';
 import { AuthenticatedRequest } from '../middlewares/authenticate';
 
+/**
+ * Owner filter for project queries
+ * Service principals have no projects of their own: the routes only let them in with
+ * projects:admin, which gives access to the projects of every user
+ */
+const getOwnerId = (req: express.Request): string | null => {
+  const { user } = req as AuthenticatedRequest;
+  return user.principal_type === 'service' ? null : user.id;
+};
+
 export class ProjectController {
   /**
    * @swagger
@@ -13,6 +23,8 @@ export class ProjectController {
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
+   *       - apiKeyAuth: []
+   *       - oauth2ClientCredentials: []
    *     requestBody:
    *       required: true
    *       content:
@@ -26,6 +38,10 @@ export class ProjectController {
    *                 type: string
    *                 minLength: 3
    *                 maxLength: 100
+   *               user_id:
+   *                 type: string
+   *                 format: uuid
+   *                 description: Owner of the project, required for service clients (projects:admin) and ignored for users
    *     responses:
    *       201:
    *         description: Project created successfully
@@ -36,8 +52,23 @@ export class ProjectController {
    */
   async createProject(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const userId = req.user!.id;
-      const project = await projectService.createProject(userId, req.body);
+      // Service principals create projects on behalf of the user given in user_id
+      const userId = getOwnerId(req) || req.body.user_id;
+
+      if (!userId) {
+        const response: ApiResponse = {
+          status: 'error',
+          message: 'user_id is required for service clients',
+          data: {
+            code: 'VALIDATION_ERROR',
+          },
+        };
+
+        res.status(400).json(response);
+        return;
+      }
+
+      const project = await projectService.createProject(userId, { name: req.body.name });
 
       const response: ApiResponse = {
         status: 'success',
@@ -80,6 +111,8 @@ export class ProjectController {
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
+   *       - apiKeyAuth: []
+   *       - oauth2ClientCredentials: []
    *     parameters:
    *       - in: query
    *         name: status
@@ -112,8 +145,7 @@ export class ProjectController {
    */
   async listProjects(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const userId = req.user!.id;
-      const projects = await projectService.getProjects(userId, req.query);
+      const projects = await projectService.getProjects(getOwnerId(req), req.query);
 
       const response: ApiResponse = {
         status: 'success',
@@ -152,6 +184,8 @@ export class ProjectController {
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
+   *       - apiKeyAuth: []
+   *       - oauth2ClientCredentials: []
    *     parameters:
    *       - in: path
    *         name: id
@@ -169,9 +203,8 @@ export class ProjectController {
    */
   async getProject(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const userId = req.user!.id;
       const { id } = req.params;
-      const project = await projectService.getProjectById(userId, id);
+      const project = await projectService.getProjectById(getOwnerId(req), id);
 
       const response: ApiResponse = {
         status: 'success',
@@ -210,6 +243,8 @@ export class ProjectController {
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
+   *       - apiKeyAuth: []
+   *       - oauth2ClientCredentials: []
    *     parameters:
    *       - in: path
    *         name: id
@@ -243,9 +278,8 @@ export class ProjectController {
    */
   async updateProject(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const userId = req.user!.id;
       const { id } = req.params;
-      const updatedProject = await projectService.updateProject(userId, id, req.body);
+      const updatedProject = await projectService.updateProject(getOwnerId(req), id, req.body);
 
       const response: ApiResponse = {
         status: 'success',
@@ -300,6 +334,8 @@ export class ProjectController {
    *     tags: [Projects]
    *     security:
    *       - bearerAuth: []
+   *       - apiKeyAuth: []
+   *       - oauth2ClientCredentials: []
    *     parameters:
    *       - in: path
    *         name: id
@@ -317,9 +353,8 @@ export class ProjectController {
    */
   async deleteProject(req: express.Request, res: express.Response): Promise<void> {
     try {
-      const userId = req.user!.id;
       const { id } = req.params;
-      await projectService.deleteProject(userId, id);
+      await projectService.deleteProject(getOwnerId(req), id);
 
       const response: ApiResponse = {
         status: 'success',
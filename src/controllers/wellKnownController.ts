@@ -0,0 +1,59 @@
+import express from 'express';
+import { jwtService } from '../services/jwtService';
+import { logger } from '../utils/logger';
+import { ApiResponse } from '../utils/types';
+
+export class WellKnownController {
+  /**
+   * @swagger
+   * /.well-known/jwks.json:
+   *   get:
+   *     summary: Public keys used to verify issued JWTs
+   *     tags: [Authentication]
+   *     responses:
+   *       200:
+   *         description: JSON Web Key Set (empty when tokens are signed with HS256/384/512)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 keys:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       kid:
+   *                         type: string
+   *                       kty:
+   *                         type: string
+   *                       alg:
+   *                         type: string
+   *                       use:
+   *                         type: string
+   *                         example: sig
+   */
+  async getJwks(req: express.Request, res: express.Response): Promise<void> {
+    try {
+      // Standard JWKS document, not wrapped in ApiResponse so JWT libraries can consume it
+      res.set('Cache-Control', 'public, max-age=300');
+      res.status(200).json(jwtService.getJwks());
+    } catch (error) {
+      logger.error('JWKS controller error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+
+      const response: ApiResponse = {
+        status: 'error',
+        message: 'Failed to load signing keys',
+        data: {
+          code: 'JWKS_ERROR',
+        },
+      };
+
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const wellKnownController = new WellKnownController();
@@ -1,13 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { config } from '../config';
 import { logger } from '../utils/logger';
+import { jwtService } from '../services/jwtService';
+import { sessionService } from '../services/sessionService';
+import { apiKeyService } from '../services/apiKeyService';
+import { tokenRevocationService } from '../services/tokenRevocationService';
+import { userStatusService } from '../services/userStatusService';
+import { oauthService } from '../services/oauthService';
+import { config } from '../config';
+import { LoginMethod } from '../utils/types';
+
+export type TokenUse = 'access' | 'mfa_pending' | 'mfa_enroll' | 'api_key' | 'service' | 'impersonation';
+
+export type PrincipalType = 'user' | 'service';
 
+/**
+ * Admin acting as another user, carried in the `act` claim of impersonation tokens
+ */
+export interface ImpersonationActor {
+  sub: string;
+  email: string;
+}
+
+/**
+ * Authenticated caller: a user (access token or API key) or a service client
+ * Profile fields are only set for users, service principals carry client_id instead
+ */
 export interface JWTPayload {
   id: string;
-  email: string;
-  profile_id: string;
-  profile_name: string;
+  principal_type?: PrincipalType;
+  email?: string;
+  profile_id?: string;
+  profile_name?: string;
+  client_id?: string;
+  token_use?: TokenUse;
+  sid?: string;
+  jti?: string;
+  api_key_id?: string;
+  scopes?: string[];
+  act?: ImpersonationActor;
+  // Primary factor of a login waiting for MFA, only on challenge tokens
+  login_method?: LoginMethod;
   iat?: number;
   exp?: number;
 }
@@ -24,13 +57,124 @@ export interface AuthenticatedRequest extends Request {
   user: JWTPayload;
 }
 
-export const authenticate = async (
+/**
+ * Authenticate with an `X-API-Key` header, populating req.user like a JWT would
+ */
+const authenticateApiKey = async (
+  apiKey: string,
+  allowedTokenUses: TokenUse[],
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!allowedTokenUses.includes('api_key')) {
+    logger.warn('Authentication failed: API key not accepted for this resource', {
+      ip: req.ip,
+      endpoint: req.originalUrl,
+    });
+
+    res.status(401).json({
+      status: 'error',
+      message: 'API keys cannot be used for this resource',
+      data: {
+        code: 'API_KEY_NOT_ALLOWED',
+      },
+    });
+    return;
+  }
+
+  try {
+    const principal = await apiKeyService.authenticate(apiKey);
+
+    (req as AuthenticatedRequest).user = principal;
+
+    logger.info('API key authenticated successfully', {
+      userId: principal.id,
+      apiKeyId: principal.api_key_id,
+      endpoint: req.originalUrl,
+    });
+
+    next();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Lookup failures are system errors, handled by the caller
+    if (errorMessage !== 'Invalid API key' && errorMessage !== 'API key expired') {
+      throw error;
+    }
+
+    logger.warn('API key authentication failed', {
+      error: errorMessage,
+      ip: req.ip,
+      endpoint: req.originalUrl,
+    });
+
+    res.status(401).json({
+      status: 'error',
+      message: errorMessage,
+      data: {
+        code: errorMessage.includes('expired') ? 'EXPIRED_API_KEY' : 'INVALID_API_KEY',
+      },
+    });
+  }
+};
+
+/**
+ * Replace the profile carried by a user token with the current one, so role changes apply before the token expires
+ * Responds with USER_INACTIVE and returns false when the user was deactivated or removed
+ */
+const applyCurrentUserState = async (
+  decoded: JWTPayload,
+  req: Request,
+  res: Response
+): Promise<boolean> => {
+  const state = await userStatusService.getState(decoded.id);
+
+  if (!state || state.status !== 'active') {
+    logger.warn('Authentication failed: User is inactive', {
+      userId: decoded.id,
+      status: state?.status || 'not_found',
+      impersonatorId: decoded.act?.sub,
+      ip: req.ip,
+      endpoint: req.originalUrl,
+    });
+
+    res.status(401).json({
+      status: 'error',
+      message: 'User account is inactive',
+      data: {
+        code: 'USER_INACTIVE',
+      },
+    });
+    return false;
+  }
+
+  if (state.profile_id !== decoded.profile_id) {
+    logger.info('Token profile is outdated, using current profile', {
+      userId: decoded.id,
+      tokenProfile: decoded.profile_name,
+      currentProfile: state.profile_name,
+    });
+  }
+
+  decoded.profile_id = state.profile_id;
+  decoded.profile_name = state.profile_name;
+  return true;
+};
+
+const createAuthenticate = (allowedTokenUses: TokenUse[]) => async (
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKey = req.get('X-API-Key');
+
+    if (apiKey && !authHeader) {
+      await authenticateApiKey(apiKey, allowedTokenUses, req, res, next);
+      return;
+    }
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       logger.warn('Authentication failed: Missing or invalid authorization header', {
@@ -52,18 +196,34 @@ export const authenticate = async (
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
 
     try {
-      const decoded = jwt.verify(token, config.jwt.secret, {
-        algorithms: [config.jwt.algorithm],
-      }) as JWTPayload;
+      // Verification key is chosen by the token `kid` when using RS256/ES256
+      const decoded = jwtService.verify<JWTPayload>(token);
+
+      // Validate required fields, service principals have no user profile
+      const isService = decoded.principal_type === 'service';
+      const hasPrincipalFields = isService
+        ? !!decoded.client_id && Array.isArray(decoded.scopes)
+        : !!decoded.email && !!decoded.profile_id && !!decoded.profile_name;
 
-      // Validate required fields
-      if (!decoded.id || !decoded.email || !decoded.profile_id || !decoded.profile_name) {
+      // Only impersonation tokens carry an actor, and they always do
+      const hasActor = !!decoded.act?.sub;
+
+      if (
+        !decoded.id ||
+        !hasPrincipalFields ||
+        isService !== (decoded.token_use === 'service') ||
+        hasActor !== (decoded.token_use === 'impersonation')
+      ) {
         logger.warn('Authentication failed: Invalid token payload', {
           tokenFields: {
             hasId: !!decoded.id,
+            principalType: decoded.principal_type || 'user',
+            tokenUse: decoded.token_use,
             hasEmail: !!decoded.email,
             hasProfileId: !!decoded.profile_id,
             hasProfileName: !!decoded.profile_name,
+            hasClientId: !!decoded.client_id,
+            hasActor,
           },
           ip: req.ip,
           endpoint: req.originalUrl,
@@ -79,18 +239,118 @@ export const authenticate = async (
         return;
       }
 
+      // MFA challenge tokens only grant access to the MFA endpoints
+      const tokenUse = decoded.token_use || 'access';
+
+      if (tokenUse === 'api_key' || !allowedTokenUses.includes(tokenUse)) {
+        logger.warn('Authentication failed: Token not valid for this resource', {
+          userId: decoded.id,
+          tokenUse,
+          impersonatorId: decoded.act?.sub,
+          ip: req.ip,
+          endpoint: req.originalUrl,
+        });
+
+        let code = 'INVALID_TOKEN';
+
+        if (tokenUse === 'mfa_pending' || tokenUse === 'mfa_enroll') {
+          code = 'MFA_REQUIRED';
+        } else if (tokenUse === 'impersonation') {
+          code = 'IMPERSONATION_NOT_ALLOWED';
+        }
+
+        res.status(401).json({
+          status: 'error',
+          message: 'Token cannot be used for this resource',
+          data: {
+            code,
+          },
+        });
+        return;
+      }
+
+      // Reject tokens revoked by logout, deactivation or admin action
+      if (await tokenRevocationService.isRevoked(decoded)) {
+        logger.warn('Authentication failed: Token has been revoked', {
+          userId: decoded.id,
+          jti: decoded.jti,
+          ip: req.ip,
+          endpoint: req.originalUrl,
+        });
+
+        res.status(401).json({
+          status: 'error',
+          message: 'Token has been revoked',
+          data: {
+            code: 'REVOKED_TOKEN',
+          },
+        });
+        return;
+      }
+
+      // API keys already load the owner on every request, service principals have no user
+      if (config.userStatus.check && !isService && !(await applyCurrentUserState(decoded, req, res))) {
+        return;
+      }
+
+      // Service tokens stop working once their client is deleted or revoked
+      if (config.userStatus.check && isService && !(await oauthService.isClientActive(decoded.id))) {
+        logger.warn('Authentication failed: OAuth client is inactive', {
+          clientId: decoded.client_id,
+          ip: req.ip,
+          endpoint: req.originalUrl,
+        });
+
+        res.status(401).json({
+          status: 'error',
+          message: 'Service client is inactive',
+          data: {
+            code: 'CLIENT_INACTIVE',
+          },
+        });
+        return;
+      }
+
       // Add user to request object
       (req as AuthenticatedRequest).user = decoded;
 
+      if (decoded.sid) {
+        sessionService.touch(decoded.sid);
+      }
+
+      // Audit trail: every impersonated request is logged with both identities
+      if (decoded.act) {
+        const actor = decoded.act;
+
+        res.on('finish', () => {
+          logger.info('Impersonated request', {
+            userId: decoded.id,
+            impersonatorId: actor.sub,
+            impersonatorEmail: actor.email,
+            method: req.method,
+            endpoint: req.originalUrl,
+            statusCode: res.statusCode,
+            jti: decoded.jti,
+          });
+        });
+      }
+
       logger.info('User authenticated successfully', {
         userId: decoded.id,
         email: decoded.email,
         profile: decoded.profile_name,
+        clientId: decoded.client_id,
+        impersonatorId: decoded.act?.sub,
         endpoint: req.originalUrl,
       });
 
       next();
     } catch (jwtError) {
+      // Revocation and status lookup failures are system errors, not invalid tokens
+      if (!(jwtError instanceof jwt.JsonWebTokenError)) {
+        throw jwtError;
+      }
+
       let errorMessage = 'Invalid or expired token';
       let errorCode = 'INVALID_TOKEN';
 
@@ -134,4 +394,14 @@ export const authenticate = async (
     });
     return;
   }
-};
\ No newline at end of file
+};
+
+// Access tokens, API keys, service tokens and impersonation tokens, scopes are enforced with requireScope
+export const authenticate = createAuthenticate(['access', 'api_key', 'service', 'impersonation']);
+
+// User access tokens only, for account and admin operations that API keys, services
+// and impersonating admins must not reach
+export const authenticateSession = createAuthenticate(['access']);
+
+// Also accepts the challenge token issued when a profile requires MFA enrollment
+export const authenticateMfaEnrollment = createAuthenticate(['access', 'mfa_enroll']);
@@ -5,9 +5,30 @@ import { logger } from '../utils/logger';
 export const checkRole = (allowedRoles: string[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     try {
+      // Role routes are never reachable while impersonating, whatever the target's role
+      if (req.user?.act) {
+        logger.warn('Authorization failed: Impersonated request on role protected route', {
+          userId: req.user?.id,
+          impersonatorId: req.user?.act.sub,
+          endpoint: req.originalUrl,
+          ip: req.ip,
+        });
+
+        res.status(403).json({
+          status: 'error',
+          message: 'This resource cannot be accessed while impersonating a user',
+          data: {
+            code: 'IMPERSONATION_NOT_ALLOWED',
+          },
+        });
+        return;
+      }
+
+      // authenticate replaces the token profile with the current one, so role changes apply immediately
+      // Service principals have no profile and never match a role
       const userRole = req.user!.profile_name;
 
-      if (!allowedRoles.includes(userRole)) {
+      if (!userRole || !allowedRoles.includes(userRole)) {
         logger.warn('Authorization failed: Insufficient permissions', {
           userId: req.user!.id,
           userRole,
@@ -53,4 +74,55 @@ export const checkRole = (allowedRoles: string[]) => {
       return;
     }
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Require an additional scope from service principals only
+ * Used where a service token would otherwise act without an owner, i.e. across users
+ */
+export const requireServiceScope = (scope: string) => {
+  const checkScope = requireScope(scope);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.user?.principal_type !== 'service') {
+      next();
+      return;
+    }
+
+    checkScope(req, res, next);
+  };
+};
+
+/**
+ * Require a scope on API key and service token requests
+ * Access tokens come from an interactive login and carry every scope
+ */
+export const requireScope = (scope: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const scopes = req.user?.scopes;
+
+    if (scopes && !scopes.includes(scope)) {
+      logger.warn('Authorization failed: Missing scope', {
+        userId: req.user?.id,
+        apiKeyId: req.user?.api_key_id,
+        clientId: req.user?.client_id,
+        requiredScope: scope,
+        endpoint: req.originalUrl,
+        ip: req.ip,
+      });
+
+      res.status(403).json({
+        status: 'error',
+        message: 'Credentials do not have the required scope',
+        data: {
+          code: 'INSUFFICIENT_SCOPE',
+          required: scope,
+          current: scopes,
+        },
+      });
+      return;
+    }
+
+    next();
+  };
+};
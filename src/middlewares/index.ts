@@ -1,5 +1,5 @@
-export { authenticate } from './authenticate';
-export { checkRole } from './authorize';
+export { authenticate, authenticateSession, authenticateMfaEnrollment } from './authenticate';
+export { checkRole, requireScope, requireServiceScope } from './authorize';
 export { validate, commonSchemas } from './validation';
 export { 
   authRateLimit, 
@@ -8,5 +8,11 @@ export {
   adminRateLimit 
 } from './rateLimiting';
 
-export type { AuthenticatedRequest, JWTPayload } from './authenticate';
+export type {
+  AuthenticatedRequest,
+  JWTPayload,
+  TokenUse,
+  PrincipalType,
+  ImpersonationActor,
+} from './authenticate';
 export type { ValidationSchemas } from './validation';
\ No newline at end of file
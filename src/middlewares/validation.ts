@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodError, ZodSchema } from 'zod';
-import { logger } from '../utils/logger';
+import { logger, redactForLog } from '../utils/logger';
 
 export interface ValidationSchemas {
   body?: ZodSchema;
@@ -55,9 +55,9 @@ export const validate = (schemas: ValidationSchemas) => {
           endpoint: req.originalUrl,
           method: req.method,
           ip: req.ip,
-          body: req.body,
-          params: req.params,
-          query: req.query,
+          body: redactForLog(req.body),
+          params: redactForLog(req.params),
+          query: redactForLog(req.query),
         });
 
         res.status(400).json({
@@ -95,7 +95,9 @@ export const validate = (schemas: ValidationSchemas) => {
 export const commonSchemas = {
   uuid: z.string().uuid('Invalid UUID format'),
   email: z.string().email('Invalid email format'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
+  // Strength rules are enforced by passwordPolicyService so violations come back per rule
+  password: z.string().min(1, 'Password is required'),
+  totpCode: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
   name: z.string().min(2, 'Name must be at least 2 characters').max(100, 'Name cannot exceed 100 characters'),
   status: z.enum(['active', 'inactive'], { 
     errorMap: () => ({ message: 'Status must be either active or inactive' })
@@ -103,6 +105,12 @@ export const commonSchemas = {
   projectStatus: z.enum(['pending', 'active', 'completed', 'cancelled'], {
     errorMap: () => ({ message: 'Project status must be pending, active, completed, or cancelled' })
   }),
+  apiKeyScope: z.enum(['projects:read', 'projects:write'], {
+    errorMap: () => ({ message: 'Scope must be projects:read or projects:write' }),
+  }),
+  serviceScope: z.enum(['projects:read', 'projects:write', 'projects:admin'], {
+    errorMap: () => ({ message: 'Scope must be projects:read, projects:write or projects:admin' }),
+  }),
   pagination: {
     page: z.string().optional().transform((val) => val ? parseInt(val, 10) : 1).refine((val) => val > 0, 'Page must be greater than 0'),
     limit: z.string().optional().transform((val) => val ? parseInt(val, 10) : 10).refine((val) => val > 0 && val <= 100, 'Limit must be between 1 and 100'),
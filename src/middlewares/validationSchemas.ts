@@ -10,6 +10,173 @@ export const authValidation = {
     }),
   },
 
+  refresh: {
+    body: z.object({
+      refreshToken: z.string().min(1, 'Refresh token is required'),
+    }),
+  },
+
+  mfaVerify: {
+    body: z
+      .object({
+        challengeToken: z.string().min(1, 'Challenge token is required'),
+        code: commonSchemas.totpCode.optional(),
+        recoveryCode: z.string().min(1, 'Recovery code cannot be empty').optional(),
+      })
+      .refine(data => !!data.code !== !!data.recoveryCode, 'Provide either code or recoveryCode'),
+  },
+
+  mfaCode: {
+    body: z.object({
+      code: commonSchemas.totpCode,
+    }),
+  },
+
+  updateProfileMfa: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+    body: z.object({
+      mfa_required: z.boolean({ required_error: 'mfa_required is required' }),
+    }),
+  },
+
+  resetUserMfa: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  unlockUser: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  logout: {
+    body: z.object({
+      refreshToken: z.string().min(1, 'Refresh token cannot be empty').optional(),
+    }),
+  },
+
+  confirmPasswordReset: {
+    body: z.object({
+      tokenHash: z.string().min(1, 'Token hash is required'),
+      newPassword: commonSchemas.password,
+    }),
+  },
+
+  magicLink: {
+    body: z.object({
+      email: commonSchemas.email,
+    }),
+  },
+
+  magicLinkVerify: {
+    body: z.object({
+      tokenHash: z.string().min(1, 'Token hash is required'),
+    }),
+  },
+
+  tokenExchange: {
+    body: z.object({
+      accessToken: z.string().min(1, 'Access token is required'),
+    }),
+  },
+
+  ssoStart: {
+    query: z.object({
+      redirect: z.string().url('redirect must be a URL').optional(),
+    }),
+  },
+
+  ssoComplete: {
+    body: z.object({
+      code: z.string().min(1, 'Code is required'),
+    }),
+  },
+
+  deleteSession: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  listOwnLogins: {
+    query: z.object({
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+    }),
+  },
+
+  listLoginEvents: {
+    query: z.object({
+      user_id: commonSchemas.uuid.optional(),
+      email: commonSchemas.email.optional(),
+      method: z
+        .enum(['password', 'magic_link', 'token_exchange', 'sso'], {
+          errorMap: () => ({
+            message: 'Method must be password, magic_link, token_exchange or sso',
+          }),
+        })
+        .optional(),
+      success: z
+        .enum(['true', 'false'], {
+          errorMap: () => ({ message: 'success must be true or false' }),
+        })
+        .transform(val => val === 'true')
+        .optional(),
+      ip: z.string().min(1).optional(),
+      from: z
+        .string()
+        .datetime({ offset: true, message: 'from must be an ISO 8601 date-time' })
+        .optional(),
+      to: z
+        .string()
+        .datetime({ offset: true, message: 'to must be an ISO 8601 date-time' })
+        .optional(),
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+    }),
+  },
+
+  changeOwnPassword: {
+    body: z
+      .object({
+        currentPassword: z.string().min(1, 'Current password is required'),
+        newPassword: commonSchemas.password,
+      })
+      .refine(
+        data => data.currentPassword !== data.newPassword,
+        'New password must be different from the current password'
+      ),
+  },
+
+  createApiKey: {
+    body: z.object({
+      name: z
+        .string()
+        .trim()
+        .min(1, 'API key name is required')
+        .max(100, 'API key name cannot exceed 100 characters'),
+      scopes: z
+        .array(commonSchemas.apiKeyScope)
+        .min(1, 'At least one scope is required')
+        .transform(scopes => Array.from(new Set(scopes))),
+      expiresAt: z
+        .string()
+        .datetime({ offset: true, message: 'expiresAt must be an ISO 8601 date-time' })
+        .refine(value => new Date(value).getTime() > Date.now(), 'expiresAt must be in the future')
+        .optional(),
+    }),
+  },
+
+  revokeApiKey: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
   resetPassword: {
     body: z.object({
       email: commonSchemas.email,
@@ -24,6 +191,86 @@ export const authValidation = {
     }),
   },
 
+  importUsers: {
+    // text/csv bodies arrive as a string, application/json ones as the parsed array
+    body: z.union([z.string(), z.array(z.record(z.unknown()))], {
+      errorMap: () => ({ message: 'Body must be a CSV file or a JSON array of users' }),
+    }),
+    query: z.object({
+      mode: z
+        .enum(['dry_run', 'apply'], {
+          errorMap: () => ({ message: 'Mode must be dry_run or apply' }),
+        })
+        .default('dry_run'),
+    }),
+  },
+
+  listUsers: {
+    query: z.object({
+      search: z
+        .string()
+        .trim()
+        .min(1, 'Search cannot be empty')
+        .max(100, 'Search cannot exceed 100 characters')
+        .optional(),
+      status: commonSchemas.status.optional(),
+      profile_id: commonSchemas.uuid.optional(),
+      created_from: z
+        .string()
+        .datetime({ offset: true, message: 'created_from must be an ISO 8601 date-time' })
+        .optional(),
+      created_to: z
+        .string()
+        .datetime({ offset: true, message: 'created_to must be an ISO 8601 date-time' })
+        .optional(),
+      sort: z
+        .enum(['name', 'email', 'status', 'created_at'], {
+          errorMap: () => ({ message: 'Sort must be name, email, status or created_at' }),
+        })
+        .default('created_at'),
+      order: z
+        .enum(['asc', 'desc'], {
+          errorMap: () => ({ message: 'Order must be asc or desc' }),
+        })
+        .default('desc'),
+      page: commonSchemas.pagination.page,
+      limit: commonSchemas.pagination.limit,
+    }),
+  },
+
+  getUser: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  getInvitation: {
+    params: z.object({
+      token: z.string().min(1, 'Invitation token is required'),
+    }),
+  },
+
+  acceptInvitation: {
+    params: z.object({
+      token: z.string().min(1, 'Invitation token is required'),
+    }),
+    body: z.object({
+      password: commonSchemas.password,
+    }),
+  },
+
+  resendInvitation: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  revokeInvitation: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
   updateUserStatus: {
     params: z.object({
       id: commonSchemas.uuid,
@@ -33,6 +280,63 @@ export const authValidation = {
     }),
   },
 
+  updateUser: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+    body: z
+      .object({
+        name: commonSchemas.name.optional(),
+        profile_id: commonSchemas.uuid.optional(),
+      })
+      .refine(
+        data => data.name !== undefined || data.profile_id !== undefined,
+        'Provide name or profile_id'
+      ),
+  },
+
+  deleteUser: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+    query: z
+      .object({
+        projects: z.enum(['reassign', 'delete'], {
+          errorMap: () => ({ message: 'projects must be reassign or delete' }),
+        }),
+        reassign_to: commonSchemas.uuid.optional(),
+      })
+      .refine(
+        data => data.projects !== 'reassign' || !!data.reassign_to,
+        'reassign_to is required when projects is reassign'
+      ),
+  },
+
+  revokeUserTokens: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  impersonateUser: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  getUserSessions: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  deleteUserSession: {
+    params: z.object({
+      id: commonSchemas.uuid,
+      sessionId: commonSchemas.uuid,
+    }),
+  },
+
   changePassword: {
     body: z.object({
       email: commonSchemas.email,
@@ -45,6 +349,58 @@ export const authValidation = {
       email: commonSchemas.email,
     }),
   },
+
+  startReconciliation: {
+    body: z.object({
+      mode: z
+        .enum(['dry_run', 'apply'], {
+          errorMap: () => ({ message: 'Mode must be dry_run or apply' }),
+        })
+        .default('dry_run'),
+    }),
+  },
+
+  getReconciliation: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
+
+  downloadReconciliation: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+    query: z.object({
+      format: z
+        .enum(['csv', 'json'], {
+          errorMap: () => ({ message: 'Format must be csv or json' }),
+        })
+        .default('csv'),
+    }),
+  },
+};
+
+// OAuth client validation schemas
+export const oauthValidation = {
+  createClient: {
+    body: z.object({
+      name: z
+        .string()
+        .trim()
+        .min(1, 'Client name is required')
+        .max(100, 'Client name cannot exceed 100 characters'),
+      scopes: z
+        .array(commonSchemas.serviceScope)
+        .min(1, 'At least one scope is required')
+        .transform(scopes => Array.from(new Set(scopes))),
+    }),
+  },
+
+  revokeClient: {
+    params: z.object({
+      id: commonSchemas.uuid,
+    }),
+  },
 };
 
 // Project validation schemas
@@ -56,6 +412,7 @@ export const projectValidation = {
         .max(100, 'Project name cannot exceed 100 characters')
         .trim()
         .refine((name) => name.length > 0, 'Project name cannot be empty'),
+      user_id: commonSchemas.uuid.optional(),
     }),
   },
 
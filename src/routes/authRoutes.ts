@@ -1,10 +1,13 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { authController } from '../controllers/authController';
 import { 
   authenticate, 
+  authenticateSession,
+  authenticateMfaEnrollment,
   checkRole, 
   validate, 
   authRateLimit, 
+  generalRateLimit,
   adminRateLimit 
 } from '../middlewares';
 import { authValidation } from '../middlewares/validationSchemas';
@@ -85,6 +88,55 @@ router.post(
   authController.login
 );
 
+router.post(
+  '/mfa/verify',
+  authRateLimit,
+  validate(authValidation.mfaVerify),
+  authController.verifyMfa
+);
+
+router.post('/refresh', authRateLimit, validate(authValidation.refresh), authController.refresh);
+
+router.post(
+  '/magic-link',
+  authRateLimit,
+  validate(authValidation.magicLink),
+  authController.requestMagicLink
+);
+
+router.post(
+  '/magic-link/verify',
+  authRateLimit,
+  validate(authValidation.magicLinkVerify),
+  authController.verifyMagicLink
+);
+
+router.post(
+  '/token/exchange',
+  authRateLimit,
+  validate(authValidation.tokenExchange),
+  authController.exchangeToken
+);
+
+router.get('/sso/providers', authController.listSsoProviders);
+
+router.get(
+  '/sso/:provider/start',
+  authRateLimit,
+  validate(authValidation.ssoStart),
+  authController.startSso
+);
+
+// Reached by the browser from the IdP, errors are redirected to the frontend so it is not wrapped in validate()
+router.get('/sso/:provider/callback', authRateLimit, authController.ssoCallback);
+
+router.post(
+  '/sso/complete',
+  authRateLimit,
+  validate(authValidation.ssoComplete),
+  authController.completeSso
+);
+
 router.post(
   '/reset-password',
   authRateLimit,
@@ -92,7 +144,32 @@ router.post(
   authController.resetPassword
 );
 
+router.post(
+  '/reset-password/confirm',
+  authRateLimit,
+  validate(authValidation.confirmPasswordReset),
+  authController.confirmPasswordReset
+);
+
+router.get(
+  '/invitations/:token',
+  authRateLimit,
+  validate(authValidation.getInvitation),
+  authController.getInvitation
+);
+
+router.post(
+  '/invitations/:token/accept',
+  authRateLimit,
+  validate(authValidation.acceptInvitation),
+  authController.acceptInvitation
+);
+
+// Resource servers authenticate as OAuth clients, errors use the RFC 6749 format
+router.post('/introspect', generalRateLimit, authController.introspect);
+
 // Protected routes (require authentication)
+// Account and admin routes use authenticateSession so API keys and impersonation tokens cannot reach them
 router.get(
   '/me',
   authenticate,
@@ -105,37 +182,286 @@ router.get(
   authController.validateToken
 );
 
-// Admin only routes
+// MFA enrollment also accepts the challenge token returned when a profile requires MFA
+router.post('/mfa/enroll', authenticateMfaEnrollment, authController.startMfaEnrollment);
+
+router.post(
+  '/mfa/enroll/confirm',
+  authenticateMfaEnrollment,
+  authRateLimit,
+  validate(authValidation.mfaCode),
+  authController.confirmMfaEnrollment
+);
+
+router.post(
+  '/mfa/disable',
+  authenticateSession,
+  authRateLimit,
+  validate(authValidation.mfaCode),
+  authController.disableMfa
+);
+
+router.post('/logout', authenticateSession, validate(authValidation.logout), authController.logout);
+
+router.post(
+  '/me/password',
+  authenticateSession,
+  authRateLimit,
+  validate(authValidation.changeOwnPassword),
+  authController.changeOwnPassword
+);
+
+router.get('/sessions', authenticateSession, authController.getSessions);
+
+router.delete(
+  '/sessions/:id',
+  authenticateSession,
+  validate(authValidation.deleteSession),
+  authController.deleteSession
+);
+
+router.get(
+  '/me/logins',
+  authenticateSession,
+  validate(authValidation.listOwnLogins),
+  authController.getOwnLogins
+);
+
+router.post(
+  '/api-keys',
+  authenticateSession,
+  validate(authValidation.createApiKey),
+  authController.createApiKey
+);
+
+router.get('/api-keys', authenticateSession, authController.listApiKeys);
+
+router.delete(
+  '/api-keys/:id',
+  authenticateSession,
+  validate(authValidation.revokeApiKey),
+  authController.revokeApiKey
+);
+
+// Admin only routes (change-password is the admin override of /me/password)
 router.post(
   '/users',
-  authenticate,
+  authenticateSession,
   checkRole(['admin']),
   adminRateLimit,
   validate(authValidation.createUser),
   authController.createUser
 );
 
+// CSV files are read as text here, JSON bodies by the global parser
+router.post(
+  '/users/import',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  express.text({ type: 'text/csv', limit: '10mb' }),
+  validate(authValidation.importUsers),
+  authController.importUsers
+);
+
+router.get(
+  '/users',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.listUsers),
+  authController.listUsers
+);
+
+router.get(
+  '/users/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.getUser),
+  authController.getUser
+);
+
+router.get(
+  '/invitations',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  authController.listInvitations
+);
+
+router.post(
+  '/invitations/:id/resend',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.resendInvitation),
+  authController.resendInvitation
+);
+
+router.delete(
+  '/invitations/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.revokeInvitation),
+  authController.revokeInvitation
+);
+
 router.patch(
   '/users/:id/status',
-  authenticate,
+  authenticateSession,
   checkRole(['admin']),
   adminRateLimit,
   validate(authValidation.updateUserStatus),
   authController.updateUserStatus
 );
 
+router.patch(
+  '/users/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.updateUser),
+  authController.updateUser
+);
+
+router.delete(
+  '/users/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.deleteUser),
+  authController.deleteUser
+);
+
+router.post(
+  '/users/:id/revoke-tokens',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.revokeUserTokens),
+  authController.revokeUserTokens
+);
+
+router.post(
+  '/users/:id/impersonate',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.impersonateUser),
+  authController.impersonateUser
+);
+
+router.get(
+  '/users/:id/sessions',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.getUserSessions),
+  authController.getUserSessions
+);
+
+router.delete(
+  '/users/:id/sessions/:sessionId',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.deleteUserSession),
+  authController.deleteUserSession
+);
+
+router.get(
+  '/login-events',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.listLoginEvents),
+  authController.listLoginEvents
+);
+
+router.post(
+  '/users/:id/unlock',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.unlockUser),
+  authController.unlockUser
+);
+
+router.delete(
+  '/users/:id/mfa',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.resetUserMfa),
+  authController.resetUserMfa
+);
+
+router.patch(
+  '/profiles/:id/mfa',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.updateProfileMfa),
+  authController.updateProfileMfa
+);
+
 router.post(
   '/change-password',
-  authenticate,
+  authenticateSession,
   checkRole(['admin']),
   adminRateLimit,
   validate(authValidation.changePassword),
   authController.changePassword
 );
 
+router.post(
+  '/backfill-auth-ids',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  authController.backfillAuthUserIds
+);
+
+router.post(
+  '/reconciliation',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.startReconciliation),
+  authController.startReconciliation
+);
+
+router.get(
+  '/reconciliation',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  authController.listReconciliations
+);
+
+router.get(
+  '/reconciliation/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.getReconciliation),
+  authController.getReconciliation
+);
+
+router.get(
+  '/reconciliation/:id/download',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(authValidation.downloadReconciliation),
+  authController.downloadReconciliation
+);
+
 router.post(
   '/check-sync',
-  authenticate,
+  authenticateSession,
   checkRole(['admin']),
   adminRateLimit,
   validate(authValidation.checkSync),
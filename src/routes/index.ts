@@ -1,11 +1,13 @@
 import { Router } from 'express';
 import authRoutes from './authRoutes';
 import projectRoutes from './projectRoutes';
+import oauthRoutes from './oauthRoutes';
 
 const router = Router();
 
 // Mount routes
 router.use('/auth', authRoutes);
 router.use('/projects', projectRoutes);
+router.use('/oauth', oauthRoutes);
 
 export default router;
\ No newline at end of file
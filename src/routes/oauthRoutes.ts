@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { oauthController } from '../controllers/oauthController';
+import {
+  authenticateSession,
+  checkRole,
+  validate,
+  authRateLimit,
+  adminRateLimit,
+} from '../middlewares';
+import { oauthValidation } from '../middlewares/validationSchemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: OAuth
+ *   description: OAuth2 client credentials for service-to-service access
+ */
+
+// Token endpoint, errors use the RFC 6749 format so it is not wrapped in validate()
+router.post('/token', authRateLimit, oauthController.token);
+
+// Admin only routes
+router.post(
+  '/clients',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(oauthValidation.createClient),
+  oauthController.createClient
+);
+
+router.get(
+  '/clients',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  oauthController.listClients
+);
+
+router.delete(
+  '/clients/:id',
+  authenticateSession,
+  checkRole(['admin']),
+  adminRateLimit,
+  validate(oauthValidation.revokeClient),
+  oauthController.revokeClient
+);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { projectController } from '../controllers/projectController';
 import { 
   authenticate, 
+  requireScope,
+  requireServiceScope,
   validate, 
   generalRateLimit 
 } from '../middlewares';
@@ -57,18 +59,39 @@ const router = Router();
  *               type: integer
  */
 
-// All project routes require authentication
+// All project routes require authentication (access token or API key)
 router.use(authenticate);
 router.use(generalRateLimit);
 
-router.post('/', validate(projectValidation.createProject), projectController.createProject);
+// Service tokens have no owner and see every user's projects, only with the explicit admin scope
+router.use(requireServiceScope('projects:admin'));
 
-router.get('/', validate(projectValidation.listProjects), projectController.listProjects);
+const canRead = requireScope('projects:read');
+const canWrite = requireScope('projects:write');
 
-router.get('/:id', validate(projectValidation.getProject), projectController.getProject);
+router.post(
+  '/',
+  canWrite,
+  validate(projectValidation.createProject),
+  projectController.createProject
+);
 
-router.patch('/:id', validate(projectValidation.updateProject), projectController.updateProject);
+router.get('/', canRead, validate(projectValidation.listProjects), projectController.listProjects);
 
-router.delete('/:id', validate(projectValidation.deleteProject), projectController.deleteProject);
+router.get('/:id', canRead, validate(projectValidation.getProject), projectController.getProject);
+
+router.patch(
+  '/:id',
+  canWrite,
+  validate(projectValidation.updateProject),
+  projectController.updateProject
+);
+
+router.delete(
+  '/:id',
+  canWrite,
+  validate(projectValidation.deleteProject),
+  projectController.deleteProject
+);
 
 export default router;
\ No newline at end of file
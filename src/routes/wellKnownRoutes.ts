@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { wellKnownController } from '../controllers/wellKnownController';
+import { generalRateLimit } from '../middlewares';
+
+const router = Router();
+
+// Public discovery documents, mounted at /.well-known
+router.get('/jwks.json', generalRateLimit, wellKnownController.getJwks);
+
+export default router;
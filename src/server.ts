@@ -8,7 +8,9 @@ import { logger } from './utils/logger';
 import { swaggerSpec } from './config/swagger';
 import { healthRateLimit } from './middlewares/rateLimiting';
 import apiRoutes from './routes';
+import wellKnownRoutes from './routes/wellKnownRoutes';
 import { ApiResponse } from './utils/types';
+import { reconciliationService } from './services/reconciliationService';
 
 const app = express();
 
@@ -125,6 +127,9 @@ app.use('/docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
 // API routes
 app.use('/api', apiRoutes);
 
+// Public key discovery for services verifying our tokens
+app.use('/.well-known', wellKnownRoutes);
+
 // Root endpoint
 app.get('/', (req, res) => {
   const response: ApiResponse = {
@@ -264,6 +269,7 @@ const server = app.listen(PORT, () => {
   console.log('🛡️  SECURITY SETTINGS:');
   console.log(`   🌐 CORS Origin: ${config.cors.origin}`);
   console.log(`   🔒 JWT Expires: ${config.jwt.expiresIn}`);
+  console.log(`   🔑 JWT Algorithm: ${config.jwt.algorithm}`);
   console.log('');
   
   // Environment warnings
@@ -301,6 +307,9 @@ const server = app.listen(PORT, () => {
    🌐 CORS Origin: ${config.cors.origin}
    🔒 JWT Expires: ${config.jwt.expiresIn}`); 
   logger.info('='.repeat(60));
+
+  // Background jobs
+  reconciliationService.startSchedule();
 });
 
 export default app;
\ No newline at end of file
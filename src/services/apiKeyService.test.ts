@@ -0,0 +1,129 @@
+import { authenticate, authenticateSession } from '../middlewares/authenticate';
+import { requireScope } from '../middlewares/authorize';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { runMiddleware } from '../test/http';
+import { apiKeyService } from './apiKeyService';
+
+describe('API key authentication', () => {
+  const db = useSupabaseFake();
+
+  beforeEach(() => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user' }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+      },
+    ]);
+  });
+
+  const createKey = async (expiresAt?: string) => {
+    const { apiKey, key } = await apiKeyService.create('user-1', {
+      name: 'CI',
+      scopes: ['projects:read'],
+      expiresAt,
+    });
+
+    return { id: apiKey.id, key };
+  };
+
+  describe('apiKeyService.authenticate', () => {
+    it('resolves a key to its owner and scopes without storing the plain key', async () => {
+      const { id, key } = await createKey();
+
+      await expect(apiKeyService.authenticate(key)).resolves.toMatchObject({
+        id: 'user-1',
+        email: 'user@example.com',
+        profile_name: 'user',
+        token_use: 'api_key',
+        api_key_id: id,
+        scopes: ['projects:read'],
+      });
+
+      const [stored] = db.rows('api_keys');
+      expect(JSON.stringify(stored)).not.toContain(key);
+      expect(stored.last_used_at).toBeTruthy();
+    });
+
+    it('rejects unknown and revoked keys', async () => {
+      const { id, key } = await createKey();
+
+      await expect(apiKeyService.authenticate(`${key}x`)).rejects.toThrow('Invalid API key');
+
+      await apiKeyService.revoke('user-1', id);
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+      await expect(apiKeyService.listForUser('user-1')).resolves.toEqual([]);
+    });
+
+    it('rejects expired keys', async () => {
+      const { key } = await createKey(new Date(Date.now() - 1000).toISOString());
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('API key expired');
+    });
+
+    it('rejects keys of users that are no longer active', async () => {
+      const { key } = await createKey();
+      db.rows('users')[0].status = 'inactive';
+
+      await expect(apiKeyService.authenticate(key)).rejects.toThrow('Invalid API key');
+    });
+
+    it('only lets the owner revoke a key', async () => {
+      const { id, key } = await createKey();
+
+      await expect(apiKeyService.revoke('user-2', id)).rejects.toThrow('API key not found');
+      await expect(apiKeyService.authenticate(key)).resolves.toHaveProperty('id', 'user-1');
+    });
+  });
+
+  describe('authenticate middleware', () => {
+    it('accepts an X-API-Key header and enforces the key scopes', async () => {
+      const { key } = await createKey();
+
+      const { nextCalled, req } = await runMiddleware(authenticate, {
+        headers: { 'X-API-Key': key },
+      });
+
+      expect(nextCalled).toBe(true);
+      expect(req.user).toMatchObject({ id: 'user-1', token_use: 'api_key' });
+
+      await expect(
+        runMiddleware(requireScope('projects:read'), { user: req.user })
+      ).resolves.toMatchObject({
+        nextCalled: true,
+      });
+      await expect(
+        runMiddleware(requireScope('projects:write'), { user: req.user })
+      ).resolves.toMatchObject({
+        nextCalled: false,
+        status: 403,
+        body: { data: { code: 'INSUFFICIENT_SCOPE' } },
+      });
+    });
+
+    it('answers 401 with the reason for invalid and expired keys', async () => {
+      const { key } = await createKey(new Date(Date.now() - 1000).toISOString());
+
+      await expect(
+        runMiddleware(authenticate, { headers: { 'X-API-Key': key } })
+      ).resolves.toMatchObject({ status: 401, body: { data: { code: 'EXPIRED_API_KEY' } } });
+      await expect(
+        runMiddleware(authenticate, { headers: { 'X-API-Key': 'pk_unknown' } })
+      ).resolves.toMatchObject({ status: 401, body: { data: { code: 'INVALID_API_KEY' } } });
+    });
+
+    it('refuses API keys on session-only routes', async () => {
+      const { key } = await createKey();
+
+      await expect(
+        runMiddleware(authenticateSession, { headers: { 'X-API-Key': key } })
+      ).resolves.toMatchObject({
+        nextCalled: false,
+        status: 401,
+        body: { data: { code: 'API_KEY_NOT_ALLOWED' } },
+      });
+    });
+  });
+});
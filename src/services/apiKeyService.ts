@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { ApiKey, CreateApiKeyRequest, CreateApiKeyResponse } from '../utils/types';
+import { JWTPayload } from '../middlewares/authenticate';
+
+// Keys look like `pk_<prefix>_<secret>`, the prefix is stored to help users recognize them
+const KEY_PREFIX = 'pk';
+
+// Columns safe to return to clients (never the hash)
+const PUBLIC_COLUMNS =
+  'id, user_id, name, prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+export class ApiKeyService {
+  /**
+   * Create a key for a user, the plain key is only returned here
+   */
+  async create(userId: string, keyData: CreateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const key = `${KEY_PREFIX}_${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const { data: apiKey, error } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        user_id: userId,
+        name: keyData.name,
+        prefix,
+        key_hash: this.hashKey(key),
+        scopes: keyData.scopes,
+        expires_at: keyData.expiresAt || null,
+      })
+      .select(PUBLIC_COLUMNS)
+      .single();
+
+    if (error || !apiKey) {
+      logger.error('Failed to create API key:', { error: error?.message, userId });
+      throw new Error('Failed to create API key');
+    }
+
+    logger.info('API key created', { userId, apiKeyId: apiKey.id, scopes: keyData.scopes });
+    return { apiKey: apiKey as ApiKey, key };
+  }
+
+  /**
+   * List the keys of a user that have not been revoked
+   */
+  async listForUser(userId: string): Promise<ApiKey[]> {
+    const { data: apiKeys, error } = await supabaseAdmin
+      .from('api_keys')
+      .select(PUBLIC_COLUMNS)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list API keys:', { error: error.message, userId });
+      throw new Error('Failed to list API keys');
+    }
+
+    return (apiKeys || []) as ApiKey[];
+  }
+
+  /**
+   * Revoke a key owned by the user
+   */
+  async revoke(userId: string, apiKeyId: string): Promise<void> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', apiKeyId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to revoke API key:', { error: error.message, userId, apiKeyId });
+      throw new Error('Failed to revoke API key');
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new Error('API key not found');
+    }
+
+    logger.info('API key revoked', { userId, apiKeyId });
+  }
+
+  /**
+   * Resolve a presented key to the same payload shape as an access token
+   */
+  async authenticate(key: string): Promise<JWTPayload> {
+    const { data: apiKey, error } = await supabaseAdmin
+      .from('api_keys')
+      .select(
+        `
+        id,
+        user_id,
+        scopes,
+        expires_at,
+        revoked_at,
+        users(email, status, profile_id, profiles(name))
+      `
+      )
+      .eq('key_hash', this.hashKey(key))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up API key:', { error: error.message });
+      throw new Error('Failed to validate API key');
+    }
+
+    if (!apiKey || apiKey.revoked_at) {
+      throw new Error('Invalid API key');
+    }
+
+    if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() <= Date.now()) {
+      throw new Error('API key expired');
+    }
+
+    const owner = apiKey.users as any;
+
+    if (!owner || owner.status !== 'active') {
+      logger.warn('API key used for inactive user', {
+        userId: apiKey.user_id,
+        apiKeyId: apiKey.id,
+      });
+      throw new Error('Invalid API key');
+    }
+
+    // Usage tracking must not fail the request
+    supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+      .then(
+        ({ error: touchError }) => {
+          if (touchError) {
+            logger.warn('Failed to update API key last use:', {
+              error: touchError.message,
+              apiKeyId: apiKey.id,
+            });
+          }
+        },
+        touchError => {
+          logger.warn('Failed to update API key last use:', {
+            error: touchError instanceof Error ? touchError.message : 'Unknown error',
+            apiKeyId: apiKey.id,
+          });
+        }
+      );
+
+    return {
+      id: apiKey.user_id,
+      email: owner.email,
+      profile_id: owner.profile_id,
+      profile_name: owner.profiles?.name || 'user',
+      token_use: 'api_key',
+      api_key_id: apiKey.id,
+      scopes: apiKey.scopes,
+      ...(apiKey.expires_at && { exp: Math.floor(new Date(apiKey.expires_at).getTime() / 1000) }),
+    };
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,66 @@
+import { User as AuthUser } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authIdentityService } from './authIdentityService';
+
+describe('authIdentityService', () => {
+  const db = useSupabaseFake();
+
+  describe('users without a Supabase Auth account', () => {
+    it('reports SSO-provisioned users as sso_only when syncing status or deleting', async () => {
+      const updateUserById = jest.spyOn(supabaseAdmin.auth.admin, 'updateUserById');
+      const deleteUser = jest.spyOn(supabaseAdmin.auth.admin, 'deleteUser');
+
+      await expect(
+        authIdentityService.syncStatus('user-id', null, 'sso', 'inactive')
+      ).resolves.toEqual({
+        status: 'sso_only',
+      });
+      await expect(authIdentityService.deleteAccount('user-id', null, 'sso')).resolves.toEqual({
+        status: 'sso_only',
+      });
+
+      expect(updateUserById).not.toHaveBeenCalled();
+      expect(deleteUser).not.toHaveBeenCalled();
+    });
+
+    it('reports other unlinked users as not_linked', async () => {
+      await expect(
+        authIdentityService.syncStatus('user-id', null, 'supabase', 'inactive')
+      ).resolves.toEqual({
+        status: 'not_linked',
+      });
+    });
+  });
+
+  describe('backfillAuthUserIds', () => {
+    it('links legacy users by email and skips SSO-provisioned ones', async () => {
+      db.seed('users', [
+        { id: 'legacy', email: 'Legacy@example.com', auth_user_id: null, auth_source: 'supabase' },
+        { id: 'sso', email: 'sso@example.com', auth_user_id: null, auth_source: 'sso' },
+        { id: 'orphan', email: 'orphan@example.com', auth_user_id: null, auth_source: 'supabase' },
+      ]);
+
+      jest.spyOn(supabaseAdmin.auth.admin, 'listUsers').mockResolvedValue({
+        data: {
+          users: [
+            { id: 'auth-legacy', email: 'legacy@example.com' },
+            { id: 'auth-sso', email: 'sso@example.com' },
+          ] as AuthUser[],
+          aud: 'authenticated',
+        },
+        error: null,
+      } as any);
+
+      const result = await authIdentityService.backfillAuthUserIds();
+
+      expect(result).toEqual({
+        scanned: 2,
+        linked: 1,
+        failed: 0,
+        unmatched: ['orphan@example.com'],
+      });
+      expect(db.rows('users').map(user => user.auth_user_id)).toEqual(['auth-legacy', null, null]);
+    });
+  });
+});
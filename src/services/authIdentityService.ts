@@ -0,0 +1,323 @@
+import { User as AuthUser } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RetryQueue } from '../utils/retryQueue';
+import { AuthSource, AuthSyncResult, AuthUserIdBackfillResult } from '../utils/types';
+
+// Largest page size accepted by the Supabase Auth admin API
+const AUTH_USERS_PAGE_SIZE = 1000;
+
+// Rows per page when reading the users table, within the default PostgREST max-rows
+const USERS_PAGE_SIZE = 1000;
+
+// Supabase Auth has no permanent ban, so deactivated users are banned for a century
+const BAN_DURATION = '876000h';
+
+interface BanSyncJob {
+  userId: string;
+  authUserId: string;
+}
+
+interface AccountDeletionJob {
+  userId: string;
+  authUserId: string;
+}
+
+export class AuthIdentityService {
+  private banQueue = new RetryQueue<BanSyncJob>(
+    'Supabase Auth ban sync',
+    job => this.applyCurrentStatus(job),
+    {
+      maxAttempts: config.authSync.maxAttempts,
+      baseDelayMs: config.authSync.retryBaseSeconds * 1000,
+    },
+    job => ({ userId: job.userId, authUserId: job.authUserId })
+  );
+
+  private deletionQueue = new RetryQueue<AccountDeletionJob>(
+    'Supabase Auth account deletion',
+    job => this.deleteAuthUser(job.authUserId),
+    {
+      maxAttempts: config.authSync.maxAttempts,
+      baseDelayMs: config.authSync.retryBaseSeconds * 1000,
+    },
+    job => ({ userId: job.userId, authUserId: job.authUserId })
+  );
+
+  /**
+   * Look up the Supabase Auth account linked to a system user
+   * Returns null when the account no longer exists
+   */
+  async getAuthUser(authUserId: string): Promise<AuthUser | null> {
+    const { data, error } = await supabaseAdmin.auth.admin.getUserById(authUserId);
+
+    if (error) {
+      // A missing account is reported as a 404 by the admin API
+      if (error.status === 404) {
+        return null;
+      }
+
+      logger.error('Failed to look up Supabase Auth user:', { error: error.message, authUserId });
+      throw new Error('Failed to access authentication system');
+    }
+
+    return data.user;
+  }
+
+  /**
+   * Ban or lift the ban on a Supabase Auth account, a banned account cannot sign in
+   */
+  async setBanned(authUserId: string, banned: boolean): Promise<void> {
+    const { error } = await supabaseAdmin.auth.admin.updateUserById(authUserId, {
+      ban_duration: banned ? BAN_DURATION : 'none',
+    });
+
+    if (error) {
+      logger.error('Failed to update Supabase Auth ban:', {
+        error: error.message,
+        authUserId,
+        banned,
+      });
+      throw new Error(error.message);
+    }
+
+    logger.info(banned ? 'Supabase Auth user banned' : 'Supabase Auth user unbanned', {
+      authUserId,
+    });
+  }
+
+  /**
+   * Ban an inactive user or lift the ban on an active one
+   * A failed attempt is queued and retried in the background, so the status change itself stands
+   */
+  async syncStatus(
+    userId: string,
+    authUserId: string | null,
+    authSource: AuthSource,
+    status: 'active' | 'inactive'
+  ): Promise<AuthSyncResult> {
+    if (!authUserId) {
+      return this.skipUnlinked(userId, authSource, 'ban sync');
+    }
+
+    try {
+      await this.setBanned(authUserId, status === 'inactive');
+      return { status: 'synced' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      this.banQueue.enqueue({ userId, authUserId });
+      logger.warn('Supabase Auth ban sync queued for retry:', {
+        error: errorMessage,
+        userId,
+        authUserId,
+      });
+
+      return { status: 'queued', error: errorMessage };
+    }
+  }
+
+  /**
+   * Delete the Supabase Auth account of a removed user
+   * A failed attempt is queued and retried in the background, the account should be banned beforehand
+   */
+  async deleteAccount(
+    userId: string,
+    authUserId: string | null,
+    authSource: AuthSource
+  ): Promise<AuthSyncResult> {
+    if (!authUserId) {
+      return this.skipUnlinked(userId, authSource, 'account deletion');
+    }
+
+    try {
+      await this.deleteAuthUser(authUserId);
+      return { status: 'synced' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      this.deletionQueue.enqueue({ userId, authUserId });
+      logger.warn('Supabase Auth account deletion queued for retry:', {
+        error: errorMessage,
+        userId,
+        authUserId,
+      });
+
+      return { status: 'queued', error: errorMessage };
+    }
+  }
+
+  /**
+   * SSO-provisioned users never had a Supabase Auth account, others are waiting for the backfill
+   */
+  private skipUnlinked(userId: string, authSource: AuthSource, action: string): AuthSyncResult {
+    if (authSource === 'sso') {
+      logger.info(`User signs in through SSO only, ${action} skipped:`, { userId });
+      return { status: 'sso_only' };
+    }
+
+    logger.warn(`User not linked to Supabase Auth, ${action} skipped:`, { userId });
+    return { status: 'not_linked' };
+  }
+
+  /**
+   * Delete a Supabase Auth account, one that no longer exists counts as deleted
+   */
+  async deleteAuthUser(authUserId: string): Promise<void> {
+    const { error } = await supabaseAdmin.auth.admin.deleteUser(authUserId);
+
+    if (error && error.status !== 404) {
+      logger.error('Failed to delete Supabase Auth user:', { error: error.message, authUserId });
+      throw new Error(error.message);
+    }
+
+    logger.info('Supabase Auth user deleted', { authUserId });
+  }
+
+  /**
+   * Whether a Supabase Auth account is currently banned
+   */
+  isBanned(authUser: AuthUser): boolean {
+    // banned_until is returned by the admin API but missing from the client types
+    const bannedUntil = (authUser as AuthUser & { banned_until?: string | null }).banned_until;
+
+    return !!bannedUntil && new Date(bannedUntil).getTime() > Date.now();
+  }
+
+  /**
+   * Walk every Supabase Auth user one page at a time
+   */
+  async forEachAuthUserPage(handler: (users: AuthUser[]) => Promise<void>): Promise<void> {
+    for (let page = 1; ; page++) {
+      const { data, error } = await supabaseAdmin.auth.admin.listUsers({
+        page,
+        perPage: AUTH_USERS_PAGE_SIZE,
+      });
+
+      if (error) {
+        logger.error('Failed to list Supabase Auth users:', { error: error.message, page });
+        throw new Error('Failed to access authentication system');
+      }
+
+      if (data.users.length > 0) {
+        await handler(data.users);
+      }
+
+      if (data.users.length < AUTH_USERS_PAGE_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Link system users created before auth_user_id existed to their Supabase Auth account, matched by email
+   * Safe to run more than once, rows that are already linked are left untouched
+   */
+  async backfillAuthUserIds(): Promise<AuthUserIdBackfillResult> {
+    const pending = await this.loadUnlinkedUsers();
+    const result: AuthUserIdBackfillResult = { scanned: 0, linked: 0, failed: 0, unmatched: [] };
+
+    logger.info('Backfilling auth user IDs', { unlinkedUsers: pending.size });
+
+    if (pending.size > 0) {
+      await this.forEachAuthUserPage(async authUsers => {
+        for (const authUser of authUsers) {
+          result.scanned++;
+
+          const email = authUser.email?.toLowerCase();
+          const userId = email ? pending.get(email) : undefined;
+
+          if (!email || !userId) {
+            continue;
+          }
+
+          pending.delete(email);
+
+          const { error: updateError } = await supabaseAdmin
+            .from('users')
+            .update({ auth_user_id: authUser.id })
+            .eq('id', userId)
+            .is('auth_user_id', null);
+
+          if (updateError) {
+            result.failed++;
+            logger.warn('Failed to link user to Supabase Auth account:', {
+              error: updateError.message,
+              userId,
+              authUserId: authUser.id,
+            });
+            continue;
+          }
+
+          result.linked++;
+        }
+      });
+    }
+
+    result.unmatched = [...pending.keys()];
+
+    logger.info('Auth user ID backfill completed', {
+      scanned: result.scanned,
+      linked: result.linked,
+      failed: result.failed,
+      unmatched: result.unmatched.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Users without auth_user_id by lowercase email, SSO-provisioned ones have no account to link
+   * Read page by page so the PostgREST max-rows limit cannot silently cut the list
+   * Every page is read before any row is linked, so the offsets stay stable
+   */
+  private async loadUnlinkedUsers(): Promise<Map<string, string>> {
+    const unlinked = new Map<string, string>();
+
+    for (let from = 0; ; from += USERS_PAGE_SIZE) {
+      const { data: page, error } = await supabaseAdmin
+        .from('users')
+        .select('id, email')
+        .is('auth_user_id', null)
+        .neq('auth_source', 'sso')
+        .order('id')
+        .range(from, from + USERS_PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error('Failed to list users without auth ID:', { error: error.message, from });
+        throw new Error('Failed to backfill auth user IDs');
+      }
+
+      (page || []).forEach(user => unlinked.set(user.email.toLowerCase(), user.id));
+
+      if (!page || page.length < USERS_PAGE_SIZE) {
+        return unlinked;
+      }
+    }
+  }
+
+  /**
+   * Retries read the status again, so a change made while the job waited is not overwritten
+   */
+  private async applyCurrentStatus(job: BanSyncJob): Promise<void> {
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('status')
+      .eq('id', job.userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!user) {
+      logger.warn('User removed before Supabase Auth ban sync, skipping', job);
+      return;
+    }
+
+    await this.setBanned(job.authUserId, user.status === 'inactive');
+  }
+}
+
+export const authIdentityService = new AuthIdentityService();
@@ -0,0 +1,108 @@
+import { authenticate, authenticateSession } from '../middlewares/authenticate';
+import { checkRole } from '../middlewares/authorize';
+import { runMiddleware } from '../test/http';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { jwtService } from './jwtService';
+
+describe('admin impersonation', () => {
+  const db = useSupabaseFake();
+
+  const admin = {
+    id: 'admin-1',
+    email: 'admin@example.com',
+    profile_id: 'profile-admin',
+    profile_name: 'admin',
+  };
+
+  beforeEach(() => {
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+    db.seed('users', [
+      { ...admin, name: 'Admin', status: 'active', auth_source: 'supabase' },
+      {
+        id: 'admin-2',
+        name: 'Other Admin',
+        email: 'other-admin@example.com',
+        status: 'active',
+        profile_id: 'profile-admin',
+        auth_source: 'supabase',
+      },
+      {
+        id: 'user-1',
+        name: 'User',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_source: 'supabase',
+      },
+    ]);
+  });
+
+  const bearer = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  it('issues a token acting as the user that names the admin', async () => {
+    const { token, user } = await authService.impersonateUser(admin, 'user-1');
+
+    expect(user.id).toBe('user-1');
+
+    const { nextCalled, req } = await runMiddleware(authenticate, bearer(token));
+
+    expect(nextCalled).toBe(true);
+    expect(req.user).toMatchObject({
+      id: 'user-1',
+      token_use: 'impersonation',
+      act: { sub: 'admin-1', email: 'admin@example.com' },
+    });
+  });
+
+  it('keeps impersonation tokens out of account and admin routes', async () => {
+    const { token } = await authService.impersonateUser(admin, 'user-1');
+
+    await expect(runMiddleware(authenticateSession, bearer(token))).resolves.toMatchObject({
+      nextCalled: false,
+      status: 401,
+      body: { data: { code: 'IMPERSONATION_NOT_ALLOWED' } },
+    });
+  });
+
+  it('blocks role routes even when the impersonated user is an admin', async () => {
+    const { token } = await authService.impersonateUser(admin, 'admin-2');
+    const { req } = await runMiddleware(authenticate, bearer(token));
+
+    expect(req.user?.profile_name).toBe('admin');
+    await expect(runMiddleware(checkRole(['admin']), { user: req.user })).resolves.toMatchObject({
+      nextCalled: false,
+      status: 403,
+      body: { data: { code: 'IMPERSONATION_NOT_ALLOWED' } },
+    });
+  });
+
+  it('rejects tokens whose actor does not match their use', async () => {
+    const forged = jwtService.sign(
+      {
+        id: 'user-1',
+        email: 'user@example.com',
+        profile_id: 'profile-user',
+        profile_name: 'user',
+        token_use: 'access',
+        act: { sub: 'admin-1', email: 'admin@example.com' },
+      },
+      { expiresIn: '15m' }
+    );
+
+    await expect(runMiddleware(authenticate, bearer(forged))).resolves.toMatchObject({
+      nextCalled: false,
+      status: 401,
+      body: { data: { code: 'INVALID_TOKEN' } },
+    });
+  });
+
+  it('refuses to impersonate yourself', async () => {
+    await expect(authService.impersonateUser(admin, 'admin-1')).rejects.toThrow(
+      'Cannot impersonate yourself'
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { supabasePublic } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { LoginResponse } from '../utils/types';
+import { authService } from './authService';
+import { jwtService } from './jwtService';
+
+describe('magic link login', () => {
+  const db = useSupabaseFake();
+  let signInWithOtp: jest.SpyInstance;
+  let verifyOtp: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user', mfa_required: false }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        name: 'User',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+      },
+      {
+        id: 'user-2',
+        name: 'Former',
+        email: 'former@example.com',
+        status: 'inactive',
+        profile_id: 'profile-user',
+      },
+    ]);
+
+    signInWithOtp = jest
+      .spyOn(supabasePublic.auth, 'signInWithOtp')
+      .mockResolvedValue({ data: { user: null, session: null }, error: null } as any);
+    verifyOtp = jest.spyOn(supabasePublic.auth, 'verifyOtp');
+    jest.spyOn(supabasePublic.auth, 'signOut').mockResolvedValue({ error: null });
+  });
+
+  const linkFor = (email: string) =>
+    verifyOtp.mockResolvedValueOnce({
+      data: { user: { id: 'auth-1', email }, session: {} },
+      error: null,
+    } as any);
+
+  describe('requestMagicLink', () => {
+    it('sends a link to active users without creating Supabase Auth accounts', async () => {
+      await authService.requestMagicLink({ email: 'user@example.com' });
+
+      expect(signInWithOtp).toHaveBeenCalledWith({
+        email: 'user@example.com',
+        options: expect.objectContaining({ shouldCreateUser: false }),
+      });
+    });
+
+    it('silently ignores unknown and inactive users', async () => {
+      await authService.requestMagicLink({ email: 'nobody@example.com' });
+      await authService.requestMagicLink({ email: 'former@example.com' });
+
+      expect(signInWithOtp).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    it('logs the user in with a new session', async () => {
+      linkFor('user@example.com');
+
+      const result = (await authService.verifyMagicLink({ tokenHash: 'hash' })) as LoginResponse;
+
+      expect(verifyOtp).toHaveBeenCalledWith({ token_hash: 'hash', type: 'email' });
+      expect(result.user.id).toBe('user-1');
+      expect(result.refreshToken).toBeTruthy();
+      expect(jwtService.verify<{ id: string; sid: string }>(result.token)).toMatchObject({
+        id: 'user-1',
+        sid: db.rows('sessions')[0].id,
+      });
+    });
+
+    it('rejects invalid links and users deactivated since the link was sent', async () => {
+      verifyOtp.mockResolvedValueOnce({
+        data: { user: null, session: null },
+        error: { message: 'Token has expired or is invalid' },
+      } as any);
+      await expect(authService.verifyMagicLink({ tokenHash: 'expired' })).rejects.toThrow(
+        'Invalid or expired magic link'
+      );
+
+      linkFor('former@example.com');
+      await expect(authService.verifyMagicLink({ tokenHash: 'hash' })).rejects.toThrow(
+        'User lookup failed'
+      );
+      expect(db.rows('sessions')).toHaveLength(0);
+    });
+  });
+});
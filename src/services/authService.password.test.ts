@@ -0,0 +1,84 @@
+import { supabaseAdmin, supabasePublic } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { InMemoryLoginAttemptStore, loginAttemptService } from './loginAttemptService';
+import { sessionService } from './sessionService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+describe('authService.changeOwnPassword', () => {
+  const db = useSupabaseFake();
+  let signIn: jest.SpyInstance;
+  let updateUserById: jest.SpyInstance;
+  let currentSessionId: string;
+  let otherSessionId: string;
+
+  beforeEach(async () => {
+    loginAttemptService.useStore(new InMemoryLoginAttemptStore());
+    tokenRevocationService.useStore(new InMemoryTokenRevocationStore());
+    db.seed('profiles', [{ id: 'profile-user', name: 'user' }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+      },
+    ]);
+    currentSessionId = (await sessionService.create('user-1', {})).id;
+    otherSessionId = (await sessionService.create('user-1', {})).id;
+
+    signIn = jest.spyOn(supabasePublic.auth, 'signInWithPassword').mockResolvedValue({
+      data: { user: { id: 'auth-1' }, session: {} },
+      error: null,
+    } as any);
+    jest.spyOn(supabasePublic.auth, 'signOut').mockResolvedValue({ error: null });
+    updateUserById = jest
+      .spyOn(supabaseAdmin.auth.admin, 'updateUserById')
+      .mockResolvedValue({ data: { user: null }, error: null } as any);
+  });
+
+  const user = () => ({
+    id: 'user-1',
+    email: 'jane@example.com',
+    profile_id: 'profile-user',
+    profile_name: 'user',
+    sid: currentSessionId,
+  });
+
+  it('updates the password and signs out every other session', async () => {
+    await authService.changeOwnPassword(user(), {
+      currentPassword: 'Current123',
+      newPassword: 'Brand-new-42',
+    });
+
+    expect(signIn).toHaveBeenCalledWith({ email: 'jane@example.com', password: 'Current123' });
+    expect(updateUserById).toHaveBeenCalledWith('auth-1', { password: 'Brand-new-42' });
+    await expect(sessionService.listForUser('user-1')).resolves.toMatchObject([
+      { id: currentSessionId },
+    ]);
+    await expect(
+      tokenRevocationService.isRevoked({ id: 'user-1', sid: otherSessionId })
+    ).resolves.toBe(true);
+  });
+
+  it('keeps the password and sessions when the current password is wrong', async () => {
+    signIn.mockResolvedValue({
+      data: { user: null, session: null },
+      error: { message: 'Invalid login credentials' },
+    } as any);
+
+    await expect(
+      authService.changeOwnPassword(user(), {
+        currentPassword: 'Wrong123',
+        newPassword: 'Brand-new-42',
+      })
+    ).rejects.toThrow('Current password is incorrect');
+
+    expect(updateUserById).not.toHaveBeenCalled();
+    await expect(sessionService.listForUser('user-1')).resolves.toHaveLength(2);
+
+    // The failed re-verification counts toward the login lockout
+    await expect(loginAttemptService.assertNotLocked('jane@example.com')).rejects.toThrow();
+  });
+});
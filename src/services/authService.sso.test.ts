@@ -0,0 +1,150 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockIdp } from '../test/mockIdp';
+import { useSupabaseFake } from '../test/supabaseFake';
+import type { AuthService } from './authService';
+import type { SsoService } from './ssoService';
+
+describe('SSO login against a local mock IdP', () => {
+  const db = useSupabaseFake();
+  const idp = new MockIdp();
+  let providersFile: string;
+  let authService: AuthService;
+  let ssoService: SsoService;
+
+  beforeAll(async () => {
+    await idp.start();
+
+    // Providers are read when the services load, so the file must exist first
+    providersFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'sso-')), 'providers.json');
+    fs.writeFileSync(
+      providersFile,
+      JSON.stringify([
+        {
+          id: 'mock',
+          name: 'Mock IdP',
+          issuer: idp.issuer,
+          clientId: idp.clientId,
+          clientSecret: idp.clientSecret,
+          profileClaim: 'groups',
+          profileMapping: { admins: 'admin' },
+          defaultProfile: 'user',
+          autoProvision: true,
+        },
+      ])
+    );
+    process.env.SSO_PROVIDERS_FILE = providersFile;
+
+    ({ authService } = await import('./authService'));
+    ({ ssoService } = await import('./ssoService'));
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+    fs.rmSync(path.dirname(providersFile), { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+  });
+
+  const signIn = async (claims: { sub: string } & Record<string, unknown>) => {
+    idp.setNextLogin(claims);
+
+    const authorizationUrl = await ssoService.startLogin('mock');
+    const callback = await idp.authorize(authorizationUrl);
+    const redirect = await authService.completeSsoLogin('mock', callback);
+    const code = new URL(redirect).searchParams.get('code');
+
+    return ssoService.takeLoginResult(code || '');
+  };
+
+  it('provisions a new user marked as SSO-only and logs them in', async () => {
+    const result = await signIn({
+      sub: 'idp-user-1',
+      email: 'Jane@Example.com',
+      email_verified: true,
+      name: 'Jane Doe',
+      groups: ['admins'],
+    });
+
+    expect('token' in result && result.token).toBeTruthy();
+
+    const [user] = db.rows('users');
+    expect(user).toMatchObject({
+      email: 'jane@example.com',
+      name: 'Jane Doe',
+      profile_id: 'profile-admin',
+      auth_source: 'sso',
+    });
+    expect(user.auth_user_id).toBeUndefined();
+
+    expect(db.rows('user_sso_identities')).toEqual([
+      expect.objectContaining({ user_id: user.id, provider: 'mock', subject: 'idp-user-1' }),
+    ]);
+  });
+
+  it('signs a returning identity in as the user it was linked to', async () => {
+    await signIn({ sub: 'idp-user-2', email: 'sam@example.com', email_verified: true });
+    await signIn({ sub: 'idp-user-2', email: 'sam.renamed@example.com', email_verified: true });
+
+    expect(db.rows('users')).toHaveLength(1);
+    expect(db.rows('user_sso_identities')).toHaveLength(1);
+  });
+
+  it('links an existing user by verified email instead of provisioning one', async () => {
+    const [existing] = db.seed('users', [
+      {
+        name: 'Existing',
+        email: 'existing@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: 'auth-existing',
+        auth_source: 'supabase',
+      },
+    ]);
+
+    const result = await signIn({
+      sub: 'idp-user-3',
+      email: 'existing@example.com',
+      email_verified: true,
+    });
+
+    expect('user' in result && result.user.id).toBe(existing.id);
+    expect(db.rows('users')).toHaveLength(1);
+  });
+
+  it('does not provision users whose email is not verified', async () => {
+    await expect(signIn({ sub: 'idp-user-4', email: 'unverified@example.com' })).rejects.toThrow(
+      'User not provisioned'
+    );
+
+    expect(db.rows('users')).toHaveLength(0);
+  });
+
+  it('rejects a callback whose state was already used', async () => {
+    idp.setNextLogin({ sub: 'idp-user-5', email: 'replay@example.com', email_verified: true });
+
+    const callback = await idp.authorize(await ssoService.startLogin('mock'));
+    await authService.completeSsoLogin('mock', callback);
+
+    await expect(authService.completeSsoLogin('mock', callback)).rejects.toThrow(
+      'Invalid or expired SSO state'
+    );
+  });
+
+  it('rejects an authorization code the IdP does not know', async () => {
+    idp.setNextLogin({ sub: 'idp-user-6', email: 'forged@example.com', email_verified: true });
+
+    const callback = await idp.authorize(await ssoService.startLogin('mock'));
+
+    await expect(
+      authService.completeSsoLogin('mock', { ...callback, code: 'forged-code' })
+    ).rejects.toThrow('SSO code exchange failed');
+    expect(db.rows('users')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { supabaseAdmin } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { mailService } from './mailService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+const SECOND = 1000;
+
+describe('authService.updateUserStatus', () => {
+  const db = useSupabaseFake();
+  let updateUserById: jest.SpyInstance;
+
+  beforeEach(() => {
+    tokenRevocationService.useStore(new InMemoryTokenRevocationStore());
+    db.seed('profiles', [{ id: 'profile-user', name: 'user' }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        name: 'User',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: 'auth-1',
+        auth_source: 'supabase',
+      },
+      {
+        id: 'user-2',
+        name: 'Unlinked',
+        email: 'unlinked@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: null,
+        auth_source: 'supabase',
+      },
+    ]);
+
+    updateUserById = jest
+      .spyOn(supabaseAdmin.auth.admin, 'updateUserById')
+      .mockResolvedValue({ data: { user: null }, error: null } as any);
+    jest.spyOn(mailService, 'send').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('bans a deactivated user in Supabase Auth and lifts the ban on reactivation', async () => {
+    await expect(
+      authService.updateUserStatus('user-1', { status: 'inactive' })
+    ).resolves.toMatchObject({ user: { status: 'inactive' }, authSync: { status: 'synced' } });
+    expect(updateUserById).toHaveBeenLastCalledWith('auth-1', { ban_duration: '876000h' });
+    expect(mailService.send).toHaveBeenCalledWith('user@example.com', 'account_deactivated', {
+      name: 'User',
+    });
+
+    await authService.updateUserStatus('user-1', { status: 'active' });
+    expect(updateUserById).toHaveBeenLastCalledWith('auth-1', { ban_duration: 'none' });
+  });
+
+  it('revokes the tokens of a deactivated user', async () => {
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    await authService.updateUserStatus('user-1', { status: 'inactive' });
+
+    await expect(tokenRevocationService.isRevoked({ id: 'user-1', iat: issuedAt })).resolves.toBe(
+      true
+    );
+  });
+
+  it('skips the ban for users not linked to Supabase Auth', async () => {
+    await expect(
+      authService.updateUserStatus('user-2', { status: 'inactive' })
+    ).resolves.toMatchObject({ authSync: { status: 'not_linked' } });
+    expect(updateUserById).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed ban in the background with the status current at retry time', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    updateUserById.mockResolvedValueOnce({
+      data: { user: null },
+      error: { message: 'Service unavailable' },
+    } as any);
+
+    await expect(
+      authService.updateUserStatus('user-1', { status: 'inactive' })
+    ).resolves.toMatchObject({
+      user: { status: 'inactive' },
+      authSync: { status: 'queued', error: 'Service unavailable' },
+    });
+
+    // Reactivated while the retry waits, without reaching Supabase Auth either
+    updateUserById.mockResolvedValueOnce({
+      data: { user: null },
+      error: { message: 'Service unavailable' },
+    } as any);
+    await authService.updateUserStatus('user-1', { status: 'active' });
+
+    updateUserById.mockClear();
+    await jest.advanceTimersByTimeAsync(30 * SECOND);
+
+    expect(updateUserById.mock.calls).toEqual([
+      ['auth-1', { ban_duration: 'none' }],
+      ['auth-1', { ban_duration: 'none' }],
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { supabaseAdmin } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { LoginResponse } from '../utils/types';
+import { authService } from './authService';
+
+describe('authService.exchangeSupabaseToken', () => {
+  const db = useSupabaseFake();
+  let getUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user', mfa_required: false }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        name: 'Linked',
+        email: 'linked@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: 'auth-1',
+      },
+      {
+        id: 'user-2',
+        name: 'Unlinked',
+        email: 'unlinked@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: null,
+      },
+    ]);
+
+    getUser = jest.spyOn(supabaseAdmin.auth, 'getUser');
+  });
+
+  const supabaseSession = (user: Record<string, unknown>) =>
+    getUser.mockResolvedValueOnce({ data: { user }, error: null } as any);
+
+  const exchange = () =>
+    authService.exchangeSupabaseToken({
+      accessToken: 'supabase-access-token',
+    }) as Promise<LoginResponse>;
+
+  it('logs in the user linked to the Supabase Auth account', async () => {
+    supabaseSession({ id: 'auth-1', email: 'other@example.com' });
+
+    const result = await exchange();
+
+    expect(getUser).toHaveBeenCalledWith('supabase-access-token');
+    expect(result.user.id).toBe('user-1');
+    expect(result.token).toBeTruthy();
+    expect(result.refreshToken).toBeTruthy();
+  });
+
+  it('links an unlinked user by confirmed email on the first exchange', async () => {
+    supabaseSession({
+      id: 'auth-2',
+      email: 'unlinked@example.com',
+      email_confirmed_at: '2026-01-01T00:00:00.000Z',
+    });
+
+    await expect(exchange()).resolves.toMatchObject({ user: { id: 'user-2' } });
+    expect(db.rows('users')[1].auth_user_id).toBe('auth-2');
+  });
+
+  it('does not trust unconfirmed emails or take over users linked to another account', async () => {
+    supabaseSession({ id: 'auth-2', email: 'unlinked@example.com', email_confirmed_at: null });
+    await expect(exchange()).rejects.toThrow('User not provisioned');
+
+    supabaseSession({
+      id: 'auth-3',
+      email: 'linked@example.com',
+      email_confirmed_at: '2026-01-01T00:00:00.000Z',
+    });
+    await expect(exchange()).rejects.toThrow('User not provisioned');
+
+    expect(db.rows('users').map(user => user.auth_user_id)).toEqual(['auth-1', null]);
+  });
+
+  it('does not provision unknown accounts unless enabled', async () => {
+    supabaseSession({
+      id: 'auth-4',
+      email: 'stranger@example.com',
+      email_confirmed_at: '2026-01-01T00:00:00.000Z',
+    });
+
+    await expect(exchange()).rejects.toThrow('User not provisioned');
+    expect(db.rows('users')).toHaveLength(2);
+  });
+
+  it('rejects tokens Supabase Auth does not accept', async () => {
+    getUser.mockResolvedValueOnce({
+      data: { user: null },
+      error: { message: 'invalid JWT' },
+    } as any);
+
+    await expect(exchange()).rejects.toThrow('Invalid or expired Supabase token');
+  });
+});
@@ -1,30 +1,84 @@
-import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { User as AuthUser } from '@supabase/supabase-js';
 import { supabaseAdmin, supabasePublic } from '../config/supabase';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { jwtService } from './jwtService';
+import { loginAttemptService } from './loginAttemptService';
+import { mfaService } from './mfaService';
+import { refreshTokenService } from './refreshTokenService';
+import { sessionService } from './sessionService';
+import { apiKeyService } from './apiKeyService';
+import { passwordPolicyService } from './passwordPolicyService';
+import { invitationService } from './invitationService';
+import { mailService } from './mailService';
+import { tokenRevocationService } from './tokenRevocationService';
+import { userStatusService } from './userStatusService';
+import { authIdentityService } from './authIdentityService';
+import { ssoService, SsoLoginError } from './ssoService';
+import { loginEventService } from './loginEventService';
 import {
   User,
   UserWithProfile,
   LoginRequest,
   LoginResponse,
+  ImpersonationResponse,
+  MfaChallengeResponse,
+  MfaEnrollmentResponse,
+  MfaConfirmRequest,
+  MfaConfirmResponse,
+  MfaVerifyRequest,
+  UpdateProfileMfaRequest,
+  RequestContext,
+  MagicLinkRequest,
+  ChangeOwnPasswordRequest,
+  ConfirmPasswordResetRequest,
+  MagicLinkVerifyRequest,
+  TokenExchangeRequest,
+  LoginMethod,
+  SsoCallbackRequest,
+  SsoIdentity,
+  PendingSsoLogin,
+  SessionWithCurrent,
+  ApiKey,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+  RefreshTokenRequest,
+  LogoutRequest,
   CreateUserRequest,
+  Invitation,
+  InvitationDetails,
+  InvitationResponse,
+  AcceptInvitationRequest,
   UpdateUserStatusRequest,
+  UpdateUserStatusResponse,
+  UpdateUserRequest,
+  DeleteUserRequest,
+  DeleteUserResponse,
   ChangePasswordRequest,
   ResetPasswordRequest,
   CheckSyncRequest,
+  AuthUserIdBackfillResult,
 } from '../utils/types';
+import { JWTPayload, TokenUse } from '../middlewares/authenticate';
 
 export class AuthService {
   /**
    * Authenticate user with email and password using Supabase Auth
    * Then generate custom JWT with profile data
    */
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(
+    credentials: LoginRequest,
+    context: RequestContext = {}
+  ): Promise<LoginResponse | MfaChallengeResponse> {
     const { email, password } = credentials;
 
     try {
       logger.info('Login attempt', { email });
 
+      // Step 0: Reject attempts while the account is in back-off or locked
+      await loginAttemptService.assertNotLocked(email);
+
       // Step 1: Validate credentials with Supabase Auth
       const { data: authData, error: authError } = await supabasePublic.auth.signInWithPassword({
         email,
@@ -33,6 +87,11 @@ export class AuthService {
 
       if (authError) {
         logger.error('Supabase Auth error:', { error: authError.message, email });
+
+        if (authError.message.includes('Invalid login credentials')) {
+          await loginAttemptService.recordFailure(email);
+        }
+
         throw new Error(authError.message);
       }
 
@@ -41,366 +100,1965 @@ export class AuthService {
         throw new Error('Authentication failed');
       }
 
-      // Step 2: Get user data from our system
-      const { data: userData, error: userError } = await supabaseAdmin
-        .from('users')
-        .select(`
-          id,
-          name,
-          email,
-          status,
-          profile_id,
-          created_at,
-          profiles(name)
-        `)
-        .eq('email', email)
-        .single();
-
-      if (userError) {
-        logger.error('Failed to fetch user data:', { error: userError.message, email });
-        throw new Error('User not found in system. Please contact administrator.');
-      }
-
-      if (!userData) {
-        logger.error('User not found in system:', { email });
-        throw new Error('User not found in system. Please contact administrator.');
-      }
+      await loginAttemptService.reset(email);
 
-      if (userData.status !== 'active') {
-        logger.warn('Inactive user login attempt:', { email, status: userData.status });
-        throw new Error('User lookup failed');
-      }
+      // Step 2: Get user data from our system
+      const userWithProfile = await this.getUserWithProfile('email', email);
 
       // Step 3: Sign out from Supabase Auth (we only use it for validation)
       await supabasePublic.auth.signOut();
 
-      // Step 4: Generate custom JWT
-      const userWithProfile: UserWithProfile = {
-        id: userData.id,
-        name: userData.name,
-        email: userData.email,
-        status: userData.status,
-        profile_id: userData.profile_id,
-        profile_name: (userData.profiles as any)?.name || 'user',
-        created_at: userData.created_at,
-      };
+      // Step 4: MFA check, then custom JWT and refresh token
+      return await this.completeLogin(userWithProfile, context, 'password');
+    } catch (error) {
+      logger.error('Login failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email,
+      });
+      this.recordLoginFailure('password', error, context, { email });
+      throw error;
+    }
+  }
 
-      const payload = {
-        id: userWithProfile.id,
-        email: userWithProfile.email,
-        profile_id: userWithProfile.profile_id,
-        profile_name: userWithProfile.profile_name,
-      };
+  /**
+   * Send a single-use sign-in link through Supabase Auth
+   * Unknown and inactive users are ignored silently so the endpoint does not reveal accounts
+   */
+  async requestMagicLink(magicLinkData: MagicLinkRequest): Promise<void> {
+    const { email } = magicLinkData;
 
-      const token = (jwt as any).sign(payload, config.jwt.secret, {
-        expiresIn: config.jwt.expiresIn,
-      });
+    try {
+      logger.info('Magic link requested', { email });
 
-      logger.info('Login successful', { 
-        userId: userWithProfile.id, 
-        email: userWithProfile.email, 
-        profile: userWithProfile.profile_name 
+      try {
+        await this.getUserWithProfile('email', email);
+      } catch (lookupError) {
+        logger.warn('Magic link not sent, user unavailable', {
+          email,
+          reason: lookupError instanceof Error ? lookupError.message : 'Unknown error',
+        });
+        return;
+      }
+
+      const { error } = await supabasePublic.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: config.magicLink.redirectUrl,
+        },
       });
 
-      return {
-        token,
-        user: userWithProfile,
-      };
+      if (error) {
+        logger.error('Failed to send magic link:', { error: error.message, email });
+        throw new Error('Failed to send magic link');
+      }
+
+      logger.info('Magic link sent', { email });
     } catch (error) {
-      logger.error('Login failed:', { error: error instanceof Error ? error.message : 'Unknown error', email });
+      logger.error('Magic link request failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email,
+      });
       throw error;
     }
   }
 
   /**
-   * Create a new user in both Supabase Auth and our system
-   * Send password reset email for user to set their own password
+   * Exchange the token hash from a magic link for our custom JWT
+   * Supabase Auth enforces single use and expiry of the link
    */
-  async createUser(userData: CreateUserRequest): Promise<User> {
-    const { name, email, profile_id } = userData;
-    const tempPassword = this.generateTempPassword();
+  async verifyMagicLink(
+    verifyData: MagicLinkVerifyRequest,
+    context: RequestContext = {}
+  ): Promise<LoginResponse | MfaChallengeResponse> {
+    let email: string | undefined;
 
     try {
-      logger.info('Creating user', { email, profile_id });
+      logger.info('Magic link verification attempt');
 
-      // Step 1: Create user in Supabase Auth with temporary password
-      const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
-        email,
-        password: tempPassword,
-        email_confirm: true, // Auto-confirm email
+      const { data: authData, error: authError } = await supabasePublic.auth.verifyOtp({
+        token_hash: verifyData.tokenHash,
+        type: 'email',
       });
 
-      if (authError) {
-        logger.error('Failed to create user in Supabase Auth:', { error: authError.message, email });
-        throw new Error(authError.message);
+      if (authError || !authData.user?.email) {
+        logger.warn('Invalid magic link:', { error: authError?.message });
+        throw new Error('Invalid or expired magic link');
       }
 
-      if (!authData.user) {
-        logger.error('No user data returned from Supabase Auth creation', { email });
-        throw new Error('Failed to create user in authentication system');
-      }
+      email = authData.user.email;
 
-      let createdUser: User;
+      // Same profile lookup and inactive-user checks as the password login
+      const userWithProfile = await this.getUserWithProfile('email', authData.user.email);
 
-      try {
-        // Step 2: Create user in our system
-        const { data: systemUser, error: systemError } = await supabaseAdmin
-          .from('users')
-          .insert({
-            name,
-            email,
-            profile_id,
-            status: 'active',
-          })
-          .select()
-          .single();
+      // Sign out from Supabase Auth (we only use it for validation)
+      await supabasePublic.auth.signOut();
 
-        if (systemError) {
-          logger.error('Failed to create user in system:', { error: systemError.message, email });
-          throw new Error(systemError.message);
-        }
+      return await this.completeLogin(userWithProfile, context, 'magic_link');
+    } catch (error) {
+      logger.error('Magic link verification failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      this.recordLoginFailure('magic_link', error, context, { email });
+      throw error;
+    }
+  }
 
-        createdUser = systemUser;
-        logger.info('User created in system:', { userId: createdUser.id, email });
+  /**
+   * Exchange a Supabase Auth access token, e.g. from a social login in supabase-js, for our custom JWT
+   * Supabase Auth verifies the token, then the account is mapped to its users row like a password login
+   */
+  async exchangeSupabaseToken(
+    exchangeData: TokenExchangeRequest,
+    context: RequestContext = {}
+  ): Promise<LoginResponse | MfaChallengeResponse> {
+    let email: string | undefined;
 
-      } catch (systemErr) {
-        // Cleanup: Remove user from Supabase Auth if system creation failed
-        logger.warn('Cleaning up Supabase Auth user due to system creation failure', { email });
-        await supabaseAdmin.auth.admin.deleteUser(authData.user.id);
-        throw systemErr;
-      }
+    try {
+      logger.info('Supabase token exchange attempt');
 
-      try {
-        // Step 3: Send password reset email
-        const { error: resetError } = await supabaseAdmin.auth.admin.generateLink({
-          type: 'recovery',
-          email,
-        });
+      const { data: authData, error: authError } = await supabaseAdmin.auth.getUser(
+        exchangeData.accessToken
+      );
 
-        if (resetError) {
-          logger.warn('Failed to send password reset email:', { error: resetError.message, email });
-          // Don't throw error - user is created successfully
-        } else {
-          logger.info('Password reset email sent:', { email });
-        }
-      } catch (emailErr) {
-        logger.warn('Error sending password reset email:', { 
-          error: emailErr instanceof Error ? emailErr.message : 'Unknown error', 
-          email 
-        });
+      if (authError || !authData.user) {
+        logger.warn('Invalid Supabase token for exchange:', { error: authError?.message });
+        throw new Error('Invalid or expired Supabase token');
       }
 
-      logger.info('User created successfully:', { userId: createdUser.id, email });
-      return createdUser;
+      email = authData.user.email;
+      const userWithProfile = await this.resolveAuthAccountUser(authData.user);
 
+      return await this.completeLogin(userWithProfile, context, 'token_exchange');
     } catch (error) {
-      logger.error('User creation failed:', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        email 
+      logger.error('Supabase token exchange failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
+      this.recordLoginFailure('token_exchange', error, context, { email });
       throw error;
     }
   }
 
   /**
-   * Update user status and sync with Supabase Auth
+   * Finish an SSO login on the IdP callback and return the frontend URL to redirect to
+   * The login response is kept behind a one-time code added to that URL, see ssoService.saveLoginResult
+   * Failures throw SsoLoginError carrying the frontend URL the error is reported to
    */
-  async updateUserStatus(userId: string, statusData: UpdateUserStatusRequest): Promise<User> {
-    const { status } = statusData;
+  async completeSsoLogin(
+    providerId: string,
+    callbackData: SsoCallbackRequest,
+    context: RequestContext = {}
+  ): Promise<string> {
+    let pending: PendingSsoLogin;
 
     try {
-      logger.info('Updating user status', { userId, status });
+      pending = await ssoService.takePendingLogin(providerId, callbackData.state);
+    } catch (error) {
+      throw new SsoLoginError(
+        error instanceof Error ? error.message : 'Invalid or expired SSO state',
+        config.frontend.loginRedirectUrl
+      );
+    }
 
-      // Step 1: Update status in our system
-      const { data: updatedUser, error: updateError } = await supabaseAdmin
-        .from('users')
-        .update({ status })
-        .eq('id', userId)
-        .select()
-        .single();
+    let identity: SsoIdentity | undefined;
 
-      if (updateError) {
-        logger.error('Failed to update user status:', { error: updateError.message, userId });
-        throw new Error(updateError.message);
+    try {
+      logger.info('SSO callback received', { provider: providerId });
+
+      if (callbackData.error || !callbackData.code) {
+        logger.warn('SSO login rejected by identity provider:', {
+          provider: providerId,
+          error: callbackData.error,
+          description: callbackData.error_description,
+        });
+        throw new Error('SSO login rejected by identity provider');
       }
 
-      if (!updatedUser) {
-        logger.error('User not found for status update:', { userId });
-        throw new Error('User not found');
+      identity = await ssoService.verifyAuthorizationCode(providerId, callbackData.code, pending);
+      const userWithProfile = await this.resolveSsoUser(identity);
+      const result = await this.completeLogin(userWithProfile, context, 'sso');
+      const loginCode = await ssoService.saveLoginResult(result);
+
+      return ssoService.buildRedirect(pending.redirectUrl, { code: loginCode });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('SSO login failed:', { provider: providerId, error: errorMessage });
+      this.recordLoginFailure('sso', error, context, { email: identity?.email || undefined });
+      throw new SsoLoginError(errorMessage, pending.redirectUrl);
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token pair
+   * The presented refresh token is rotated and cannot be used again
+   */
+  async refreshToken(refreshData: RefreshTokenRequest): Promise<LoginResponse> {
+    try {
+      logger.info('Token refresh attempt');
+
+      const { userId, familyId, refreshToken } = await refreshTokenService.rotate(
+        refreshData.refreshToken
+      );
+
+      let userWithProfile: UserWithProfile;
+
+      try {
+        userWithProfile = await this.getUserWithProfile('id', userId);
+      } catch (userErr) {
+        // User was removed or deactivated since the family was issued
+        await refreshTokenService.revokeFamily(familyId);
+        throw userErr;
       }
 
-      // Step 2: Sync with Supabase Auth
+      // The refresh token family is the session the tokens belong to
+      const token = this.signAccessToken(userWithProfile, familyId);
+      sessionService.touch(familyId);
+
+      logger.info('Token refresh successful', { userId, familyId });
+
+      return {
+        token,
+        refreshToken,
+        user: userWithProfile,
+      };
+    } catch (error) {
+      logger.error('Token refresh failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Complete a login that returned an MFA challenge
+   */
+  async verifyMfa(
+    verifyData: MfaVerifyRequest,
+    context: RequestContext = {}
+  ): Promise<LoginResponse> {
+    try {
+      const challenge = await this.verifyMfaChallenge(verifyData.challengeToken, 'mfa_pending');
+
+      logger.info('MFA verification attempt', { userId: challenge.id });
+
       try {
-        const { data: authUsers, error: getUserError } = await supabaseAdmin.auth.admin.listUsers();
-        
-        if (getUserError) {
-          logger.warn('Failed to list Supabase Auth users for sync:', { error: getUserError.message });
-        } else {
-          const authUser = authUsers.users.find(u => u.email === updatedUser.email);
-          
-          if (authUser) {
-            // Note: User ban/unban functionality depends on Supabase plan and version
-            // For now, we'll just log the sync attempt
-            logger.info(`User status sync attempted for Supabase Auth (${status}):`, { 
-              userId, 
-              email: updatedUser.email 
-            });
-          } else {
-            logger.warn('User not found in Supabase Auth for sync:', { email: updatedUser.email });
+        // Wrong codes back off and lock like wrong passwords, however many challenges are used
+        await loginAttemptService.assertMfaNotLocked(challenge.id);
+        await mfaService.verify(challenge.id, verifyData);
+      } catch (mfaError) {
+        if (mfaError instanceof Error && mfaError.message === 'Invalid MFA code') {
+          const attempts = await loginAttemptService.recordMfaFailure(challenge.id);
+
+          // Once locked the challenge is spent, the user has to log in again after the lockout
+          if (attempts.failures >= config.loginLockout.threshold) {
+            await tokenRevocationService.revokeToken(challenge.jti, challenge.exp);
           }
         }
-      } catch (syncError) {
-        logger.warn('Failed to sync user status with Supabase Auth:', { 
-          error: syncError instanceof Error ? syncError.message : 'Unknown error',
-          userId 
+
+        this.recordLoginFailure(challenge.login_method || 'password', mfaError, context, {
+          userId: challenge.id,
         });
+        throw mfaError;
       }
 
-      logger.info('User status updated successfully:', { userId, status });
-      return updatedUser;
+      await loginAttemptService.resetMfa(challenge.id);
 
+      // Challenge tokens are single use
+      await tokenRevocationService.revokeToken(challenge.jti, challenge.exp);
+
+      const userWithProfile = await this.getUserWithProfile('id', challenge.id);
+      const tokens = await this.issueTokens(userWithProfile, context, {
+        method: challenge.login_method || 'password',
+        mfa: true,
+      });
+
+      logger.info('Login successful', { 
+        userId: userWithProfile.id, 
+        email: userWithProfile.email, 
+        profile: userWithProfile.profile_name,
+        mfa: true,
+      });
+
+      return {
+        ...tokens,
+        user: userWithProfile,
+      };
     } catch (error) {
-      logger.error('User status update failed:', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        userId 
+      logger.error('MFA verification failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw error;
     }
   }
 
   /**
-   * Change user password in Supabase Auth
+   * Generate a new TOTP secret for the current user
    */
-  async changePassword(passwordData: ChangePasswordRequest): Promise<void> {
-    const { email, newPassword } = passwordData;
+  async startMfaEnrollment(user: JWTPayload): Promise<MfaEnrollmentResponse> {
+    try {
+      if (!user.email) {
+        throw new Error('MFA is only available to user accounts');
+      }
+
+      return await mfaService.startEnrollment(user.id, user.email);
+    } catch (error) {
+      logger.error('MFA enrollment failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
 
+  /**
+   * Enable MFA after checking the first code
+   * When called with an enrollment challenge token the login is completed as well
+   */
+  async confirmMfaEnrollment(
+    user: JWTPayload,
+    confirmData: MfaConfirmRequest,
+    context: RequestContext = {}
+  ): Promise<MfaConfirmResponse> {
     try {
-      logger.info('Changing user password', { email });
+      const recoveryCodes = await mfaService.confirmEnrollment(user.id, confirmData.code);
 
-      // Find user in Supabase Auth
-      const { data: authUsers, error: getUserError } = await supabaseAdmin.auth.admin.listUsers();
-      
-      if (getUserError) {
-        logger.error('Failed to list users for password change:', { error: getUserError.message });
-        throw new Error('Failed to access authentication system');
+      if (user.token_use !== 'mfa_enroll') {
+        return { recoveryCodes };
       }
 
-      const authUser = authUsers.users.find(u => u.email === email);
-      
-      if (!authUser) {
-        logger.error('User not found in Supabase Auth for password change:', { email });
-        throw new Error('User not found in authentication system');
+      if (user.jti && user.exp) {
+        await tokenRevocationService.revokeToken(user.jti, user.exp);
       }
 
-      // Update password
-      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(authUser.id, {
-        password: newPassword,
+      const userWithProfile = await this.getUserWithProfile('id', user.id);
+      const tokens = await this.issueTokens(userWithProfile, context, {
+        method: user.login_method || 'password',
+        mfa: true,
       });
 
-      if (updateError) {
-        logger.error('Failed to update password in Supabase Auth:', { error: updateError.message, email });
-        throw new Error(updateError.message);
-      }
-
-      logger.info('Password changed successfully:', { email });
+      logger.info('Login successful', {
+        userId: userWithProfile.id,
+        email: userWithProfile.email,
+        profile: userWithProfile.profile_name,
+        mfa: true,
+      });
 
+      return {
+        recoveryCodes,
+        login: {
+          ...tokens,
+          user: userWithProfile,
+        },
+      };
     } catch (error) {
-      logger.error('Password change failed:', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        email 
+      logger.error('MFA enrollment confirmation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
       });
       throw error;
     }
   }
 
   /**
-   * Request password reset email
+   * Disable MFA for the current user after checking a code
    */
-  async resetPassword(resetData: ResetPasswordRequest): Promise<void> {
-    const { email } = resetData;
-
+  async disableMfa(user: JWTPayload, confirmData: MfaConfirmRequest): Promise<void> {
     try {
-      logger.info('Password reset requested', { email });
-
-      const { error } = await supabaseAdmin.auth.admin.generateLink({
-        type: 'recovery',
-        email,
-      });
-
-      if (error) {
-        logger.error('Failed to send password reset email:', { error: error.message, email });
-        throw new Error(error.message);
+      // Fails closed for tokens without a profile
+      if (!user.profile_id || (await mfaService.isRequiredForProfile(user.profile_id))) {
+        throw new Error('MFA is required for your profile');
       }
 
-      logger.info('Password reset email sent:', { email });
-
+      await mfaService.verify(user.id, { code: confirmData.code });
+      await mfaService.disable(user.id);
     } catch (error) {
-      logger.error('Password reset failed:', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        email 
+      logger.error('MFA disable failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
       });
       throw error;
     }
   }
 
   /**
-   * Check synchronization between our system and Supabase Auth
+   * Remove the MFA factor of a user who lost their device (Admin)
    */
-  async checkSync(syncData: CheckSyncRequest): Promise<{ exists: boolean; status: string }> {
-    const { email } = syncData;
+  async resetUserMfa(userId: string): Promise<void> {
+    try {
+      logger.info('Resetting user MFA', { userId });
+      await mfaService.disable(userId);
+    } catch (error) {
+      logger.error('MFA reset failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
 
+  /**
+   * Make MFA mandatory (or optional) for a profile (Admin)
+   */
+  async updateProfileMfa(profileId: string, mfaData: UpdateProfileMfaRequest): Promise<void> {
     try {
-      logger.info('Checking user synchronization', { email });
+      await mfaService.setProfileRequirement(profileId, mfaData.mfa_required);
+    } catch (error) {
+      logger.error('Profile MFA update failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        profileId,
+      });
+      throw error;
+    }
+  }
 
-      // Check user in our system
-      const { data: systemUser, error: systemError } = await supabaseAdmin
-        .from('users')
-        .select('status')
-        .eq('email', email)
-        .single();
+  /**
+   * End the current session, revoking its access and refresh tokens
+   */
+  async logout(user: JWTPayload, logoutData: LogoutRequest): Promise<void> {
+    try {
+      logger.info('Logout requested', { userId: user.id, sessionId: user.sid });
 
-      if (systemError || !systemUser) {
-        logger.info('User not found in system:', { email });
-        return { exists: false, status: 'not_found' };
+      if (user.jti && user.exp) {
+        await tokenRevocationService.revokeToken(user.jti, user.exp);
       }
 
-      // Check user in Supabase Auth
-      const { data: authUsers, error: authError } = await supabaseAdmin.auth.admin.listUsers();
-      
-      if (authError) {
-        logger.warn('Failed to check Supabase Auth for sync:', { error: authError.message });
-        return { exists: true, status: systemUser.status };
+      if (user.sid) {
+        await sessionService.revoke(user.id, user.sid);
+      } else if (logoutData.refreshToken) {
+        await refreshTokenService.revokeByToken(logoutData.refreshToken, user.id);
       }
 
-      const authUser = authUsers.users.find(u => u.email === email);
-      
-      if (!authUser) {
-        logger.warn('User found in system but not in Supabase Auth:', { email });
-        return { exists: true, status: 'auth_missing' };
-      }
+      logger.info('Logout successful', { userId: user.id });
+    } catch (error) {
+      logger.error('Logout failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
 
-      logger.info('User synchronization checked:', { email, systemStatus: systemUser.status });
-      return { exists: true, status: systemUser.status };
+  /**
+   * List the active sessions of a user, flagging the one making the request
+   */
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionWithCurrent[]> {
+    try {
+      const sessions = await sessionService.listForUser(userId);
 
+      return sessions.map(session => ({
+        ...session,
+        current: session.id === currentSessionId,
+      }));
     } catch (error) {
-      logger.error('Sync check failed:', { 
-        error: error instanceof Error ? error.message : 'Unknown error', 
-        email 
+      logger.error('Session listing failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
       });
       throw error;
     }
   }
 
   /**
-   * Generate a temporary password for new users
+   * Sign out one session of a user
    */
-  private generateTempPassword(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*';
-    let password = '';
-    for (let i = 0; i < 12; i++) {
-      password += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return password;
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    try {
+      logger.info('Revoking session', { userId, sessionId });
+      await sessionService.revoke(userId, sessionId);
+    } catch (error) {
+      logger.error('Session revocation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a personal API key, the plain key is only returned once
+   */
+  async createApiKey(userId: string, keyData: CreateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    try {
+      logger.info('Creating API key', { userId, name: keyData.name });
+      return await apiKeyService.create(userId, keyData);
+    } catch (error) {
+      logger.error('API key creation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List the active API keys of a user
+   */
+  async listApiKeys(userId: string): Promise<ApiKey[]> {
+    try {
+      return await apiKeyService.listForUser(userId);
+    } catch (error) {
+      logger.error('API key listing failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke one of the user's API keys
+   */
+  async revokeApiKey(userId: string, apiKeyId: string): Promise<void> {
+    try {
+      logger.info('Revoking API key', { userId, apiKeyId });
+      await apiKeyService.revoke(userId, apiKeyId);
+    } catch (error) {
+      logger.error('API key revocation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+        apiKeyId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every access and refresh token issued to a user
+   */
+  async revokeUserTokens(userId: string): Promise<void> {
+    try {
+      logger.info('Revoking all tokens for user', { userId });
+
+      await tokenRevocationService.revokeAllForUser(userId);
+      await refreshTokenService.revokeAllForUser(userId);
+      await sessionService.revokeAllForUser(userId);
+
+      logger.info('All tokens revoked for user', { userId });
+    } catch (error) {
+      logger.error('Token revocation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a short-lived token acting as another user for support purposes
+   * The token names the admin in its `act` claim, has no session or refresh token
+   * and is rejected by admin and account routes
+   */
+  async impersonateUser(admin: JWTPayload, userId: string): Promise<ImpersonationResponse> {
+    try {
+      logger.info('Impersonation requested', { adminId: admin.id, userId });
+
+      if (admin.id === userId) {
+        throw new Error('Cannot impersonate yourself');
+      }
+
+      const user = await this.getUserWithProfile('id', userId);
+
+      const payload = {
+        id: user.id,
+        email: user.email,
+        profile_id: user.profile_id,
+        profile_name: user.profile_name,
+        token_use: 'impersonation',
+        act: {
+          sub: admin.id,
+          email: admin.email,
+        },
+      };
+
+      const token = jwtService.sign(payload, {
+        expiresIn: config.impersonation.expiresIn,
+        jwtid: crypto.randomUUID(),
+      });
+
+      logger.warn('Impersonation token issued', {
+        adminId: admin.id,
+        adminEmail: admin.email,
+        userId: user.id,
+        userEmail: user.email,
+        expiresIn: config.impersonation.expiresIn,
+      });
+
+      return {
+        token,
+        expiresIn: config.impersonation.expiresIn,
+        user,
+      };
+    } catch (error) {
+      logger.error('Impersonation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: admin.id,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Invite a new user: nothing is created in Supabase Auth until the invitation is accepted
+   */
+  async inviteUser(invitedBy: string, userData: CreateUserRequest): Promise<InvitationResponse> {
+    const { email } = userData;
+
+    try {
+      logger.info('Inviting user', { email, profile_id: userData.profile_id, invitedBy });
+
+      const { data: existingUser, error: existingError } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('email', email)
+        .maybeSingle();
+
+      if (existingError) {
+        logger.error('Failed to check existing user:', { error: existingError.message, email });
+        throw new Error('Failed to create invitation');
+      }
+
+      if (existingUser) {
+        throw new Error('User already exists');
+      }
+
+      const result = await invitationService.create(invitedBy, userData);
+      this.sendInvitationEmail(result);
+
+      return result;
+    } catch (error) {
+      logger.error('User invitation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        email,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Public view of a pending invitation, shown before the user sets a password
+   */
+  async getInvitation(token: string): Promise<InvitationDetails> {
+    const invitation = await invitationService.findPendingByToken(token);
+
+    return {
+      name: invitation.name,
+      email: invitation.email,
+      profile_name: invitation.profile_name,
+      expires_at: invitation.expires_at,
+    };
+  }
+
+  /**
+   * Accept an invitation: create the user in Supabase Auth and in our system with the chosen password
+   * Every step is undone if a later one fails, so the invitation can be accepted again
+   */
+  async acceptInvitation(token: string, acceptData: AcceptInvitationRequest): Promise<User> {
+    const invitation = await invitationService.findPendingByToken(token);
+    const { name, email, profile_id } = invitation;
+
+    try {
+      logger.info('Accepting invitation', { invitationId: invitation.id, email });
+
+      await passwordPolicyService.assertValid(acceptData.password, { name, email });
+
+      // Claim first so concurrent acceptances cannot create the user twice
+      await invitationService.claim(invitation.id);
+
+      let authUserId: string | undefined;
+      let createdUser: User;
+
+      try {
+        // Step 1: Create user in Supabase Auth with the chosen password
+        const { data: authData, error: authError } = await supabaseAdmin.auth.admin.createUser({
+          email,
+          password: acceptData.password,
+          email_confirm: true, // The invitation link proves the email
+        });
+
+        if (authError) {
+          logger.error('Failed to create user in Supabase Auth:', {
+            error: authError.message,
+            email,
+          });
+          throw new Error(authError.message);
+        }
+
+        if (!authData.user) {
+          logger.error('No user data returned from Supabase Auth creation', { email });
+          throw new Error('Failed to create user in authentication system');
+        }
+
+        authUserId = authData.user.id;
+
+        // Step 2: Create user in our system
+        const { data: systemUser, error: systemError } = await supabaseAdmin
+          .from('users')
+          .insert({
+            name,
+            email,
+            profile_id,
+            status: 'active',
+            auth_user_id: authUserId,
+          })
+          .select()
+          .single();
+
+        if (systemError) {
+          logger.error('Failed to create user in system:', { error: systemError.message, email });
+          throw new Error(systemError.message);
+        }
+
+        createdUser = systemUser;
+      } catch (provisionError) {
+        // Cleanup: Remove user from Supabase Auth and reopen the invitation
+        if (authUserId) {
+          logger.warn('Cleaning up Supabase Auth user due to system creation failure', { email });
+          await supabaseAdmin.auth.admin.deleteUser(authUserId);
+        }
+
+        await invitationService.release(invitation.id);
+        throw provisionError;
+      }
+
+      await invitationService.linkUser(invitation.id, createdUser.id);
+      await passwordPolicyService.recordPassword(createdUser.id, acceptData.password);
+
+      logger.info('Invitation accepted, user created:', {
+        userId: createdUser.id,
+        invitationId: invitation.id,
+        email,
+      });
+
+      return createdUser;
+    } catch (error) {
+      logger.error('Invitation acceptance failed:', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        invitationId: invitation.id,
+        email 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List invitations that are still pending (including expired ones)
+   */
+  async listInvitations(): Promise<Invitation[]> {
+    return invitationService.listPending();
+  }
+
+  /**
+   * Issue a fresh link for a pending invitation
+   */
+  async resendInvitation(invitationId: string): Promise<InvitationResponse> {
+    const result = await invitationService.resend(invitationId);
+    this.sendInvitationEmail(result);
+
+    return result;
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revokeInvitation(invitationId: string): Promise<void> {
+    await invitationService.revoke(invitationId);
+  }
+
+  /**
+   * Update user status and ban or unban the user in Supabase Auth
+   */
+  async updateUserStatus(
+    userId: string,
+    statusData: UpdateUserStatusRequest
+  ): Promise<UpdateUserStatusResponse> {
+    const { status } = statusData;
+
+    try {
+      logger.info('Updating user status', { userId, status });
+
+      // Step 1: Update status in our system
+      const { data: updatedUser, error: updateError } = await supabaseAdmin
+        .from('users')
+        .update({ status })
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (updateError) {
+        logger.error('Failed to update user status:', { error: updateError.message, userId });
+        throw new Error(updateError.message);
+      }
+
+      if (!updatedUser) {
+        logger.error('User not found for status update:', { userId });
+        throw new Error('User not found');
+      }
+
+      // The next request of this user must see the new status
+      userStatusService.invalidate(userId);
+
+      // Step 2: Deactivated users must not keep using already issued tokens
+      if (status === 'inactive') {
+        await this.revokeUserTokens(userId);
+        mailService.send(updatedUser.email, 'account_deactivated', { name: updatedUser.name });
+      }
+
+      // Step 3: Ban or unban in Supabase Auth, retried in the background if it fails
+      const authSync = await authIdentityService.syncStatus(
+        userId,
+        updatedUser.auth_user_id,
+        updatedUser.auth_source,
+        status
+      );
+
+      logger.info('User status updated successfully:', {
+        userId,
+        status,
+        authSync: authSync.status,
+      });
+      return { user: updatedUser, authSync };
+
+    } catch (error) {
+      logger.error('User status update failed:', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        userId 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a user or move it to another profile (Admin)
+   */
+  async updateUser(userId: string, updateData: UpdateUserRequest): Promise<User> {
+    try {
+      logger.info('Updating user', { userId, fields: Object.keys(updateData) });
+
+      const { data: currentUser, error: fetchError } = await supabaseAdmin
+        .from('users')
+        .select('id, profile_id, profiles(name)')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to fetch user for update:', { error: fetchError.message, userId });
+        throw new Error('Failed to update user');
+      }
+
+      if (!currentUser) {
+        throw new Error('User not found');
+      }
+
+      const newProfileId = updateData.profile_id;
+      const profileChanged = !!newProfileId && newProfileId !== currentUser.profile_id;
+
+      if (profileChanged) {
+        const { data: profile, error: profileError } = await supabaseAdmin
+          .from('profiles')
+          .select('name')
+          .eq('id', newProfileId)
+          .maybeSingle();
+
+        if (profileError) {
+          logger.error('Failed to fetch profile for user update:', {
+            error: profileError.message,
+            userId,
+          });
+          throw new Error('Failed to update user');
+        }
+
+        if (!profile) {
+          throw new Error('Profile not found');
+        }
+
+        if ((currentUser.profiles as any)?.name === 'admin' && profile.name !== 'admin') {
+          await this.assertNotLastAdmin(userId);
+        }
+      }
+
+      const { data: updatedUser, error: updateError } = await supabaseAdmin
+        .from('users')
+        .update(updateData)
+        .eq('id', userId)
+        .select()
+        .single();
+
+      if (updateError || !updatedUser) {
+        logger.error('Failed to update user:', { error: updateError?.message, userId });
+        throw new Error('Failed to update user');
+      }
+
+      if (profileChanged) {
+        // The next request of this user must see the new profile
+        userStatusService.invalidate(userId);
+
+        // Without the live check tokens keep their profile until they expire, refresh loads the new one
+        if (!config.userStatus.check) {
+          await tokenRevocationService.revokeAllForUser(userId);
+        }
+      }
+
+      logger.info('User updated successfully', { userId, profileChanged });
+      return updatedUser;
+    } catch (error) {
+      logger.error('User update failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a user, its Supabase Auth account and, by choice, reassign or delete its projects (Admin)
+   * The Supabase Auth account is banned first; the ban and the project changes are undone when
+   * the user row cannot be deleted, the account deletion itself is retried in the background
+   */
+  async deleteUser(
+    adminId: string,
+    userId: string,
+    deleteData: DeleteUserRequest
+  ): Promise<DeleteUserResponse> {
+    const { projects: action, reassign_to: reassignTo } = deleteData;
+
+    try {
+      logger.info('Deleting user', { userId, adminId, projects: action, reassignTo });
+
+      if (userId === adminId) {
+        throw new Error('Cannot delete yourself');
+      }
+
+      const { data: user, error: fetchError } = await supabaseAdmin
+        .from('users')
+        .select('id, email, auth_user_id, auth_source, profiles(name)')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Failed to fetch user for deletion:', { error: fetchError.message, userId });
+        throw new Error('Failed to delete user');
+      }
+
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      if ((user.profiles as any)?.name === 'admin') {
+        await this.assertNotLastAdmin(userId);
+      }
+
+      if (action === 'reassign') {
+        if (!reassignTo) {
+          throw new Error('reassign_to is required to reassign projects');
+        }
+
+        if (reassignTo === userId) {
+          throw new Error('Cannot reassign projects to the deleted user');
+        }
+
+        const { data: target, error: targetError } = await supabaseAdmin
+          .from('users')
+          .select('id')
+          .eq('id', reassignTo)
+          .maybeSingle();
+
+        if (targetError) {
+          logger.error('Failed to fetch reassignment target:', {
+            error: targetError.message,
+            reassignTo,
+          });
+          throw new Error('Failed to delete user');
+        }
+
+        if (!target) {
+          throw new Error('Reassignment target not found');
+        }
+      }
+
+      // Step 1: Ban the Supabase Auth account so the user cannot sign in while the deletion runs
+      const authUser = user.auth_user_id
+        ? await authIdentityService.getAuthUser(user.auth_user_id)
+        : null;
+      const wasBanned = !!authUser && authIdentityService.isBanned(authUser);
+
+      if (authUser && !wasBanned) {
+        await authIdentityService.setBanned(authUser.id, true);
+      }
+
+      // Step 2: Reassign or delete projects, keeping what is needed to undo it
+      let projectIds: string[] = [];
+      let deletedProjects: Record<string, unknown>[] = [];
+
+      try {
+        if (action === 'reassign') {
+          const { data: moved, error: moveError } = await supabaseAdmin
+            .from('projects')
+            .update({ user_id: reassignTo })
+            .eq('user_id', userId)
+            .select('id');
+
+          if (moveError) {
+            logger.error('Failed to reassign projects:', {
+              error: moveError.message,
+              userId,
+              reassignTo,
+            });
+            throw new Error('Failed to reassign projects');
+          }
+
+          projectIds = (moved || []).map(project => project.id);
+        } else {
+          const { data: removed, error: removeError } = await supabaseAdmin
+            .from('projects')
+            .delete()
+            .eq('user_id', userId)
+            .select('*');
+
+          if (removeError) {
+            logger.error('Failed to delete projects:', { error: removeError.message, userId });
+            throw new Error('Failed to delete projects');
+          }
+
+          deletedProjects = removed || [];
+          projectIds = deletedProjects.map(project => project.id as string);
+        }
+
+        // Step 3: Delete the user, sessions, refresh tokens, API keys and MFA cascade
+        const { error: deleteError } = await supabaseAdmin.from('users').delete().eq('id', userId);
+
+        if (deleteError) {
+          logger.error('Failed to delete user in system:', { error: deleteError.message, userId });
+          throw new Error('Failed to delete user');
+        }
+      } catch (deletionError) {
+        // Cleanup: Put projects back and restore the previous ban state
+        logger.warn('Restoring projects and Supabase Auth ban after failed user deletion', {
+          userId,
+        });
+
+        if (action === 'reassign' && projectIds.length > 0) {
+          const { error: restoreError } = await supabaseAdmin
+            .from('projects')
+            .update({ user_id: userId })
+            .in('id', projectIds);
+
+          if (restoreError) {
+            logger.error('Failed to restore reassigned projects:', {
+              error: restoreError.message,
+              userId,
+              projectIds,
+            });
+          }
+        }
+
+        if (deletedProjects.length > 0) {
+          const { error: restoreError } = await supabaseAdmin
+            .from('projects')
+            .insert(deletedProjects);
+
+          if (restoreError) {
+            logger.error('Failed to restore deleted projects:', {
+              error: restoreError.message,
+              userId,
+              projectIds,
+            });
+          }
+        }
+
+        if (authUser && !wasBanned) {
+          await authIdentityService.setBanned(authUser.id, false).catch(() => undefined);
+        }
+
+        throw deletionError;
+      }
+
+      // Step 4: Tokens already issued stop working on their next request
+      await tokenRevocationService.revokeAllForUser(userId);
+      userStatusService.invalidate(userId);
+
+      // Step 5: Delete the Supabase Auth account, retried in the background if it fails
+      const authSync = await authIdentityService.deleteAccount(
+        userId,
+        authUser ? authUser.id : null,
+        user.auth_source
+      );
+
+      logger.info('User deleted successfully', {
+        userId,
+        adminId,
+        projects: action,
+        projectCount: projectIds.length,
+        authSync: authSync.status,
+      });
+
+      return {
+        user: { id: user.id, email: user.email },
+        projects: {
+          action,
+          count: projectIds.length,
+          ...(action === 'reassign' && { reassigned_to: reassignTo }),
+        },
+        authSync,
+      };
+    } catch (error) {
+      logger.error('User deletion failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear failed login attempts and lift a lockout (Admin)
+   */
+  async unlockUser(userId: string): Promise<void> {
+    try {
+      logger.info('Unlocking user login', { userId });
+
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .eq('id', userId)
+        .single();
+
+      if (error || !user) {
+        logger.error('User not found for unlock:', { error: error?.message, userId });
+        throw new Error('User not found');
+      }
+
+      await loginAttemptService.reset(user.email);
+      await loginAttemptService.resetMfa(userId);
+
+      logger.info('User login unlocked', { userId, email: user.email });
+    } catch (error) {
+      logger.error('User unlock failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change any user password in Supabase Auth (admin override of changeOwnPassword)
+   */
+  async changePassword(passwordData: ChangePasswordRequest): Promise<void> {
+    const { email, newPassword } = passwordData;
+
+    try {
+      logger.info('Changing user password', { email });
+
+      const { data: systemUser } = await supabaseAdmin
+        .from('users')
+        .select('id, name, auth_user_id')
+        .eq('email', email)
+        .maybeSingle();
+
+      await passwordPolicyService.assertValid(newPassword, {
+        userId: systemUser?.id,
+        name: systemUser?.name,
+        email,
+      });
+
+      // Find user in Supabase Auth
+      const authUser = systemUser?.auth_user_id
+        ? await authIdentityService.getAuthUser(systemUser.auth_user_id)
+        : null;
+
+      if (!authUser) {
+        logger.error('User not found in Supabase Auth for password change:', { email });
+        throw new Error('User not found in authentication system');
+      }
+
+      // Update password
+      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(authUser.id, {
+        password: newPassword,
+      });
+
+      if (updateError) {
+        logger.error('Failed to update password in Supabase Auth:', { error: updateError.message, email });
+        throw new Error(updateError.message);
+      }
+
+      if (systemUser) {
+        await passwordPolicyService.recordPassword(systemUser.id, newPassword);
+      }
+
+      mailService.send(email, 'password_changed', {
+        name: systemUser?.name,
+        changedAt: new Date().toISOString(),
+      });
+
+      logger.info('Password changed successfully:', { email });
+
+    } catch (error) {
+      logger.error('Password change failed:', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        email 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the password of the current user after re-verifying the current one
+   * Every other session of the user is signed out
+   */
+  async changeOwnPassword(user: JWTPayload, passwordData: ChangeOwnPasswordRequest): Promise<void> {
+    const { email } = user;
+
+    try {
+      logger.info('Self-service password change', { userId: user.id });
+
+      if (!email) {
+        throw new Error('Password change is only available to user accounts');
+      }
+
+      // Re-verification is a password check, so it shares the login lockout
+      await loginAttemptService.assertNotLocked(email);
+
+      const { data: authData, error: authError } = await supabasePublic.auth.signInWithPassword({
+        email,
+        password: passwordData.currentPassword,
+      });
+
+      if (authError || !authData.user) {
+        logger.warn('Current password verification failed', {
+          userId: user.id,
+          error: authError?.message,
+        });
+
+        if (authError?.message.includes('Invalid login credentials')) {
+          await loginAttemptService.recordFailure(email);
+          throw new Error('Current password is incorrect');
+        }
+
+        throw new Error(authError?.message || 'Authentication failed');
+      }
+
+      await loginAttemptService.reset(email);
+      await supabasePublic.auth.signOut();
+
+      const userWithProfile = await this.getUserWithProfile('id', user.id);
+
+      await passwordPolicyService.assertValid(passwordData.newPassword, {
+        userId: user.id,
+        name: userWithProfile.name,
+        email,
+      });
+
+      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
+        authData.user.id,
+        {
+          password: passwordData.newPassword,
+        }
+      );
+
+      if (updateError) {
+        logger.error('Failed to update password in Supabase Auth:', {
+          error: updateError.message,
+          userId: user.id,
+        });
+        throw new Error(updateError.message);
+      }
+
+      await passwordPolicyService.recordPassword(user.id, passwordData.newPassword);
+      await sessionService.revokeAllForUser(user.id, user.sid);
+
+      mailService.send(email, 'password_changed', {
+        name: userWithProfile.name,
+        changedAt: new Date().toISOString(),
+      });
+
+      logger.info('Password changed by user, other sessions revoked', { userId: user.id });
+    } catch (error) {
+      logger.error('Self-service password change failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: user.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Request password reset email
+   */
+  async resetPassword(resetData: ResetPasswordRequest): Promise<void> {
+    const { email } = resetData;
+
+    try {
+      logger.info('Password reset requested', { email });
+
+      // generateLink only creates the recovery token, delivery goes through our mailer
+      const { data: linkData, error } = await supabaseAdmin.auth.admin.generateLink({
+        type: 'recovery',
+        email,
+      });
+
+      if (error) {
+        logger.error('Failed to generate password reset link:', { error: error.message, email });
+        throw new Error(error.message);
+      }
+
+      const { data: systemUser } = await supabaseAdmin
+        .from('users')
+        .select('name')
+        .eq('email', email)
+        .maybeSingle();
+
+      const resetUrl = new URL(config.passwordReset.redirectUrl);
+      resetUrl.searchParams.set('token_hash', linkData.properties.hashed_token);
+
+      mailService.send(email, 'password_reset', {
+        name: systemUser?.name,
+        resetUrl: resetUrl.toString(),
+      });
+
+      logger.info('Password reset email queued:', { email });
+
+    } catch (error) {
+      logger.error('Password reset failed:', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        email 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a new password from a Supabase recovery link
+   * Signs the user out everywhere, like an admin token revocation
+   */
+  async confirmPasswordReset(confirmData: ConfirmPasswordResetRequest): Promise<void> {
+    try {
+      logger.info('Password reset confirmation attempt');
+
+      // Rules that do not depend on the user are checked before the single-use link is consumed
+      await passwordPolicyService.assertValid(confirmData.newPassword);
+
+      const { data: authData, error: authError } = await supabasePublic.auth.verifyOtp({
+        token_hash: confirmData.tokenHash,
+        type: 'recovery',
+      });
+
+      if (authError || !authData.user?.email) {
+        logger.warn('Invalid password reset link:', { error: authError?.message });
+        throw new Error('Invalid or expired password reset link');
+      }
+
+      await supabasePublic.auth.signOut();
+
+      const userWithProfile = await this.getUserWithProfile('email', authData.user.email);
+
+      await passwordPolicyService.assertValid(confirmData.newPassword, {
+        userId: userWithProfile.id,
+        name: userWithProfile.name,
+        email: userWithProfile.email,
+      });
+
+      const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
+        authData.user.id,
+        {
+          password: confirmData.newPassword,
+        }
+      );
+
+      if (updateError) {
+        logger.error('Failed to update password in Supabase Auth:', {
+          error: updateError.message,
+          userId: userWithProfile.id,
+        });
+        throw new Error(updateError.message);
+      }
+
+      await passwordPolicyService.recordPassword(userWithProfile.id, confirmData.newPassword);
+      await this.revokeUserTokens(userWithProfile.id);
+
+      mailService.send(userWithProfile.email, 'password_changed', {
+        name: userWithProfile.name,
+        changedAt: new Date().toISOString(),
+      });
+
+      logger.info('Password reset completed', { userId: userWithProfile.id });
+    } catch (error) {
+      logger.error('Password reset confirmation failed:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the Supabase Auth ID of users created before it was recorded (Admin)
+   */
+  async backfillAuthUserIds(): Promise<AuthUserIdBackfillResult> {
+    return authIdentityService.backfillAuthUserIds();
+  }
+
+  /**
+   * Check synchronization between our system and Supabase Auth
+   */
+  async checkSync(syncData: CheckSyncRequest): Promise<{ exists: boolean; status: string }> {
+    const { email } = syncData;
+
+    try {
+      logger.info('Checking user synchronization', { email });
+
+      // Check user in our system
+      const { data: systemUser, error: systemError } = await supabaseAdmin
+        .from('users')
+        .select('status, auth_user_id, auth_source')
+        .eq('email', email)
+        .single();
+
+      if (systemError || !systemUser) {
+        logger.info('User not found in system:', { email });
+        return { exists: false, status: 'not_found' };
+      }
+
+      if (!systemUser.auth_user_id && systemUser.auth_source === 'sso') {
+        logger.info('User signs in through SSO only, no Supabase Auth account to check:', {
+          email,
+        });
+        return { exists: true, status: 'sso_only' };
+      }
+
+      if (!systemUser.auth_user_id) {
+        logger.warn('User not linked to Supabase Auth:', { email });
+        return { exists: true, status: 'auth_unlinked' };
+      }
+
+      // Check user in Supabase Auth
+      let authUser;
+
+      try {
+        authUser = await authIdentityService.getAuthUser(systemUser.auth_user_id);
+      } catch (authError) {
+        logger.warn('Failed to check Supabase Auth for sync:', {
+          error: authError instanceof Error ? authError.message : 'Unknown error',
+        });
+        return { exists: true, status: systemUser.status };
+      }
+
+      if (!authUser) {
+        logger.warn('User found in system but not in Supabase Auth:', { email });
+        return { exists: true, status: 'auth_missing' };
+      }
+
+      logger.info('User synchronization checked:', { email, systemStatus: systemUser.status });
+      return { exists: true, status: systemUser.status };
+
+    } catch (error) {
+      logger.error('Sync check failed:', { 
+        error: error instanceof Error ? error.message : 'Unknown error', 
+        email 
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Email the invitation link, delivery failures never fail the invitation itself
+   */
+  private sendInvitationEmail({ invitation, inviteUrl }: InvitationResponse): void {
+    mailService.send(invitation.email, 'invite', {
+      name: invitation.name,
+      inviteUrl,
+      expiresAt: invitation.expires_at,
+    });
+  }
+
+  /**
+   * Find the users row of a Supabase Auth account: by auth_user_id, then an unlinked row with the same
+   * confirmed email (linked on the way), then a new row when auto-provisioning is enabled
+   */
+  private async resolveAuthAccountUser(authUser: AuthUser): Promise<UserWithProfile> {
+    const { data: linkedUser, error: linkedError } = await supabaseAdmin
+      .from('users')
+      .select('id')
+      .eq('auth_user_id', authUser.id)
+      .maybeSingle();
+
+    if (linkedError) {
+      logger.error('Failed to look up user by auth ID:', {
+        error: linkedError.message,
+        authUserId: authUser.id,
+      });
+      throw new Error('Failed to look up user');
+    }
+
+    if (linkedUser) {
+      return this.getUserWithProfile('id', linkedUser.id);
+    }
+
+    // An unconfirmed email does not prove ownership of the account it matches
+    if (!authUser.email || !authUser.email_confirmed_at) {
+      logger.warn('Supabase Auth account without confirmed email', { authUserId: authUser.id });
+      throw new Error('User not provisioned');
+    }
+
+    const { data: emailUser, error: emailError } = await supabaseAdmin
+      .from('users')
+      .select('id, auth_user_id')
+      .eq('email', authUser.email)
+      .maybeSingle();
+
+    if (emailError) {
+      logger.error('Failed to look up user by email:', {
+        error: emailError.message,
+        email: authUser.email,
+      });
+      throw new Error('Failed to look up user');
+    }
+
+    if (emailUser) {
+      if (emailUser.auth_user_id) {
+        logger.warn('Email belongs to a user linked to another Supabase Auth account', {
+          userId: emailUser.id,
+          authUserId: authUser.id,
+        });
+        throw new Error('User not provisioned');
+      }
+
+      const { error: linkError } = await supabaseAdmin
+        .from('users')
+        .update({ auth_user_id: authUser.id })
+        .eq('id', emailUser.id)
+        .is('auth_user_id', null);
+
+      if (linkError) {
+        logger.error('Failed to link user to Supabase Auth account:', {
+          error: linkError.message,
+          userId: emailUser.id,
+        });
+        throw new Error('Failed to look up user');
+      }
+
+      logger.info('User linked to Supabase Auth account on token exchange', {
+        userId: emailUser.id,
+        authUserId: authUser.id,
+      });
+
+      return this.getUserWithProfile('id', emailUser.id);
+    }
+
+    if (!config.tokenExchange.autoProvision) {
+      logger.warn('Supabase Auth account has no user in system', {
+        authUserId: authUser.id,
+        email: authUser.email,
+      });
+      throw new Error('User not provisioned');
+    }
+
+    return this.provisionAuthAccountUser(authUser, authUser.email);
+  }
+
+  /**
+   * Create the users row of a Supabase Auth account with the TOKEN_EXCHANGE_DEFAULT_PROFILE profile
+   */
+  private async provisionAuthAccountUser(
+    authUser: AuthUser,
+    email: string
+  ): Promise<UserWithProfile> {
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('name', config.tokenExchange.defaultProfile)
+      .maybeSingle();
+
+    if (profileError || !profile) {
+      logger.error('Auto-provisioning profile not found:', {
+        error: profileError?.message,
+        profile: config.tokenExchange.defaultProfile,
+      });
+      throw new Error('Failed to provision user');
+    }
+
+    // Social providers put the display name in user_metadata
+    const metadata = authUser.user_metadata || {};
+    const name = metadata.full_name || metadata.name || email.split('@')[0];
+
+    const { data: createdUser, error: createError } = await supabaseAdmin
+      .from('users')
+      .insert({
+        name,
+        email,
+        profile_id: profile.id,
+        status: 'active',
+        auth_user_id: authUser.id,
+      })
+      .select('id')
+      .single();
+
+    if (createError || !createdUser) {
+      logger.error('Failed to provision user:', { error: createError?.message, email });
+      throw new Error('Failed to provision user');
+    }
+
+    logger.info('User auto-provisioned from Supabase Auth account', {
+      userId: createdUser.id,
+      authUserId: authUser.id,
+      email,
+      profile: config.tokenExchange.defaultProfile,
+    });
+
+    return this.getUserWithProfile('id', createdUser.id);
+  }
+
+  /**
+   * Find the user of an IdP identity: by a previous link, then by verified email (linked on the way),
+   * then a new user when the provider auto-provisions
+   */
+  private async resolveSsoUser(identity: SsoIdentity): Promise<UserWithProfile> {
+    const provider = ssoService.getProvider(identity.provider);
+    const profileName = ssoService.resolveProfileName(provider, identity);
+    let userId = await ssoService.findLinkedUserId(provider.id, identity.subject);
+
+    if (!userId) {
+      // An unverified email does not prove ownership of the account it matches
+      if (!identity.email || (provider.requireVerifiedEmail && !identity.emailVerified)) {
+        logger.warn('SSO identity without verified email', {
+          provider: provider.id,
+          subject: identity.subject,
+        });
+        throw new Error('User not provisioned');
+      }
+
+      const { data: emailUser, error: emailError } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('email', identity.email)
+        .maybeSingle();
+
+      if (emailError) {
+        logger.error('Failed to look up user by email:', {
+          error: emailError.message,
+          email: identity.email,
+        });
+        throw new Error('Failed to look up user');
+      }
+
+      if (emailUser) {
+        userId = emailUser.id as string;
+      } else if (provider.autoProvision && profileName) {
+        userId = await this.provisionSsoUser(identity, identity.email, profileName);
+      } else {
+        logger.warn('SSO identity has no user in system', {
+          provider: provider.id,
+          email: identity.email,
+        });
+        throw new Error('User not provisioned');
+      }
+    }
+
+    await ssoService.linkIdentity(identity, userId);
+
+    if (provider.syncProfile && profileName) {
+      await this.syncSsoProfile(userId, profileName);
+    }
+
+    return this.getUserWithProfile('id', userId);
+  }
+
+  /**
+   * Create the users row of an IdP identity, it has no Supabase Auth account and signs in through SSO only
+   */
+  private async provisionSsoUser(
+    identity: SsoIdentity,
+    email: string,
+    profileName: string
+  ): Promise<string> {
+    const profileId = await this.findProfileIdByName(profileName);
+
+    const { data: createdUser, error: createError } = await supabaseAdmin
+      .from('users')
+      .insert({
+        name: identity.name || email.split('@')[0],
+        email,
+        profile_id: profileId,
+        status: 'active',
+        auth_source: 'sso',
+      })
+      .select('id')
+      .single();
+
+    if (createError || !createdUser) {
+      logger.error('Failed to provision user:', { error: createError?.message, email });
+      throw new Error('Failed to provision user');
+    }
+
+    logger.info('User auto-provisioned from SSO identity', {
+      userId: createdUser.id,
+      provider: identity.provider,
+      email,
+      profile: profileName,
+    });
+
+    return createdUser.id;
+  }
+
+  /**
+   * Move a user to the profile mapped from the IdP claims when it changed there
+   */
+  private async syncSsoProfile(userId: string, profileName: string): Promise<void> {
+    const profileId = await this.findProfileIdByName(profileName);
+
+    const { data: updated, error } = await supabaseAdmin
+      .from('users')
+      .update({ profile_id: profileId })
+      .eq('id', userId)
+      .neq('profile_id', profileId)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to sync profile from SSO claims:', {
+        error: error.message,
+        userId,
+        profile: profileName,
+      });
+      throw new Error('Failed to sync profile');
+    }
+
+    if (updated && updated.length > 0) {
+      // Tokens already issued pick up the new profile on their next request
+      userStatusService.invalidate(userId);
+      logger.info('User profile synced from SSO claims', { userId, profile: profileName });
+    }
+  }
+
+  private async findProfileIdByName(profileName: string): Promise<string> {
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('name', profileName)
+      .maybeSingle();
+
+    if (error || !profile) {
+      logger.error('Profile not found:', { error: error?.message, profile: profileName });
+      throw new Error('Profile not found');
+    }
+
+    return profile.id;
+  }
+
+  /**
+   * Refuse to demote or delete the only active admin, nobody could manage users afterwards
+   */
+  private async assertNotLastAdmin(userId: string): Promise<void> {
+    const { count, error } = await supabaseAdmin
+      .from('users')
+      .select('id, profiles!inner(name)', { count: 'exact', head: true })
+      .eq('profiles.name', 'admin')
+      .eq('status', 'active')
+      .neq('id', userId);
+
+    if (error) {
+      logger.error('Failed to count admins:', { error: error.message });
+      throw new Error('Failed to count admins');
+    }
+
+    if (!count) {
+      logger.warn('Refused to remove the last admin', { userId });
+      throw new Error('Cannot remove the last admin');
+    }
+  }
+
+  /**
+   * Load an active user from our system together with its profile name
+   */
+  private async getUserWithProfile(field: 'id' | 'email', value: string): Promise<UserWithProfile> {
+    const { data: userData, error: userError } = await supabaseAdmin
+      .from('users')
+      .select(
+        `
+        id,
+        name,
+        email,
+        status,
+        profile_id,
+        auth_user_id,
+        auth_source,
+        created_at,
+        profiles(name)
+      `
+      )
+      .eq(field, value)
+      .single();
+
+    if (userError) {
+      logger.error('Failed to fetch user data:', { error: userError.message, [field]: value });
+      throw new Error('User not found in system. Please contact administrator.');
+    }
+
+    if (!userData) {
+      logger.error('User not found in system:', { [field]: value });
+      throw new Error('User not found in system. Please contact administrator.');
+    }
+
+    if (userData.status !== 'active') {
+      logger.warn('Inactive user login attempt:', { [field]: value, status: userData.status });
+      throw new Error('User lookup failed');
+    }
+
+    return {
+      id: userData.id,
+      name: userData.name,
+      email: userData.email,
+      status: userData.status,
+      profile_id: userData.profile_id,
+      profile_name: (userData.profiles as any)?.name || 'user',
+      auth_user_id: userData.auth_user_id,
+      auth_source: userData.auth_source,
+      created_at: userData.created_at,
+    };
+  }
+
+  /**
+   * Sign the custom JWT carrying the profile data used for access control
+   */
+  private signAccessToken(user: UserWithProfile, sessionId?: string): string {
+    const payload = {
+      id: user.id,
+      email: user.email,
+      profile_id: user.profile_id,
+      profile_name: user.profile_name,
+      ...(sessionId && { sid: sessionId }),
+    };
+
+    return jwtService.sign(payload, {
+      expiresIn: config.jwt.expiresIn,
+      jwtid: crypto.randomUUID(),
+    });
+  }
+
+  /**
+   * Final login step shared by every primary factor: MFA challenge or session tokens
+   */
+  private async completeLogin(
+    user: UserWithProfile,
+    context: RequestContext,
+    method: LoginMethod
+  ): Promise<LoginResponse | MfaChallengeResponse> {
+    // Require a second factor when enabled for the user or mandatory for the profile
+    const mfaRequirement = await mfaService.getLoginRequirement(user.id, user.profile_id);
+
+    if (mfaRequirement !== 'none') {
+      logger.info('Login requires MFA', { userId: user.id, mfaRequirement, method });
+      return this.issueMfaChallenge(user, mfaRequirement, method);
+    }
+
+    // Start a session and generate custom JWT and refresh token
+    const tokens = await this.issueTokens(user, context, { method, mfa: false });
+
+    logger.info('Login successful', {
+      userId: user.id,
+      email: user.email,
+      profile: user.profile_name,
+      method,
+    });
+
+    return {
+      ...tokens,
+      user,
+    };
+  }
+
+  /**
+   * Start a session and issue its access token and first refresh token, recorded in the login history
+   * The session ID is used as the refresh token family ID
+   */
+  private async issueTokens(
+    user: UserWithProfile,
+    context: RequestContext,
+    login: { method: LoginMethod; mfa: boolean }
+  ): Promise<{ token: string; refreshToken: string }> {
+    const session = await sessionService.create(user.id, context);
+    const token = this.signAccessToken(user, session.id);
+    const refreshToken = await refreshTokenService.issue(user.id, session.id);
+
+    loginEventService.recordSuccess(user, { ...login, sessionId: session.id }, context);
+
+    return { token, refreshToken };
+  }
+
+  /**
+   * Issue the short-lived challenge token returned instead of a full JWT
+   */
+  private issueMfaChallenge(
+    user: UserWithProfile,
+    requirement: 'verify' | 'enroll',
+    method: LoginMethod
+  ): MfaChallengeResponse {
+    const payload = {
+      id: user.id,
+      email: user.email,
+      profile_id: user.profile_id,
+      profile_name: user.profile_name,
+      token_use: requirement === 'verify' ? 'mfa_pending' : 'mfa_enroll',
+      login_method: method,
+    };
+
+    const challengeToken = jwtService.sign(payload, {
+      expiresIn: config.mfa.challengeExpiresIn,
+      jwtid: crypto.randomUUID(),
+    });
+
+    return {
+      mfaRequired: true,
+      mfaEnrollmentRequired: requirement === 'enroll',
+      challengeToken,
+    };
+  }
+
+  /**
+   * Record a rejected login attempt in the login history
+   */
+  private recordLoginFailure(
+    method: LoginMethod,
+    error: unknown,
+    context: RequestContext,
+    identity: { email?: string; userId?: string }
+  ): void {
+    loginEventService.recordFailure(
+      {
+        method,
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        ...identity,
+      },
+      context
+    );
+  }
+
+  /**
+   * Verify an MFA challenge token and make sure it was not used already
+   */
+  private async verifyMfaChallenge(
+    challengeToken: string,
+    tokenUse: TokenUse
+  ): Promise<JWTPayload & { jti: string; exp: number }> {
+    let challenge: JWTPayload;
+
+    try {
+      challenge = jwtService.verify<JWTPayload>(challengeToken);
+    } catch (jwtError) {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    const { jti, exp } = challenge;
+
+    if (challenge.token_use !== tokenUse || !jti || !exp) {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    if (await tokenRevocationService.isRevoked(challenge)) {
+      throw new Error('Invalid or expired MFA challenge');
+    }
+
+    return { ...challenge, jti, exp };
   }
 }
 
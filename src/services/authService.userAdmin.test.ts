@@ -0,0 +1,159 @@
+import { supabaseAdmin } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+describe('authService user administration', () => {
+  const db = useSupabaseFake();
+  let updateUserById: jest.SpyInstance;
+  let deleteAuthUser: jest.SpyInstance;
+
+  beforeEach(() => {
+    tokenRevocationService.useStore(new InMemoryTokenRevocationStore());
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+    db.seed('users', [
+      {
+        id: 'admin-1',
+        name: 'Admin',
+        email: 'admin@example.com',
+        status: 'active',
+        profile_id: 'profile-admin',
+        auth_user_id: null,
+        auth_source: 'supabase',
+      },
+      {
+        id: 'user-1',
+        name: 'User',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: 'auth-1',
+        auth_source: 'supabase',
+      },
+      {
+        id: 'user-2',
+        name: 'Colleague',
+        email: 'colleague@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: null,
+        auth_source: 'supabase',
+      },
+    ]);
+    db.seed('projects', [
+      { id: 'project-1', user_id: 'user-1', name: 'First' },
+      { id: 'project-2', user_id: 'user-1', name: 'Second' },
+      { id: 'project-3', user_id: 'user-2', name: 'Other' },
+    ]);
+
+    jest
+      .spyOn(supabaseAdmin.auth.admin, 'getUserById')
+      .mockResolvedValue({ data: { user: { id: 'auth-1' } }, error: null } as any);
+    updateUserById = jest
+      .spyOn(supabaseAdmin.auth.admin, 'updateUserById')
+      .mockResolvedValue({ data: { user: null }, error: null } as any);
+    deleteAuthUser = jest
+      .spyOn(supabaseAdmin.auth.admin, 'deleteUser')
+      .mockResolvedValue({ data: { user: null }, error: null } as any);
+  });
+
+  const owners = () => db.rows('projects').map(project => [project.id, project.user_id]);
+
+  describe('updateUser', () => {
+    it('changes the profile of a user', async () => {
+      await expect(
+        authService.updateUser('user-1', { name: 'Renamed', profile_id: 'profile-admin' })
+      ).resolves.toMatchObject({ id: 'user-1', name: 'Renamed', profile_id: 'profile-admin' });
+    });
+
+    it('refuses unknown users and profiles', async () => {
+      await expect(authService.updateUser('missing', { name: 'Nobody' })).rejects.toThrow(
+        'User not found'
+      );
+      await expect(
+        authService.updateUser('user-1', { profile_id: 'profile-missing' })
+      ).rejects.toThrow('Profile not found');
+    });
+
+    it('never demotes the last active admin', async () => {
+      await expect(
+        authService.updateUser('admin-1', { profile_id: 'profile-user' })
+      ).rejects.toThrow('Cannot remove the last admin');
+      expect(db.rows('users')[0].profile_id).toBe('profile-admin');
+
+      // An inactive admin does not count
+      db.seed('users', [{ id: 'admin-2', status: 'inactive', profile_id: 'profile-admin' }]);
+      await expect(
+        authService.updateUser('admin-1', { profile_id: 'profile-user' })
+      ).rejects.toThrow('Cannot remove the last admin');
+
+      db.rows('users')[3].status = 'active';
+      await expect(
+        authService.updateUser('admin-1', { profile_id: 'profile-user' })
+      ).resolves.toMatchObject({ profile_id: 'profile-user' });
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('reassigns the projects, deletes the user and its Supabase Auth account', async () => {
+      const issuedAt = Math.floor(Date.now() / 1000);
+
+      await expect(
+        authService.deleteUser('admin-1', 'user-1', { projects: 'reassign', reassign_to: 'user-2' })
+      ).resolves.toEqual({
+        user: { id: 'user-1', email: 'user@example.com' },
+        projects: { action: 'reassign', count: 2, reassigned_to: 'user-2' },
+        authSync: { status: 'synced' },
+      });
+
+      expect(owners()).toEqual([
+        ['project-1', 'user-2'],
+        ['project-2', 'user-2'],
+        ['project-3', 'user-2'],
+      ]);
+      expect(db.rows('users').map(user => user.id)).toEqual(['admin-1', 'user-2']);
+      expect(updateUserById).toHaveBeenCalledWith('auth-1', { ban_duration: '876000h' });
+      expect(deleteAuthUser).toHaveBeenCalledWith('auth-1');
+      await expect(tokenRevocationService.isRevoked({ id: 'user-1', iat: issuedAt })).resolves.toBe(
+        true
+      );
+    });
+
+    it('deletes the projects with the user', async () => {
+      await expect(
+        authService.deleteUser('admin-1', 'user-1', { projects: 'delete' })
+      ).resolves.toMatchObject({ projects: { action: 'delete', count: 2 } });
+
+      expect(owners()).toEqual([['project-3', 'user-2']]);
+    });
+
+    it('validates the request before changing anything', async () => {
+      await expect(
+        authService.deleteUser('admin-1', 'admin-1', { projects: 'delete' })
+      ).rejects.toThrow('Cannot delete yourself');
+      await expect(
+        authService.deleteUser('user-1', 'admin-1', { projects: 'delete' })
+      ).rejects.toThrow('Cannot remove the last admin');
+      await expect(
+        authService.deleteUser('admin-1', 'missing', { projects: 'delete' })
+      ).rejects.toThrow('User not found');
+      await expect(
+        authService.deleteUser('admin-1', 'user-1', { projects: 'reassign', reassign_to: 'user-1' })
+      ).rejects.toThrow('Cannot reassign projects to the deleted user');
+      await expect(
+        authService.deleteUser('admin-1', 'user-1', {
+          projects: 'reassign',
+          reassign_to: 'missing',
+        })
+      ).rejects.toThrow('Reassignment target not found');
+
+      expect(db.rows('users')).toHaveLength(3);
+      expect(db.rows('projects')).toHaveLength(3);
+      expect(updateUserById).not.toHaveBeenCalled();
+      expect(deleteAuthUser).not.toHaveBeenCalled();
+    });
+  });
+});
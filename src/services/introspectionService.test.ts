@@ -0,0 +1,185 @@
+import { authController } from '../controllers/authController';
+import { runMiddleware } from '../test/http';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { apiKeyService } from './apiKeyService';
+import { introspectionService } from './introspectionService';
+import { jwtService } from './jwtService';
+import { oauthService } from './oauthService';
+import { refreshTokenService } from './refreshTokenService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+describe('token introspection', () => {
+  const db = useSupabaseFake();
+
+  beforeEach(() => {
+    tokenRevocationService.useStore(new InMemoryTokenRevocationStore());
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+    db.seed('users', [
+      { id: 'user-1', email: 'user@example.com', status: 'active', profile_id: 'profile-user' },
+      { id: 'admin-1', email: 'admin@example.com', status: 'active', profile_id: 'profile-admin' },
+    ]);
+  });
+
+  const accessToken = (claims: object = {}) =>
+    jwtService.sign(
+      {
+        id: 'user-1',
+        email: 'user@example.com',
+        profile_id: 'profile-user',
+        profile_name: 'user',
+        token_use: 'access',
+        ...claims,
+      },
+      { expiresIn: '15m', jwtid: 'jti-1' }
+    );
+
+  describe('introspectionService', () => {
+    it('reports an access token with the current profile until it is revoked', async () => {
+      const token = accessToken();
+      db.rows('users')[0].profile_id = 'profile-admin';
+
+      await expect(introspectionService.introspect(token)).resolves.toMatchObject({
+        active: true,
+        sub: 'user-1',
+        username: 'user@example.com',
+        profile_name: 'admin',
+        token_type: 'access_token',
+        jti: 'jti-1',
+      });
+
+      await tokenRevocationService.revokeToken('jti-1', Math.floor(Date.now() / 1000) + 900);
+      await expect(introspectionService.introspect(token)).resolves.toEqual({ active: false });
+    });
+
+    it('reports tokens of inactive users, challenge tokens and garbage as inactive', async () => {
+      const token = accessToken();
+      const challenge = accessToken({ token_use: 'mfa_pending' });
+
+      await expect(introspectionService.introspect(challenge)).resolves.toEqual({ active: false });
+      await expect(introspectionService.introspect('a.b.c')).resolves.toEqual({ active: false });
+
+      db.rows('users')[0].status = 'inactive';
+      await expect(introspectionService.introspect(token)).resolves.toEqual({ active: false });
+    });
+
+    it('names the acting admin of impersonation tokens and follows their revocation', async () => {
+      const token = accessToken({
+        token_use: 'impersonation',
+        act: { sub: 'admin-1', email: 'admin@example.com' },
+      });
+
+      await expect(introspectionService.introspect(token)).resolves.toMatchObject({
+        active: true,
+        sub: 'user-1',
+        act: { sub: 'admin-1' },
+      });
+
+      await tokenRevocationService.revokeAllForUser('admin-1');
+      await expect(introspectionService.introspect(token)).resolves.toEqual({ active: false });
+    });
+
+    it('reports refresh tokens until they are rotated', async () => {
+      const token = await refreshTokenService.issue('user-1', 'family-1');
+
+      await expect(introspectionService.introspect(token)).resolves.toMatchObject({
+        active: true,
+        sub: 'user-1',
+        token_type: 'refresh_token',
+      });
+
+      await refreshTokenService.rotate(token);
+      await expect(introspectionService.introspect(token)).resolves.toEqual({ active: false });
+    });
+
+    it('reports API keys with their own scopes', async () => {
+      const { apiKey, key } = await apiKeyService.create('user-1', {
+        name: 'CI',
+        scopes: ['projects:read'],
+      });
+
+      await expect(introspectionService.introspect(key)).resolves.toMatchObject({
+        active: true,
+        sub: 'user-1',
+        scope: 'projects:read',
+        token_type: 'api_key',
+      });
+
+      await apiKeyService.revoke('user-1', apiKey.id);
+      await expect(introspectionService.introspect(key)).resolves.toEqual({ active: false });
+    });
+
+    it('reports service tokens until their client is revoked', async () => {
+      const { client, clientSecret } = await oauthService.createClient({
+        name: 'Worker',
+        scopes: ['projects:read'],
+      });
+      const { access_token } = await oauthService.issueToken({
+        grant_type: 'client_credentials',
+        client_id: client.client_id,
+        client_secret: clientSecret,
+      });
+
+      await expect(introspectionService.introspect(access_token)).resolves.toMatchObject({
+        active: true,
+        client_id: client.client_id,
+        scope: 'projects:read',
+      });
+
+      await oauthService.revokeClient(client.id);
+      await expect(introspectionService.introspect(access_token)).resolves.toEqual({
+        active: false,
+      });
+    });
+  });
+
+  describe('authController.introspect', () => {
+    let basic: string;
+
+    beforeEach(async () => {
+      const { client, clientSecret } = await oauthService.createClient({
+        name: 'Resource server',
+        scopes: ['projects:read'],
+      });
+      basic = `Basic ${Buffer.from(`${client.client_id}:${clientSecret}`).toString('base64')}`;
+    });
+
+    it('answers authenticated resource servers without caching', async () => {
+      const result = await runMiddleware(authController.introspect, {
+        headers: { Authorization: basic },
+        body: { token: accessToken() },
+      });
+
+      expect(result.status).toBe(200);
+      expect(result.body).toMatchObject({ active: true, sub: 'user-1' });
+      expect(result.headers['cache-control']).toBe('no-store');
+    });
+
+    it('requires client authentication before looking at the token', async () => {
+      const wrongSecret = `Basic ${Buffer.from('svc_unknown:secret').toString('base64')}`;
+
+      for (const headers of [{}, { Authorization: wrongSecret }] as Record<string, string>[]) {
+        const result = await runMiddleware(authController.introspect, {
+          headers,
+          body: { token: accessToken() },
+        });
+
+        expect(result.status).toBe(401);
+        expect(result.body).toEqual(expect.objectContaining({ error: 'invalid_client' }));
+        expect(result.headers['www-authenticate']).toBe('Basic realm="oauth"');
+      }
+    });
+
+    it('rejects requests without a token', async () => {
+      const result = await runMiddleware(authController.introspect, {
+        headers: { Authorization: basic },
+        body: {},
+      });
+
+      expect(result.status).toBe(400);
+      expect(result.body).toMatchObject({ error: 'invalid_request' });
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { IntrospectionResponse, IntrospectionTokenType } from '../utils/types';
+import { commonSchemas } from '../middlewares/validation';
+import { JWTPayload, TokenUse } from '../middlewares/authenticate';
+import { jwtService } from './jwtService';
+import { apiKeyService } from './apiKeyService';
+import { oauthService } from './oauthService';
+import { refreshTokenService } from './refreshTokenService';
+import { tokenRevocationService } from './tokenRevocationService';
+
+// Anything that is not active is reported without details (RFC 7662 section 2.2)
+const INACTIVE: IntrospectionResponse = { active: false };
+
+// Challenge tokens are not usable as bearer tokens and are always reported inactive
+const INTROSPECTABLE_TOKEN_USES: TokenUse[] = ['access', 'impersonation', 'service'];
+
+// Interactive sessions carry every scope, like access tokens in requireScope
+const USER_SCOPE = commonSchemas.apiKeyScope.options.join(' ');
+
+export class IntrospectionService {
+  /**
+   * Describe an access token, refresh token or API key
+   * Revocations and the current user status and profile are taken into account
+   */
+  async introspect(token: string): Promise<IntrospectionResponse> {
+    const tokenType = this.detectTokenType(token);
+
+    switch (tokenType) {
+      case 'api_key':
+        return this.introspectApiKey(token);
+      case 'refresh_token':
+        return this.introspectRefreshToken(token);
+      default:
+        return this.introspectAccessToken(token);
+    }
+  }
+
+  private async introspectAccessToken(token: string): Promise<IntrospectionResponse> {
+    let payload: JWTPayload;
+
+    try {
+      payload = jwtService.verify<JWTPayload>(token);
+    } catch (jwtError) {
+      return INACTIVE;
+    }
+
+    const tokenUse = payload.token_use || 'access';
+
+    if (
+      !INTROSPECTABLE_TOKEN_USES.includes(tokenUse) ||
+      (await tokenRevocationService.isRevoked(payload))
+    ) {
+      return INACTIVE;
+    }
+
+    const details = {
+      sub: payload.id,
+      exp: payload.exp,
+      iat: payload.iat,
+      jti: payload.jti,
+      token_type: 'access_token' as const,
+    };
+
+    if (tokenUse === 'service') {
+      if (!(await oauthService.isClientActive(payload.id))) {
+        return INACTIVE;
+      }
+
+      return {
+        active: true,
+        ...details,
+        client_id: payload.client_id,
+        scope: (payload.scopes || []).join(' '),
+      };
+    }
+
+    const user = await this.getActiveUser(payload.id);
+
+    if (!user) {
+      return INACTIVE;
+    }
+
+    return {
+      active: true,
+      ...details,
+      scope: USER_SCOPE,
+      username: user.email,
+      profile_name: user.profile_name,
+      ...(payload.act && { act: { sub: payload.act.sub } }),
+    };
+  }
+
+  private async introspectRefreshToken(token: string): Promise<IntrospectionResponse> {
+    const record = await refreshTokenService.inspect(token);
+
+    if (!record || record.revoked_at || new Date(record.expires_at).getTime() <= Date.now()) {
+      return INACTIVE;
+    }
+
+    const user = await this.getActiveUser(record.user_id);
+
+    if (!user) {
+      return INACTIVE;
+    }
+
+    return {
+      active: true,
+      sub: record.user_id,
+      exp: Math.floor(new Date(record.expires_at).getTime() / 1000),
+      iat: Math.floor(new Date(record.created_at).getTime() / 1000),
+      scope: USER_SCOPE,
+      username: user.email,
+      profile_name: user.profile_name,
+      token_type: 'refresh_token',
+    };
+  }
+
+  private async introspectApiKey(token: string): Promise<IntrospectionResponse> {
+    let principal: JWTPayload;
+
+    try {
+      // Also rejects keys of inactive users
+      principal = await apiKeyService.authenticate(token);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (errorMessage === 'Invalid API key' || errorMessage === 'API key expired') {
+        return INACTIVE;
+      }
+
+      throw error;
+    }
+
+    return {
+      active: true,
+      sub: principal.id,
+      exp: principal.exp,
+      scope: (principal.scopes || []).join(' '),
+      username: principal.email,
+      profile_name: principal.profile_name,
+      token_type: 'api_key',
+    };
+  }
+
+  /**
+   * The token format is unambiguous, so token_type_hint is not needed
+   */
+  private detectTokenType(token: string): IntrospectionTokenType {
+    if (token.startsWith('pk_')) {
+      return 'api_key';
+    }
+
+    return token.split('.').length === 3 ? 'access_token' : 'refresh_token';
+  }
+
+  /**
+   * Current email and profile of an active user, null when inactive or missing
+   */
+  private async getActiveUser(
+    userId: string
+  ): Promise<{ email: string; profile_name: string } | null> {
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('email, status, profiles(name)')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up user for introspection:', { error: error.message, userId });
+      throw new Error('Failed to look up user');
+    }
+
+    if (!user || user.status !== 'active') {
+      return null;
+    }
+
+    return {
+      email: user.email,
+      profile_name: (user.profiles as any)?.name || 'user',
+    };
+  }
+}
+
+export const introspectionService = new IntrospectionService();
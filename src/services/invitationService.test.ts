@@ -0,0 +1,132 @@
+import { supabaseAdmin } from '../config/supabase';
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { invitationService } from './invitationService';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('invitations', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  const invite = (email = 'new@example.com') =>
+    invitationService.create('admin-1', { name: 'New User', email, profile_id: 'profile-user' });
+
+  beforeEach(() => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user' }]);
+  });
+
+  describe('invitationService', () => {
+    it('hands out the token once and stores only its hash', async () => {
+      const { invitation, token, inviteUrl } = await invite();
+
+      expect(new URL(inviteUrl).searchParams.get('token')).toBe(token);
+      expect(invitation).not.toHaveProperty('token_hash');
+      expect(db.rows('invitations')[0].token_hash).not.toBe(token);
+      await expect(invitationService.findPendingByToken(token)).resolves.toMatchObject({
+        id: invitation.id,
+        email: 'new@example.com',
+        profile_name: 'user',
+      });
+    });
+
+    it('refuses a second pending invitation for the same email', async () => {
+      await invite();
+
+      await expect(invite()).rejects.toThrow('An invitation is already pending for this email');
+      await expect(invite('other@example.com')).resolves.toBeDefined();
+    });
+
+    it('rejects expired, resent and revoked tokens', async () => {
+      const { invitation, token } = await invite();
+
+      clock.advance(72 * HOUR);
+      await expect(invitationService.findPendingByToken(token)).rejects.toThrow(
+        'Invitation expired'
+      );
+
+      const resent = await invitationService.resend(invitation.id);
+      await expect(invitationService.findPendingByToken(token)).rejects.toThrow(
+        'Invalid invitation'
+      );
+      await expect(invitationService.findPendingByToken(resent.token)).resolves.toBeDefined();
+
+      await invitationService.revoke(invitation.id);
+      await expect(invitationService.findPendingByToken(resent.token)).rejects.toThrow(
+        'Invalid invitation'
+      );
+      await expect(invitationService.resend(invitation.id)).rejects.toThrow('Invitation not found');
+    });
+
+    it('lets only one of two concurrent acceptances claim the invitation', async () => {
+      const { invitation } = await invite();
+
+      const results = await Promise.allSettled([
+        invitationService.claim(invitation.id),
+        invitationService.claim(invitation.id),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+
+      await invitationService.release(invitation.id);
+      await expect(invitationService.claim(invitation.id)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('authService.acceptInvitation', () => {
+    let createUser: jest.SpyInstance;
+
+    beforeEach(() => {
+      createUser = jest
+        .spyOn(supabaseAdmin.auth.admin, 'createUser')
+        .mockResolvedValue({ data: { user: { id: 'auth-1' } }, error: null } as any);
+    });
+
+    it('creates the user with the chosen password and spends the invitation', async () => {
+      const { invitation, token } = await invite();
+
+      const user = await authService.acceptInvitation(token, { password: 'Chosen-pass-42' });
+
+      expect(createUser).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        password: 'Chosen-pass-42',
+        email_confirm: true,
+      });
+      expect(db.rows('users')).toMatchObject([
+        { id: user.id, email: 'new@example.com', profile_id: 'profile-user', status: 'active' },
+      ]);
+      expect(db.rows('invitations')[0]).toMatchObject({ id: invitation.id, user_id: user.id });
+      await expect(
+        authService.acceptInvitation(token, { password: 'Chosen-pass-42' })
+      ).rejects.toThrow('Invalid invitation');
+    });
+
+    it('reopens the invitation when provisioning fails', async () => {
+      const { token } = await invite();
+      createUser.mockResolvedValueOnce({
+        data: { user: null },
+        error: { message: 'Database error creating new user' },
+      } as any);
+
+      await expect(
+        authService.acceptInvitation(token, { password: 'Chosen-pass-42' })
+      ).rejects.toThrow('Database error creating new user');
+      expect(db.rows('invitations')[0].accepted_at).toBeNull();
+
+      await expect(
+        authService.acceptInvitation(token, { password: 'Chosen-pass-42' })
+      ).resolves.toMatchObject({ email: 'new@example.com' });
+    });
+
+    it('checks the password policy before claiming the invitation', async () => {
+      const { token } = await invite();
+
+      await expect(authService.acceptInvitation(token, { password: 'weak' })).rejects.toThrow(
+        'Password does not meet the password policy'
+      );
+      expect(createUser).not.toHaveBeenCalled();
+      expect(db.rows('invitations')[0].accepted_at).toBeFalsy();
+    });
+  });
+});
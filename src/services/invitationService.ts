@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CreateUserRequest, Invitation, InvitationResponse } from '../utils/types';
+
+// Columns safe to return to clients (never the hash)
+const PUBLIC_COLUMNS =
+  'id, name, email, profile_id, invited_by, user_id, expires_at, accepted_at, revoked_at, created_at';
+
+export class InvitationService {
+  /**
+   * Create a pending invitation, the plain token is only returned here and on resend
+   */
+  async create(invitedBy: string, inviteData: CreateUserRequest): Promise<InvitationResponse> {
+    const { name, email, profile_id } = inviteData;
+
+    const { data: pending, error: pendingError } = await supabaseAdmin
+      .from('invitations')
+      .select('id')
+      .eq('email', email)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1);
+
+    if (pendingError) {
+      logger.error('Failed to check pending invitations:', { error: pendingError.message, email });
+      throw new Error('Failed to create invitation');
+    }
+
+    if (pending && pending.length > 0) {
+      logger.warn('Invitation already pending', { email, invitationId: pending[0].id });
+      throw new Error('An invitation is already pending for this email');
+    }
+
+    const token = this.generateToken();
+
+    const { data: invitation, error } = await supabaseAdmin
+      .from('invitations')
+      .insert({
+        name,
+        email,
+        profile_id,
+        invited_by: invitedBy,
+        token_hash: this.hashToken(token),
+        expires_at: this.getExpiresAt(),
+      })
+      .select(PUBLIC_COLUMNS)
+      .single();
+
+    if (error || !invitation) {
+      logger.error('Failed to create invitation:', { error: error?.message, email });
+      throw new Error('Failed to create invitation');
+    }
+
+    logger.info('Invitation created', {
+      invitationId: invitation.id,
+      email,
+      profile_id,
+      invitedBy,
+    });
+    return this.toResponse(invitation as Invitation, token);
+  }
+
+  /**
+   * List invitations that were neither accepted nor revoked, expired ones included so they can be resent
+   */
+  async listPending(): Promise<Invitation[]> {
+    const { data: invitations, error } = await supabaseAdmin
+      .from('invitations')
+      .select(PUBLIC_COLUMNS)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list invitations:', { error: error.message });
+      throw new Error('Failed to list invitations');
+    }
+
+    return (invitations || []) as Invitation[];
+  }
+
+  /**
+   * Issue a new token and expiry for a pending invitation, the previous token stops working
+   */
+  async resend(invitationId: string): Promise<InvitationResponse> {
+    const token = this.generateToken();
+
+    const { data: invitation, error } = await supabaseAdmin
+      .from('invitations')
+      .update({
+        token_hash: this.hashToken(token),
+        expires_at: this.getExpiresAt(),
+      })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select(PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to resend invitation:', { error: error.message, invitationId });
+      throw new Error('Failed to resend invitation');
+    }
+
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    logger.info('Invitation resent', { invitationId, email: invitation.email });
+    return this.toResponse(invitation as Invitation, token);
+  }
+
+  /**
+   * Revoke a pending invitation so its token can no longer be accepted
+   */
+  async revoke(invitationId: string): Promise<void> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from('invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to revoke invitation:', { error: error.message, invitationId });
+      throw new Error('Failed to revoke invitation');
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new Error('Invitation not found');
+    }
+
+    logger.info('Invitation revoked', { invitationId });
+  }
+
+  /**
+   * Resolve a presented token to its pending invitation and profile name
+   */
+  async findPendingByToken(token: string): Promise<Invitation & { profile_name: string }> {
+    const { data: invitation, error } = await supabaseAdmin
+      .from('invitations')
+      .select(`${PUBLIC_COLUMNS}, profiles(name)`)
+      .eq('token_hash', this.hashToken(token))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up invitation:', { error: error.message });
+      throw new Error('Failed to validate invitation');
+    }
+
+    if (!invitation || invitation.accepted_at || invitation.revoked_at) {
+      throw new Error('Invalid invitation');
+    }
+
+    if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+      throw new Error('Invitation expired');
+    }
+
+    const { profiles, ...fields } = invitation as any;
+
+    return {
+      ...(fields as Invitation),
+      profile_name: profiles?.name || 'user',
+    };
+  }
+
+  /**
+   * Mark an invitation as accepted before provisioning the user
+   * Only one concurrent acceptance can claim it, release() undoes the claim on failure
+   */
+  async claim(invitationId: string): Promise<void> {
+    const { data: claimed, error } = await supabaseAdmin
+      .from('invitations')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to claim invitation:', { error: error.message, invitationId });
+      throw new Error('Failed to accept invitation');
+    }
+
+    if (!claimed || claimed.length === 0) {
+      throw new Error('Invalid invitation');
+    }
+  }
+
+  /**
+   * Return a claimed invitation to pending after a failed acceptance
+   */
+  async release(invitationId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('invitations')
+      .update({ accepted_at: null })
+      .eq('id', invitationId)
+      .is('user_id', null);
+
+    if (error) {
+      logger.error('Failed to release invitation:', { error: error.message, invitationId });
+    }
+  }
+
+  /**
+   * Link an accepted invitation to the user it created
+   */
+  async linkUser(invitationId: string, userId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('invitations')
+      .update({ user_id: userId })
+      .eq('id', invitationId);
+
+    if (error) {
+      // The user exists and the invitation is already claimed, only the audit link is missing
+      logger.warn('Failed to link invitation to user:', {
+        error: error.message,
+        invitationId,
+        userId,
+      });
+    }
+  }
+
+  private toResponse(invitation: Invitation, token: string): InvitationResponse {
+    const inviteUrl = new URL(config.invitations.acceptUrl);
+    inviteUrl.searchParams.set('token', token);
+
+    return {
+      invitation,
+      token,
+      inviteUrl: inviteUrl.toString(),
+    };
+  }
+
+  private getExpiresAt(): string {
+    return new Date(Date.now() + config.invitations.expiresHours * 60 * 60 * 1000).toISOString();
+  }
+
+  private generateToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import os from 'os';
+import path from 'path';
+import { useFakeClock } from '../test/clock';
+import type { JwtService } from './jwtService';
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+const pemPair = (type: 'rsa' | 'ec') =>
+  type === 'rsa'
+    ? crypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      })
+    : crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+        privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      });
+
+describe('jwtService with an asymmetric key set', () => {
+  const clock = useFakeClock(START);
+  const retired = pemPair('rsa');
+  let keysDir: string;
+  let jwtService: JwtService;
+
+  beforeAll(async () => {
+    const current = pemPair('rsa');
+    const next = pemPair('ec');
+
+    // Keys are read when the service loads, so the key set must exist first
+    keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+    fs.writeFileSync(path.join(keysDir, 'retired.pub.pem'), retired.publicKey);
+    fs.writeFileSync(path.join(keysDir, 'current.pem'), current.privateKey);
+    fs.writeFileSync(path.join(keysDir, 'next.pem'), next.privateKey);
+    fs.writeFileSync(
+      path.join(keysDir, 'keys.json'),
+      JSON.stringify([
+        {
+          kid: 'retired',
+          publicKeyPath: 'retired.pub.pem',
+          expiresAt: new Date(START + HOUR).toISOString(),
+        },
+        {
+          kid: 'current',
+          privateKeyPath: 'current.pem',
+          activatesAt: new Date(START - 24 * HOUR).toISOString(),
+        },
+        {
+          kid: 'next',
+          alg: 'ES256',
+          privateKeyPath: 'next.pem',
+          activatesAt: new Date(START + HOUR).toISOString(),
+        },
+      ])
+    );
+    process.env.JWT_ALGORITHM = 'RS256';
+    process.env.JWT_KEYS_FILE = path.join(keysDir, 'keys.json');
+
+    ({ jwtService } = await import('./jwtService'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  const header = (token: string) => jwt.decode(token, { complete: true })?.header;
+
+  it('signs with the latest active key and verifies by key id', () => {
+    const token = jwtService.sign({ id: 'user-1' }, { expiresIn: '15m' });
+
+    expect(header(token)).toMatchObject({ kid: 'current', alg: 'RS256' });
+    expect(jwtService.verify<{ id: string }>(token).id).toBe('user-1');
+  });
+
+  it('switches to the next key once it activates and still verifies older tokens', () => {
+    const before = jwtService.sign({ id: 'user-1' }, { expiresIn: '2h' });
+
+    clock.advance(HOUR);
+    const after = jwtService.sign({ id: 'user-1' }, { expiresIn: '15m' });
+
+    expect(header(after)).toMatchObject({ kid: 'next', alg: 'ES256' });
+    expect(jwtService.verify<{ id: string }>(before).id).toBe('user-1');
+    expect(jwtService.verify<{ id: string }>(after).id).toBe('user-1');
+  });
+
+  it('publishes upcoming keys ahead of time and drops expired ones', () => {
+    const kids = () => jwtService.getJwks().keys.map(key => key.kid);
+
+    expect(kids()).toEqual(['retired', 'current', 'next']);
+    expect(jwtService.getJwks().keys[2]).toMatchObject({ kty: 'EC', alg: 'ES256', use: 'sig' });
+
+    clock.advance(HOUR);
+    expect(kids()).toEqual(['current', 'next']);
+  });
+
+  it('rejects tokens of expired or unknown keys and tokens without a key id', () => {
+    const sign = (kid: string) =>
+      jwt.sign({ id: 'user-1' }, retired.privateKey, {
+        algorithm: 'RS256',
+        keyid: kid,
+        expiresIn: '2h',
+      });
+    const token = sign('retired');
+
+    expect(jwtService.verify<{ id: string }>(token).id).toBe('user-1');
+    expect(() => jwtService.verify(sign('unknown'))).toThrow('Unknown or expired key id');
+    expect(() => jwtService.verify(jwt.sign({ id: 'user-1' }, 'x'.repeat(32)))).toThrow(
+      'Missing key id'
+    );
+
+    clock.advance(HOUR);
+    expect(() => jwtService.verify(token)).toThrow('Unknown or expired key id');
+  });
+});
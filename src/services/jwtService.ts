@@ -0,0 +1,123 @@
+import { KeyObject } from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { config } from '../config';
+import { loadJwtKeys, JwtSigningKey } from '../config/jwtKeys';
+import { logger } from '../utils/logger';
+
+export class JwtService {
+  private keys: JwtSigningKey[] = loadJwtKeys();
+
+  /**
+   * Whether tokens are signed with the asymmetric key set instead of JWT_SECRET
+   */
+  get isAsymmetric(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * Sign a payload with the current signing key
+   */
+  sign(payload: object, options: { expiresIn: string | number; jwtid?: string }): string {
+    // expiresIn comes from env strings such as '15m', which the typings only accept as literals
+    const signOptions = { ...options } as SignOptions;
+
+    if (!this.isAsymmetric) {
+      return jwt.sign(payload, config.jwt.secret, {
+        ...signOptions,
+        algorithm: config.jwt.algorithm,
+      });
+    }
+
+    const signingKey = this.getSigningKey();
+
+    return jwt.sign(payload, signingKey.privateKey, {
+      ...signOptions,
+      algorithm: signingKey.alg,
+      keyid: signingKey.kid,
+    });
+  }
+
+  /**
+   * Verify a token, choosing the verification key by the `kid` header
+   * Throws the jsonwebtoken errors (TokenExpiredError, JsonWebTokenError)
+   */
+  verify<T>(token: string): T {
+    if (!this.isAsymmetric) {
+      return jwt.verify(token, config.jwt.secret, {
+        algorithms: [config.jwt.algorithm],
+      }) as T;
+    }
+
+    const decoded = jwt.decode(token, { complete: true });
+
+    if (!decoded || typeof decoded.header.kid !== 'string') {
+      throw new jwt.JsonWebTokenError('Missing key id');
+    }
+
+    const key = this.getVerificationKey(decoded.header.kid);
+
+    if (!key) {
+      throw new jwt.JsonWebTokenError('Unknown or expired key id');
+    }
+
+    return jwt.verify(token, key.publicKey, {
+      algorithms: [key.alg],
+    }) as T;
+  }
+
+  /**
+   * Public keys that can still verify tokens, in JWKS format
+   * Keys scheduled for future activation are published ahead of time
+   */
+  getJwks(): { keys: Record<string, unknown>[] } {
+    const now = Date.now();
+
+    return {
+      keys: this.keys
+        .filter(key => !key.expiresAt || key.expiresAt.getTime() > now)
+        .map(key => ({
+          ...key.publicKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.alg,
+          use: 'sig',
+        })),
+    };
+  }
+
+  /**
+   * Most recently activated key that has a private key and is not expired
+   */
+  private getSigningKey(): JwtSigningKey & { privateKey: KeyObject } {
+    const now = Date.now();
+
+    const candidates = this.keys
+      .filter(
+        (key): key is JwtSigningKey & { privateKey: KeyObject } =>
+          !!key.privateKey &&
+          key.activatesAt.getTime() <= now &&
+          (!key.expiresAt || key.expiresAt.getTime() > now)
+      )
+      .sort((a, b) => b.activatesAt.getTime() - a.activatesAt.getTime());
+
+    if (candidates.length === 0) {
+      logger.error('No active JWT signing key available', {
+        kids: this.keys.map(key => key.kid),
+      });
+      throw new Error('No active JWT signing key');
+    }
+
+    return candidates[0];
+  }
+
+  private getVerificationKey(kid: string): JwtSigningKey | undefined {
+    const key = this.keys.find(candidate => candidate.kid === kid);
+
+    if (!key || (key.expiresAt && key.expiresAt.getTime() <= Date.now())) {
+      return undefined;
+    }
+
+    return key;
+  }
+}
+
+export const jwtService = new JwtService();
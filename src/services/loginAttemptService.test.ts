@@ -0,0 +1,189 @@
+import { supabasePublic } from '../config/supabase';
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import {
+  AccountLockedError,
+  InMemoryLoginAttemptStore,
+  LoginAttemptService,
+  loginAttemptService,
+} from './loginAttemptService';
+
+const MINUTE = 60 * 1000;
+
+describe('login lockout', () => {
+  const clock = useFakeClock();
+
+  describe('LoginAttemptService', () => {
+    let attempts: LoginAttemptService;
+
+    beforeEach(() => {
+      attempts = new LoginAttemptService();
+    });
+
+    it('doubles the back-off after each failure', async () => {
+      await attempts.recordFailure('user@example.com');
+      await expect(attempts.assertNotLocked('user@example.com')).rejects.toBeInstanceOf(
+        AccountLockedError
+      );
+
+      clock.advance(1000);
+      await expect(attempts.assertNotLocked('user@example.com')).resolves.toBeUndefined();
+
+      await attempts.recordFailure('user@example.com');
+      clock.advance(1000);
+      await expect(attempts.assertNotLocked('user@example.com')).rejects.toBeInstanceOf(
+        AccountLockedError
+      );
+
+      clock.advance(1000);
+      await expect(attempts.assertNotLocked('user@example.com')).resolves.toBeUndefined();
+    });
+
+    it('locks the account for the lockout period once the threshold is reached', async () => {
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        await attempts.recordFailure('User@Example.com ');
+      }
+
+      const locked = await attempts.assertNotLocked('user@example.com').catch(error => error);
+
+      expect(locked).toBeInstanceOf(AccountLockedError);
+      expect(locked.unlockAt.getTime()).toBe(clock.now + 15 * MINUTE);
+
+      clock.advance(15 * MINUTE);
+      await expect(attempts.assertNotLocked('user@example.com')).resolves.toBeUndefined();
+    });
+
+    it('forgets failures after a quiet period and on reset', async () => {
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        await attempts.recordFailure('user@example.com');
+      }
+
+      clock.advance(15 * MINUTE);
+      await expect(attempts.recordFailure('user@example.com')).resolves.toMatchObject({
+        failures: 1,
+      });
+
+      await attempts.reset('user@example.com');
+      clock.advance(1000);
+      await expect(attempts.recordFailure('user@example.com')).resolves.toMatchObject({
+        failures: 1,
+      });
+    });
+  });
+
+  describe('InMemoryLoginAttemptStore', () => {
+    const state = (failures: number) => ({
+      failures,
+      lastFailureAt: Date.now(),
+      lockedUntil: Date.now() + 1000,
+    });
+
+    it('drops expired entries instead of keeping them forever', async () => {
+      const store = new InMemoryLoginAttemptStore();
+      await store.set('user@example.com', state(1));
+
+      clock.advance(15 * MINUTE);
+
+      await expect(store.get('user@example.com')).resolves.toBeNull();
+      expect(store.size).toBe(0);
+    });
+
+    it('evicts the unlocked entry with the oldest failure once full', async () => {
+      const store = new InMemoryLoginAttemptStore(2);
+
+      await store.set('first@example.com', state(1));
+      await store.set('second@example.com', state(1));
+      await store.set('first@example.com', state(2));
+      clock.advance(1000);
+      await store.set('third@example.com', state(1));
+
+      expect(store.size).toBe(2);
+      await expect(store.get('second@example.com')).resolves.toBeNull();
+      await expect(store.get('first@example.com')).resolves.toMatchObject({ failures: 2 });
+    });
+
+    it('keeps locked entries and stops tracking new keys while full of them', async () => {
+      const store = new InMemoryLoginAttemptStore(2);
+
+      await store.set('locked@example.com', { ...state(5), lockedUntil: Date.now() + 15 * MINUTE });
+      await store.set('first@example.com', state(1));
+      clock.advance(1000);
+
+      await store.set('second@example.com', state(1));
+      await expect(store.get('locked@example.com')).resolves.toMatchObject({ failures: 5 });
+      await expect(store.get('first@example.com')).resolves.toBeNull();
+
+      await store.set('third@example.com', state(1));
+      expect(store.size).toBe(2);
+      await expect(store.get('third@example.com')).resolves.toBeNull();
+      await expect(store.get('locked@example.com')).resolves.toMatchObject({ failures: 5 });
+      await expect(store.get('second@example.com')).resolves.toMatchObject({ failures: 1 });
+    });
+  });
+
+  describe('authService.login', () => {
+    const db = useSupabaseFake();
+    let signIn: jest.SpyInstance;
+
+    beforeEach(() => {
+      loginAttemptService.useStore(new InMemoryLoginAttemptStore());
+      db.seed('profiles', [{ id: 'profile-user', name: 'user', mfa_required: false }]);
+      db.seed('users', [
+        {
+          id: 'user-1',
+          name: 'User',
+          email: 'user@example.com',
+          status: 'active',
+          profile_id: 'profile-user',
+          auth_source: 'supabase',
+        },
+      ]);
+
+      signIn = jest.spyOn(supabasePublic.auth, 'signInWithPassword').mockResolvedValue({
+        data: { user: null, session: null },
+        error: { message: 'Invalid login credentials' },
+      } as any);
+      jest.spyOn(supabasePublic.auth, 'signOut').mockResolvedValue({ error: null });
+    });
+
+    const login = (password: string) => authService.login({ email: 'user@example.com', password });
+
+    it('stops checking passwords once the account is locked', async () => {
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        await expect(login('wrong')).rejects.toThrow('Invalid login credentials');
+        clock.advance(MINUTE);
+      }
+
+      signIn.mockClear();
+      signIn.mockResolvedValue({
+        data: { user: { id: 'auth-1' }, session: {} },
+        error: null,
+      } as any);
+
+      // Even the right password is refused without asking Supabase Auth
+      await expect(login('Right123')).rejects.toBeInstanceOf(AccountLockedError);
+      expect(signIn).not.toHaveBeenCalled();
+
+      clock.advance(15 * MINUTE);
+      await expect(login('Right123')).resolves.toHaveProperty('token');
+    });
+
+    it('clears earlier failures after a successful login', async () => {
+      for (let attempt = 1; attempt <= 4; attempt++) {
+        await expect(login('wrong')).rejects.toThrow('Invalid login credentials');
+        clock.advance(MINUTE);
+      }
+
+      signIn.mockResolvedValueOnce({
+        data: { user: { id: 'auth-1' }, session: {} },
+        error: null,
+      } as any);
+      await login('Right123');
+
+      await expect(login('wrong')).rejects.toThrow('Invalid login credentials');
+      clock.advance(MINUTE);
+      await expect(login('wrong')).rejects.toThrow('Invalid login credentials');
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export interface LoginAttemptState {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+/**
+ * Storage backend for failed login attempts, keyed by normalized email or by mfa:<user id>
+ * Implement this interface to share lockouts between instances (e.g. Redis)
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  set(key: string, state: LoginAttemptState): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Default in-process store, attempts are lost on restart
+ * Entries are dropped once they stop mattering and the map is capped, since any
+ * submitted email gets one; at the cap the unlocked entries with the oldest failure
+ * go first, and a new key is not tracked while every entry is locked
+ */
+export class InMemoryLoginAttemptStore implements LoginAttemptStore {
+  private attempts = new Map<string, LoginAttemptState>();
+
+  constructor(private readonly maxEntries: number = 10000) {}
+
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const state = this.attempts.get(key);
+
+    if (state && this.isExpired(state, Date.now())) {
+      this.attempts.delete(key);
+      return null;
+    }
+
+    return state || null;
+  }
+
+  async set(key: string, state: LoginAttemptState): Promise<void> {
+    // Re-inserting keeps the map ordered by last failure
+    this.attempts.delete(key);
+
+    if (this.attempts.size >= this.maxEntries) {
+      this.purgeExpired();
+    }
+
+    const now = Date.now();
+
+    for (const [oldestKey, oldest] of this.attempts) {
+      if (this.attempts.size < this.maxEntries) {
+        break;
+      }
+
+      // A running lockout is never given up to make room
+      if (oldest.lockedUntil <= now) {
+        this.attempts.delete(oldestKey);
+      }
+    }
+
+    if (this.attempts.size >= this.maxEntries) {
+      logger.warn('Login attempt store full of locked entries, failure not tracked', { key });
+      return;
+    }
+
+    this.attempts.set(key, state);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.attempts.delete(key);
+  }
+
+  get size(): number {
+    return this.attempts.size;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+
+    for (const [key, state] of this.attempts) {
+      if (this.isExpired(state, now)) {
+        this.attempts.delete(key);
+      }
+    }
+  }
+
+  // Neither locked nor recent enough to count toward the next failure
+  private isExpired(state: LoginAttemptState, now: number): boolean {
+    const lockoutMs = config.loginLockout.lockoutMinutes * 60 * 1000;
+    return state.lockedUntil <= now && now - state.lastFailureAt >= lockoutMs;
+  }
+}
+
+export class AccountLockedError extends Error {
+  constructor(public readonly unlockAt: Date) {
+    super('Account temporarily locked due to failed login attempts');
+    this.name = 'AccountLockedError';
+  }
+}
+
+export class LoginAttemptService {
+  private store: LoginAttemptStore = new InMemoryLoginAttemptStore();
+
+  /**
+   * Replace the login attempt backend
+   */
+  useStore(store: LoginAttemptStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Throw AccountLockedError while the account is in back-off or lockout
+   */
+  async assertNotLocked(email: string): Promise<void> {
+    await this.assertKeyNotLocked(this.normalize(email), { email });
+  }
+
+  /**
+   * Register a failed password attempt
+   * Each failure doubles the delay before the next attempt, reaching the
+   * threshold locks the account for LOGIN_LOCKOUT_MINUTES
+   */
+  async recordFailure(email: string): Promise<LoginAttemptState> {
+    return this.recordKeyFailure(this.normalize(email), { email });
+  }
+
+  /**
+   * Clear failures after a successful login or an admin unlock
+   */
+  async reset(email: string): Promise<void> {
+    await this.store.delete(this.normalize(email));
+  }
+
+  /**
+   * Same back-off and lockout for wrong MFA codes, counted per user
+   * Kept apart from password failures so a successful password login does not clear them
+   */
+  async assertMfaNotLocked(userId: string): Promise<void> {
+    await this.assertKeyNotLocked(this.mfaKey(userId), { userId });
+  }
+
+  async recordMfaFailure(userId: string): Promise<LoginAttemptState> {
+    return this.recordKeyFailure(this.mfaKey(userId), { userId });
+  }
+
+  async resetMfa(userId: string): Promise<void> {
+    await this.store.delete(this.mfaKey(userId));
+  }
+
+  private async assertKeyNotLocked(key: string, logContext: Record<string, string>): Promise<void> {
+    const state = await this.store.get(key);
+
+    if (state && state.lockedUntil > Date.now()) {
+      logger.warn('Login attempt on locked account', {
+        ...logContext,
+        failures: state.failures,
+        unlockAt: new Date(state.lockedUntil).toISOString(),
+      });
+      throw new AccountLockedError(new Date(state.lockedUntil));
+    }
+  }
+
+  private async recordKeyFailure(
+    key: string,
+    logContext: Record<string, string>
+  ): Promise<LoginAttemptState> {
+    const now = Date.now();
+    const lockoutMs = config.loginLockout.lockoutMinutes * 60 * 1000;
+    const previous = await this.store.get(key);
+
+    // Old failures stop counting after a quiet period as long as a lockout
+    const failures =
+      previous && now - previous.lastFailureAt < lockoutMs ? previous.failures + 1 : 1;
+
+    const lockedUntil =
+      failures >= config.loginLockout.threshold
+        ? now + lockoutMs
+        : now + config.loginLockout.backoffBaseSeconds * 1000 * Math.pow(2, failures - 1);
+
+    const state = { failures, lastFailureAt: now, lockedUntil };
+    await this.store.set(key, state);
+
+    if (failures >= config.loginLockout.threshold) {
+      logger.warn('Account locked after failed login attempts', {
+        ...logContext,
+        failures,
+        unlockAt: new Date(lockedUntil).toISOString(),
+      });
+    }
+
+    return state;
+  }
+
+  private mfaKey(userId: string): string {
+    return `mfa:${userId}`;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
+
+export const loginAttemptService = new LoginAttemptService();
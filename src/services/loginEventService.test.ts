@@ -0,0 +1,109 @@
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { RequestContext, UserWithProfile } from '../utils/types';
+import { LoginEventService, NewDeviceLogin } from './loginEventService';
+
+describe('LoginEventService', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+  let events: LoginEventService;
+  let alerts: NewDeviceLogin[];
+
+  const user = {
+    id: 'user-1',
+    name: 'User',
+    email: 'User@Example.com',
+    status: 'active',
+    profile_id: 'profile-user',
+    profile_name: 'user',
+  } as UserWithProfile;
+
+  const laptop: RequestContext = { ip: '203.0.113.7', userAgent: 'Firefox on Linux' };
+  const phone: RequestContext = { ip: '198.51.100.20', userAgent: 'Safari on iOS' };
+
+  // Events are written in the background so the login never waits on them
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  const loginFrom = async (context: RequestContext) => {
+    events.recordSuccess(user, { method: 'password', mfa: false, sessionId: 'session-1' }, context);
+    await flush();
+    clock.advance(1000);
+  };
+
+  beforeEach(() => {
+    events = new LoginEventService();
+    alerts = [];
+    events.useNotifier({
+      notify: async login => {
+        alerts.push(login);
+      },
+    });
+  });
+
+  it('alerts on a login from a new device but not on the first login or a known device', async () => {
+    await loginFrom(laptop);
+    await loginFrom(laptop);
+    expect(alerts).toHaveLength(0);
+
+    await loginFrom(phone);
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].event).toMatchObject({ ip: phone.ip, new_device: true, success: true });
+    expect(db.rows('login_events').map(event => event.new_device)).toEqual([false, false, true]);
+    expect(db.rows('login_events')[0]).toMatchObject({
+      email: 'user@example.com',
+      session_id: 'session-1',
+      user_agent: 'Firefox on Linux',
+    });
+    expect(db.rows('login_events')[0].device_fingerprint).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('links failed logins to the user owning the email', async () => {
+    db.seed('users', [{ id: 'user-1', email: 'user@example.com' }]);
+
+    events.recordFailure(
+      { method: 'password', reason: 'invalid_credentials', email: 'USER@example.com' },
+      laptop
+    );
+    events.recordFailure(
+      { method: 'magic_link', reason: 'invalid_link', email: 'nobody@example.com' },
+      laptop
+    );
+    await flush();
+
+    expect(db.rows('login_events')).toMatchObject([
+      { user_id: 'user-1', email: 'user@example.com', success: false },
+      { user_id: null, email: 'nobody@example.com', failure_reason: 'invalid_link' },
+    ]);
+  });
+
+  it('never throws when the event cannot be written', async () => {
+    jest.spyOn(db, 'from').mockImplementation(() => {
+      throw new Error('Database unavailable');
+    });
+
+    expect(() =>
+      events.recordSuccess(user, { method: 'sso', mfa: true, sessionId: 'session-1' }, laptop)
+    ).not.toThrow();
+    await flush();
+  });
+
+  it('lists the history most recent first with filters and pagination', async () => {
+    await loginFrom(laptop);
+    await loginFrom(phone);
+    events.recordFailure(
+      { method: 'password', reason: 'invalid_credentials', userId: 'user-1' },
+      phone
+    );
+    await flush();
+
+    const history = await events.listForUser('user-1', { page: 1, limit: 2 });
+
+    expect(history.pagination).toEqual({ page: 1, limit: 2, total: 3, pages: 2 });
+    expect(history.items.map(event => event.success)).toEqual([false, true]);
+
+    await expect(events.list({ ip: phone.ip, success: true })).resolves.toMatchObject({
+      items: [{ ip: phone.ip, success: true }],
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  ListLoginEventsQuery,
+  LoginEvent,
+  LoginMethod,
+  PaginationResponse,
+  RequestContext,
+  UserWithProfile,
+} from '../utils/types';
+import { mailService } from './mailService';
+
+export interface NewDeviceLogin {
+  user: Pick<UserWithProfile, 'id' | 'name' | 'email'>;
+  event: LoginEvent;
+}
+
+/**
+ * Hook called after a successful login from a device and IP not seen before for the user
+ * Implement this interface to alert through another channel (e.g. push or a SIEM webhook)
+ */
+export interface NewDeviceNotifier {
+  notify(login: NewDeviceLogin): Promise<void>;
+}
+
+/**
+ * Default notifier, emails the user with the new_login template
+ */
+export class MailNewDeviceNotifier implements NewDeviceNotifier {
+  async notify({ user, event }: NewDeviceLogin): Promise<void> {
+    mailService.send(user.email, 'new_login', {
+      name: user.name,
+      loggedInAt: event.created_at,
+      ip: event.ip || undefined,
+      userAgent: event.user_agent || undefined,
+    });
+  }
+}
+
+interface LoginSuccess {
+  method: LoginMethod;
+  mfa: boolean;
+  sessionId: string;
+}
+
+interface LoginFailure {
+  method: LoginMethod;
+  reason: string;
+  userId?: string;
+  email?: string;
+}
+
+export class LoginEventService {
+  private notifier: NewDeviceNotifier = new MailNewDeviceNotifier();
+
+  /**
+   * Replace the new device notification hook
+   */
+  useNotifier(notifier: NewDeviceNotifier): void {
+    this.notifier = notifier;
+  }
+
+  /**
+   * Record a completed login and notify the user when it comes from a new device
+   * Never throws: a failed write must not fail the login
+   */
+  recordSuccess(user: UserWithProfile, login: LoginSuccess, context: RequestContext): void {
+    this.recordSuccessEvent(user, login, context).catch(recordError => {
+      logger.warn('Failed to record login event:', {
+        error: recordError instanceof Error ? recordError.message : 'Unknown error',
+        userId: user.id,
+      });
+    });
+  }
+
+  /**
+   * Record a rejected login, linked to the user when the email belongs to one
+   * Never throws: a failed write must not change the error returned to the client
+   */
+  recordFailure(failure: LoginFailure, context: RequestContext): void {
+    this.recordFailureEvent(failure, context).catch(recordError => {
+      logger.warn('Failed to record login event:', {
+        error: recordError instanceof Error ? recordError.message : 'Unknown error',
+        email: failure.email,
+      });
+    });
+  }
+
+  /**
+   * Login history of a user, most recent first
+   */
+  async listForUser(
+    userId: string,
+    query: ListLoginEventsQuery
+  ): Promise<PaginationResponse<LoginEvent>> {
+    return this.list({ ...query, user_id: userId });
+  }
+
+  /**
+   * Login history across users with optional filters, most recent first
+   */
+  async list(query: ListLoginEventsQuery): Promise<PaginationResponse<LoginEvent>> {
+    const { page = 1, limit = 10 } = query;
+    const offset = (page - 1) * limit;
+
+    let eventQuery = supabaseAdmin
+      .from('login_events')
+      .select('*', { count: 'exact' })
+      .order('created_at', { ascending: false });
+
+    if (query.user_id) {
+      eventQuery = eventQuery.eq('user_id', query.user_id);
+    }
+
+    if (query.email) {
+      eventQuery = eventQuery.eq('email', query.email.toLowerCase());
+    }
+
+    if (query.method) {
+      eventQuery = eventQuery.eq('method', query.method);
+    }
+
+    if (query.success !== undefined) {
+      eventQuery = eventQuery.eq('success', query.success);
+    }
+
+    if (query.ip) {
+      eventQuery = eventQuery.eq('ip', query.ip);
+    }
+
+    if (query.from) {
+      eventQuery = eventQuery.gte('created_at', query.from);
+    }
+
+    if (query.to) {
+      eventQuery = eventQuery.lt('created_at', query.to);
+    }
+
+    const { data: events, error, count } = await eventQuery.range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to list login events:', { error: error.message, query });
+      throw new Error('Failed to list login events');
+    }
+
+    const total = count || 0;
+
+    return {
+      items: (events || []) as LoginEvent[],
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  private async recordSuccessEvent(
+    user: UserWithProfile,
+    login: LoginSuccess,
+    context: RequestContext
+  ): Promise<void> {
+    const deviceFingerprint = this.fingerprint(context.userAgent);
+    const newDevice = await this.isNewDevice(user.id, deviceFingerprint, context.ip || null);
+
+    const event = await this.insert({
+      user_id: user.id,
+      email: user.email.toLowerCase(),
+      method: login.method,
+      success: true,
+      mfa: login.mfa,
+      session_id: login.sessionId,
+      ip: context.ip || null,
+      user_agent: context.userAgent || null,
+      device_fingerprint: deviceFingerprint,
+      new_device: newDevice,
+    });
+
+    if (newDevice && config.loginEvents.newDeviceAlerts) {
+      logger.info('Login from new device', { userId: user.id, ip: context.ip, eventId: event.id });
+      await this.notifier.notify({ user, event });
+    }
+  }
+
+  private async recordFailureEvent(failure: LoginFailure, context: RequestContext): Promise<void> {
+    const email = failure.email?.toLowerCase() || null;
+    let userId = failure.userId || null;
+
+    if (!userId && email) {
+      const { data: user } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('email', email)
+        .maybeSingle();
+
+      userId = user?.id || null;
+    }
+
+    await this.insert({
+      user_id: userId,
+      email,
+      method: failure.method,
+      success: false,
+      failure_reason: failure.reason,
+      ip: context.ip || null,
+      user_agent: context.userAgent || null,
+      device_fingerprint: this.fingerprint(context.userAgent),
+    });
+  }
+
+  /**
+   * A device is new for a user when no earlier successful login has the same fingerprint and IP
+   * The first login of a user is not reported, there is nothing to compare it with
+   */
+  private async isNewDevice(
+    userId: string,
+    deviceFingerprint: string | null,
+    ip: string | null
+  ): Promise<boolean> {
+    let knownQuery = supabaseAdmin
+      .from('login_events')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('success', true);
+
+    knownQuery = deviceFingerprint
+      ? knownQuery.eq('device_fingerprint', deviceFingerprint)
+      : knownQuery.is('device_fingerprint', null);
+    knownQuery = ip ? knownQuery.eq('ip', ip) : knownQuery.is('ip', null);
+
+    const { data: known, error: knownError } = await knownQuery.limit(1);
+
+    if (knownError) {
+      throw new Error(knownError.message);
+    }
+
+    if (known && known.length > 0) {
+      return false;
+    }
+
+    const { count, error: historyError } = await supabaseAdmin
+      .from('login_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('success', true);
+
+    if (historyError) {
+      throw new Error(historyError.message);
+    }
+
+    return (count || 0) > 0;
+  }
+
+  private async insert(event: Partial<LoginEvent>): Promise<LoginEvent> {
+    const { data: inserted, error } = await supabaseAdmin
+      .from('login_events')
+      .insert(event)
+      .select()
+      .single();
+
+    if (error || !inserted) {
+      throw new Error(error?.message || 'Login event not returned');
+    }
+
+    return inserted as LoginEvent;
+  }
+
+  /**
+   * Hash of the user agent, a fixed-size key for the browser and device a login came from
+   */
+  private fingerprint(userAgent?: string): string | null {
+    if (!userAgent) {
+      return null;
+    }
+
+    return crypto.createHash('sha256').update(userAgent.trim()).digest('hex');
+  }
+}
+
+export const loginEventService = new LoginEventService();
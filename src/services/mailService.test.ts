@@ -0,0 +1,114 @@
+import { MailMessage } from '../utils/types';
+import { MailService, MailTransport } from './mailService';
+
+const SECOND = 1000;
+
+class RecordingTransport implements MailTransport {
+  attempts = 0;
+  failures = 0;
+  delivered: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.attempts++;
+
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('SMTP server unavailable');
+    }
+
+    this.delivered.push(message);
+  }
+}
+
+describe('MailService', () => {
+  let transport: RecordingTransport;
+  let mail: MailService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    transport = new RecordingTransport();
+    mail = new MailService();
+    mail.useTransport(transport);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const changedAt = '2026-01-01T12:00:00.000Z';
+
+  it('renders the template in the requested locale and delivers it in the background', async () => {
+    mail.send('ana@example.com', 'password_changed', { name: '<Ana>', changedAt }, 'pt-BR');
+    expect(transport.delivered).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(transport.delivered).toMatchObject([
+      { to: 'ana@example.com', template: 'password_changed', subject: 'Sua senha foi alterada' },
+    ]);
+    expect(transport.delivered[0].text).toContain('<Ana>');
+    expect(transport.delivered[0].html).toContain('&lt;Ana&gt;');
+    expect(transport.delivered[0].html).not.toContain('<Ana>');
+  });
+
+  it('retries failed deliveries with exponential back-off', async () => {
+    transport.failures = 2;
+
+    mail.send('ana@example.com', 'password_changed', { changedAt });
+    await jest.advanceTimersByTimeAsync(0);
+    await jest.advanceTimersByTimeAsync(30 * SECOND);
+    expect(transport.attempts).toBe(2);
+
+    // The second retry waits twice as long as the first
+    await jest.advanceTimersByTimeAsync(59 * SECOND);
+    expect(transport.delivered).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(SECOND);
+    expect(transport.attempts).toBe(3);
+    expect(transport.delivered).toMatchObject([{ subject: 'Your password was changed' }]);
+  });
+
+  it('drops a message after the maximum number of attempts', async () => {
+    transport.failures = Infinity;
+
+    mail.send('ana@example.com', 'password_changed', { changedAt });
+    await jest.advanceTimersByTimeAsync(24 * 60 * 60 * SECOND);
+
+    expect(transport.attempts).toBe(5);
+    expect(transport.delivered).toHaveLength(0);
+  });
+
+  it('never throws when a message cannot be rendered', async () => {
+    expect(() =>
+      mail.send('ana@example.com', 'password_changed', { changedAt }, 'fr' as any)
+    ).not.toThrow();
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(transport.attempts).toBe(0);
+  });
+});
+
+describe('mail configuration', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('requires an explicit MAIL_TRANSPORT in production', async () => {
+    process.env = { ...env, NODE_ENV: 'production' };
+    delete process.env.MAIL_TRANSPORT;
+
+    await jest.isolateModulesAsync(async () => {
+      await expect(import('../config')).rejects.toThrow('MAIL_TRANSPORT is required in production');
+    });
+
+    process.env.MAIL_TRANSPORT = 'outbox';
+
+    await jest.isolateModulesAsync(async () => {
+      await expect(import('../config')).resolves.toMatchObject({
+        config: { mail: { transport: 'outbox' } },
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RetryQueue } from '../utils/retryQueue';
+import { renderMailTemplate } from '../templates/mail';
+import { MailLocale, MailMessage, MailTemplateData, MailTemplateName } from '../utils/types';
+
+/**
+ * Delivery backend for rendered messages
+ * Implement this interface to send through another provider (e.g. an HTTP email API)
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Send through an SMTP server configured with the SMTP_* variables
+ */
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor() {
+    const { host, port, secure, user, password } = config.mail.smtp;
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      ...(user && { auth: { user, pass: password } }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+/**
+ * Write each message as a JSON file instead of sending it, for development and tests
+ */
+export class OutboxMailTransport implements MailTransport {
+  constructor(private readonly directory: string = config.mail.outboxDir) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    // Timestamp first so a directory listing shows messages in sending order
+    const fileName = `${Date.now()}-${message.template}-${crypto.randomBytes(4).toString('hex')}.json`;
+    const filePath = path.join(this.directory, fileName);
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(
+        { from: config.mail.from, ...message, createdAt: new Date().toISOString() },
+        null,
+        2
+      )
+    );
+
+    logger.info('Email written to outbox', {
+      to: message.to,
+      template: message.template,
+      filePath,
+    });
+  }
+}
+
+export class MailService {
+  private transport: MailTransport =
+    config.mail.transport === 'smtp' ? new SmtpMailTransport() : new OutboxMailTransport();
+
+  private queue = new RetryQueue<MailMessage>(
+    'Email delivery',
+    message => this.transport.send(message),
+    {
+      maxAttempts: config.mail.maxAttempts,
+      baseDelayMs: config.mail.retryBaseSeconds * 1000,
+    },
+    message => ({ to: message.to, template: message.template })
+  );
+
+  /**
+   * Replace the delivery backend
+   */
+  useTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Render a template and deliver it in the background with retries
+   * Never throws: a mail failure must not fail the request that triggered it
+   */
+  send<K extends MailTemplateName>(
+    to: string,
+    template: K,
+    data: MailTemplateData[K],
+    locale: MailLocale = config.mail.defaultLocale
+  ): void {
+    try {
+      const rendered = renderMailTemplate(template, data, locale);
+
+      this.queue.enqueue({ to, template, ...rendered });
+      logger.info('Email queued', { to, template, locale });
+    } catch (error) {
+      logger.error('Failed to queue email:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        to,
+        template,
+      });
+    }
+  }
+}
+
+export const mailService = new MailService();
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import { supabasePublic } from '../config/supabase';
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { encrypt } from '../utils/encryption';
+import { base32Decode, getTotpStep } from '../utils/totp';
+import { LoginResponse, MfaChallengeResponse } from '../utils/types';
+import { authService } from './authService';
+import {
+  AccountLockedError,
+  InMemoryLoginAttemptStore,
+  loginAttemptService,
+} from './loginAttemptService';
+import { mfaService } from './mfaService';
+
+const SECRET = 'JBSWY3DPEHPK3PXP';
+const RECOVERY_CODES = ['aaaaa-11111', 'bbbbb-22222', 'ccccc-33333'];
+
+// RFC 6238 code of the secret at the current (fake) time
+const totp = (secret: string = SECRET): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(getTotpStep()));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const binary = hmac.readUInt32BE(hmac[hmac.length - 1] & 0x0f) & 0x7fffffff;
+
+  return (binary % 1000000).toString().padStart(6, '0');
+};
+
+const hashRecoveryCode = (code: string) => crypto.createHash('sha256').update(code).digest('hex');
+
+describe('MFA', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  const seedUser = (mfa: boolean) => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user', mfa_required: false }]);
+    db.seed('users', [
+      {
+        id: 'user-1',
+        name: 'User',
+        email: 'user@example.com',
+        status: 'active',
+        profile_id: 'profile-user',
+        auth_user_id: 'auth-1',
+        auth_source: 'supabase',
+      },
+    ]);
+
+    if (mfa) {
+      db.seed('user_mfa', [
+        {
+          user_id: 'user-1',
+          secret_encrypted: encrypt(SECRET),
+          enabled: true,
+          recovery_code_hashes: RECOVERY_CODES.map(hashRecoveryCode),
+          last_used_step: null,
+          confirmed_at: new Date().toISOString(),
+        },
+      ]);
+    }
+  };
+
+  beforeEach(() => {
+    loginAttemptService.useStore(new InMemoryLoginAttemptStore());
+  });
+
+  describe('mfaService', () => {
+    it('enables MFA once the first code is confirmed and hands out recovery codes', async () => {
+      seedUser(false);
+
+      const { secret, otpauthUri } = await mfaService.startEnrollment('user-1', 'user@example.com');
+      expect(otpauthUri).toContain(`secret=${secret}`);
+
+      const recoveryCodes = await mfaService.confirmEnrollment('user-1', totp(secret));
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(db.rows('user_mfa')[0]).toMatchObject({ enabled: true });
+      await expect(mfaService.getLoginRequirement('user-1', 'profile-user')).resolves.toBe(
+        'verify'
+      );
+      await expect(
+        mfaService.verify('user-1', { recoveryCode: recoveryCodes[0] })
+      ).resolves.toBeUndefined();
+    });
+
+    it('accepts a TOTP code once and rejects its replay', async () => {
+      seedUser(true);
+      const code = totp();
+
+      await mfaService.verify('user-1', { code });
+
+      await expect(mfaService.verify('user-1', { code })).rejects.toThrow('Invalid MFA code');
+    });
+
+    it('lets only one of two concurrent requests use the same TOTP code', async () => {
+      seedUser(true);
+      const code = totp();
+
+      const results = await Promise.allSettled([
+        mfaService.verify('user-1', { code }),
+        mfaService.verify('user-1', { code }),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    });
+
+    it('consumes a recovery code once, even when it is used concurrently', async () => {
+      seedUser(true);
+
+      const results = await Promise.allSettled([
+        mfaService.verify('user-1', { recoveryCode: RECOVERY_CODES[0] }),
+        mfaService.verify('user-1', { recoveryCode: RECOVERY_CODES[0] }),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(db.rows('user_mfa')[0].recovery_code_hashes).toHaveLength(2);
+    });
+
+    it('keeps both codes when two different recovery codes are used concurrently', async () => {
+      seedUser(true);
+
+      await Promise.all([
+        mfaService.verify('user-1', { recoveryCode: RECOVERY_CODES[0] }),
+        mfaService.verify('user-1', { recoveryCode: ` ${RECOVERY_CODES[1].toUpperCase()} ` }),
+      ]);
+
+      expect(db.rows('user_mfa')[0].recovery_code_hashes).toEqual([
+        hashRecoveryCode(RECOVERY_CODES[2]),
+      ]);
+    });
+  });
+
+  describe('authService.verifyMfa', () => {
+    beforeEach(() => {
+      seedUser(true);
+      jest.spyOn(supabasePublic.auth, 'signInWithPassword').mockResolvedValue({
+        data: { user: { id: 'auth-1' }, session: {} },
+        error: null,
+      } as any);
+      jest.spyOn(supabasePublic.auth, 'signOut').mockResolvedValue({ error: null });
+    });
+
+    const login = async () => {
+      const result = await authService.login({ email: 'user@example.com', password: 'Secret123' });
+      return (result as MfaChallengeResponse).challengeToken;
+    };
+
+    const wrongCode = () => String((Number(totp()) + 500000) % 1000000).padStart(6, '0');
+
+    it('completes the login with a valid code and spends the challenge', async () => {
+      const challengeToken = await login();
+
+      const result = (await authService.verifyMfa({
+        challengeToken,
+        code: totp(),
+      })) as LoginResponse;
+
+      expect(result.token).toBeTruthy();
+      expect(result.user.id).toBe('user-1');
+
+      clock.advance(30 * 1000);
+      await expect(authService.verifyMfa({ challengeToken, code: totp() })).rejects.toThrow(
+        'Invalid or expired MFA challenge'
+      );
+    });
+
+    it('locks the user and revokes the challenge after repeated wrong codes', async () => {
+      const challengeToken = await login();
+
+      for (let attempt = 1; attempt < 5; attempt++) {
+        await expect(authService.verifyMfa({ challengeToken, code: wrongCode() })).rejects.toThrow(
+          'Invalid MFA code'
+        );
+
+        // Wait out the back-off of this failure
+        clock.advance(10 * 1000);
+      }
+
+      await expect(authService.verifyMfa({ challengeToken, code: wrongCode() })).rejects.toThrow(
+        'Invalid MFA code'
+      );
+
+      // The challenge is spent, and a fresh one cannot be used while the lockout lasts
+      await expect(authService.verifyMfa({ challengeToken, code: totp() })).rejects.toThrow(
+        'Invalid or expired MFA challenge'
+      );
+
+      const nextChallenge = await login();
+      await expect(
+        authService.verifyMfa({ challengeToken: nextChallenge, code: totp() })
+      ).rejects.toBeInstanceOf(AccountLockedError);
+    });
+
+    it('does not let a successful password login clear the MFA failures', async () => {
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const challengeToken = await login();
+
+        await expect(authService.verifyMfa({ challengeToken, code: wrongCode() })).rejects.toThrow(
+          'Invalid MFA code'
+        );
+        clock.advance(10 * 1000);
+      }
+
+      const challengeToken = await login();
+      await expect(authService.verifyMfa({ challengeToken, code: totp() })).rejects.toBeInstanceOf(
+        AccountLockedError
+      );
+    });
+  });
+});
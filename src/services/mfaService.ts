@@ -0,0 +1,295 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { encrypt, decrypt } from '../utils/encryption';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { MfaEnrollmentResponse, MfaFactor, MfaVerifyRequest } from '../utils/types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Compare-and-set rounds when other recovery codes are consumed concurrently
+const RECOVERY_CODE_UPDATE_ATTEMPTS = 3;
+
+export class MfaService {
+  /**
+   * Whether a login must go through MFA verification or enrollment
+   */
+  async getLoginRequirement(
+    userId: string,
+    profileId: string
+  ): Promise<'none' | 'verify' | 'enroll'> {
+    const factor = await this.getFactor(userId);
+
+    if (factor?.enabled) {
+      return 'verify';
+    }
+
+    return (await this.isRequiredForProfile(profileId)) ? 'enroll' : 'none';
+  }
+
+  /**
+   * Whether admins made MFA mandatory for a profile
+   */
+  async isRequiredForProfile(profileId: string): Promise<boolean> {
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .select('mfa_required')
+      .eq('id', profileId)
+      .single();
+
+    if (error) {
+      logger.error('Failed to fetch profile MFA policy:', { error: error.message, profileId });
+      throw new Error('Failed to check MFA policy');
+    }
+
+    return !!profile?.mfa_required;
+  }
+
+  /**
+   * Start (or restart) enrollment by generating a new pending secret
+   */
+  async startEnrollment(userId: string, email: string): Promise<MfaEnrollmentResponse> {
+    logger.info('Starting MFA enrollment', { userId });
+
+    const existing = await this.getFactor(userId);
+
+    if (existing?.enabled) {
+      logger.warn('MFA enrollment attempted with MFA already enabled', { userId });
+      throw new Error('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    const { error } = await supabaseAdmin.from('user_mfa').upsert({
+      user_id: userId,
+      secret_encrypted: encrypt(secret),
+      enabled: false,
+      recovery_code_hashes: [],
+      last_used_step: null,
+      confirmed_at: null,
+    });
+
+    if (error) {
+      logger.error('Failed to store MFA secret:', { error: error.message, userId });
+      throw new Error('Failed to start MFA enrollment');
+    }
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(config.mfa.issuer, email, secret),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first TOTP code and generate recovery codes
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    logger.info('Confirming MFA enrollment', { userId });
+
+    const factor = await this.getFactor(userId);
+
+    if (!factor) {
+      throw new Error('MFA enrollment not started');
+    }
+
+    if (factor.enabled) {
+      throw new Error('MFA is already enabled');
+    }
+
+    const step = verifyTotp(decrypt(factor.secret_encrypted), code);
+
+    if (step === null) {
+      logger.warn('Invalid MFA code during enrollment', { userId });
+      throw new Error('Invalid MFA code');
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode()
+    );
+
+    const { error } = await supabaseAdmin
+      .from('user_mfa')
+      .update({
+        enabled: true,
+        last_used_step: step,
+        recovery_code_hashes: recoveryCodes.map(recoveryCode =>
+          this.hashRecoveryCode(recoveryCode)
+        ),
+        confirmed_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to enable MFA:', { error: error.message, userId });
+      throw new Error('Failed to confirm MFA enrollment');
+    }
+
+    logger.info('MFA enabled', { userId });
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or consume a one-time recovery code
+   */
+  async verify(
+    userId: string,
+    verifyData: Pick<MfaVerifyRequest, 'code' | 'recoveryCode'>
+  ): Promise<void> {
+    const factor = await this.getFactor(userId);
+
+    if (!factor?.enabled) {
+      throw new Error('MFA is not enabled');
+    }
+
+    if (verifyData.code) {
+      const step = verifyTotp(
+        decrypt(factor.secret_encrypted),
+        verifyData.code,
+        factor.last_used_step
+      );
+
+      if (step === null) {
+        logger.warn('Invalid MFA code', { userId });
+        throw new Error('Invalid MFA code');
+      }
+
+      // Remember the step so the same code cannot be replayed, the condition
+      // lets only one of two concurrent requests with the same code through
+      const { data: updated, error } = await supabaseAdmin
+        .from('user_mfa')
+        .update({ last_used_step: step })
+        .eq('user_id', userId)
+        .or(`last_used_step.is.null,last_used_step.lt.${step}`)
+        .select('user_id');
+
+      if (error) {
+        logger.error('Failed to store MFA step:', { error: error.message, userId });
+        throw new Error('Failed to verify MFA code');
+      }
+
+      if (!updated || updated.length === 0) {
+        logger.warn('MFA code already used', { userId });
+        throw new Error('Invalid MFA code');
+      }
+
+      return;
+    }
+
+    await this.consumeRecoveryCode(
+      userId,
+      verifyData.recoveryCode || '',
+      factor.recovery_code_hashes
+    );
+  }
+
+  /**
+   * Remove the MFA factor of a user
+   */
+  async disable(userId: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('user_mfa').delete().eq('user_id', userId);
+
+    if (error) {
+      logger.error('Failed to disable MFA:', { error: error.message, userId });
+      throw new Error('Failed to disable MFA');
+    }
+
+    logger.info('MFA disabled', { userId });
+  }
+
+  /**
+   * Require (or stop requiring) MFA for every user of a profile
+   */
+  async setProfileRequirement(profileId: string, mfaRequired: boolean): Promise<void> {
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .update({ mfa_required: mfaRequired })
+      .eq('id', profileId)
+      .select('id')
+      .single();
+
+    if (error || !profile) {
+      logger.error('Failed to update profile MFA policy:', { error: error?.message, profileId });
+      throw new Error('Profile not found');
+    }
+
+    logger.info('Profile MFA policy updated', { profileId, mfaRequired });
+  }
+
+  private async getFactor(userId: string): Promise<MfaFactor | null> {
+    const { data: factor, error } = await supabaseAdmin
+      .from('user_mfa')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch MFA factor:', { error: error.message, userId });
+      throw new Error('Failed to access MFA settings');
+    }
+
+    return factor;
+  }
+
+  /**
+   * Remove a recovery code from the stored list with a compare-and-set on the whole list
+   * A concurrent use of any code makes the update match nothing, the list is then read again
+   */
+  private async consumeRecoveryCode(
+    userId: string,
+    recoveryCode: string,
+    storedHashes: string[]
+  ): Promise<void> {
+    const recoveryHash = this.hashRecoveryCode(recoveryCode);
+    let hashes = storedHashes;
+
+    for (let attempt = 1; attempt <= RECOVERY_CODE_UPDATE_ATTEMPTS; attempt++) {
+      if (!hashes.includes(recoveryHash)) {
+        logger.warn('Invalid MFA recovery code', { userId });
+        throw new Error('Invalid MFA code');
+      }
+
+      const remaining = hashes.filter(hash => hash !== recoveryHash);
+
+      const { data: updated, error } = await supabaseAdmin
+        .from('user_mfa')
+        .update({ recovery_code_hashes: remaining })
+        .eq('user_id', userId)
+        .contains('recovery_code_hashes', hashes)
+        .containedBy('recovery_code_hashes', hashes)
+        .select('user_id');
+
+      if (error) {
+        logger.error('Failed to consume recovery code:', { error: error.message, userId });
+        throw new Error('Failed to verify MFA code');
+      }
+
+      if (updated && updated.length > 0) {
+        logger.info('MFA recovery code used', { userId, remaining: remaining.length });
+        return;
+      }
+
+      const current = await this.getFactor(userId);
+
+      if (!current?.enabled) {
+        throw new Error('MFA is not enabled');
+      }
+
+      hashes = current.recovery_code_hashes;
+    }
+
+    logger.error('Recovery code update kept conflicting', { userId });
+    throw new Error('Failed to verify MFA code');
+  }
+
+  private generateRecoveryCode(): string {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  }
+
+  private hashRecoveryCode(recoveryCode: string): string {
+    return crypto.createHash('sha256').update(recoveryCode.trim().toLowerCase()).digest('hex');
+  }
+}
+
+export const mfaService = new MfaService();
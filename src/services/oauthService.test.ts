@@ -0,0 +1,62 @@
+import { authenticate } from '../middlewares/authenticate';
+import { useFakeClock } from '../test/clock';
+import { runMiddleware } from '../test/http';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { oauthService } from './oauthService';
+
+describe('service principal authentication', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  const issueServiceToken = async () => {
+    const { client, clientSecret } = await oauthService.createClient({
+      name: 'Worker',
+      scopes: ['projects:read'],
+    });
+    const { access_token } = await oauthService.issueToken({
+      grant_type: 'client_credentials',
+      client_id: client.client_id,
+      client_secret: clientSecret,
+    });
+
+    return { client, headers: { Authorization: `Bearer ${access_token}` } };
+  };
+
+  const clientLookups = () =>
+    db.queries.filter(query => query.table === 'oauth_clients' && query.action === 'select').length;
+
+  it('accepts service tokens while their client is active, looking it up once per TTL', async () => {
+    const { client, headers } = await issueServiceToken();
+    const lookupsBefore = clientLookups();
+
+    const { nextCalled, req } = await runMiddleware(authenticate, { headers });
+    await runMiddleware(authenticate, { headers });
+
+    expect(nextCalled).toBe(true);
+    expect(req.user).toMatchObject({ id: client.id, principal_type: 'service' });
+    expect(clientLookups() - lookupsBefore).toBe(1);
+  });
+
+  it('rejects service tokens of a deleted client once the cached state expires', async () => {
+    const { client, headers } = await issueServiceToken();
+    await runMiddleware(authenticate, { headers });
+
+    db.tables.oauth_clients = db.rows('oauth_clients').filter(row => row.id !== client.id);
+    clock.advance(30 * 1000);
+
+    await expect(runMiddleware(authenticate, { headers })).resolves.toMatchObject({
+      nextCalled: false,
+      status: 401,
+      body: { data: { code: 'CLIENT_INACTIVE' } },
+    });
+  });
+
+  it('stops reporting a revoked client as active right away', async () => {
+    const { client } = await issueServiceToken();
+    await expect(oauthService.isClientActive(client.id)).resolves.toBe(true);
+
+    await oauthService.revokeClient(client.id);
+
+    await expect(oauthService.isClientActive(client.id)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  OAuthClient,
+  CreateOAuthClientRequest,
+  CreateOAuthClientResponse,
+  OAuthTokenRequest,
+  OAuthTokenResponse,
+} from '../utils/types';
+import { jwtService } from './jwtService';
+import { tokenRevocationService } from './tokenRevocationService';
+
+// Columns safe to return to clients (never the secret hash)
+const PUBLIC_COLUMNS = 'id, client_id, name, scopes, revoked_at, created_at';
+
+/**
+ * Error reported in the RFC 6749 format ({ error, error_description })
+ */
+export class OAuthError extends Error {
+  constructor(
+    public readonly error: string,
+    message: string,
+    public readonly statusCode: number = 400
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+interface CachedClientState {
+  active: boolean;
+  expiresAt: number;
+}
+
+export class OAuthService {
+  private clientStates = new Map<string, CachedClientState>();
+
+  /**
+   * Register a machine client, the secret is only returned here
+   */
+  async createClient(clientData: CreateOAuthClientRequest): Promise<CreateOAuthClientResponse> {
+    const clientId = `svc_${crypto.randomBytes(12).toString('hex')}`;
+    const clientSecret = crypto.randomBytes(32).toString('base64url');
+
+    const { data: client, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .insert({
+        client_id: clientId,
+        name: clientData.name,
+        secret_hash: this.hashSecret(clientSecret),
+        scopes: clientData.scopes,
+      })
+      .select(PUBLIC_COLUMNS)
+      .single();
+
+    if (error || !client) {
+      logger.error('Failed to create OAuth client:', {
+        error: error?.message,
+        name: clientData.name,
+      });
+      throw new Error('Failed to create OAuth client');
+    }
+
+    logger.info('OAuth client created', { clientId, scopes: clientData.scopes });
+    return { client: client as OAuthClient, clientSecret };
+  }
+
+  /**
+   * List clients that have not been revoked
+   */
+  async listClients(): Promise<OAuthClient[]> {
+    const { data: clients, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .select(PUBLIC_COLUMNS)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list OAuth clients:', { error: error.message });
+      throw new Error('Failed to list OAuth clients');
+    }
+
+    return (clients || []) as OAuthClient[];
+  }
+
+  /**
+   * Revoke a client and every token it was issued
+   */
+  async revokeClient(id: string): Promise<void> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to revoke OAuth client:', { error: error.message, id });
+      throw new Error('Failed to revoke OAuth client');
+    }
+
+    if (!revoked || revoked.length === 0) {
+      throw new Error('OAuth client not found');
+    }
+
+    // Service tokens carry the client record ID as principal ID
+    await tokenRevocationService.revokeAllForUser(id);
+    this.clientStates.delete(id);
+
+    logger.info('OAuth client revoked', { id });
+  }
+
+  /**
+   * Whether the client behind a service token still exists and is not revoked
+   * Cached in process for USER_STATUS_CACHE_TTL_SECONDS, revoking a client clears its entry
+   */
+  async isClientActive(id: string): Promise<boolean> {
+    const now = Date.now();
+    const cached = this.clientStates.get(id);
+
+    if (cached && cached.expiresAt > now) {
+      return cached.active;
+    }
+
+    const { data: client, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .select('id')
+      .eq('id', id)
+      .is('revoked_at', null)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up OAuth client:', { error: error.message, id });
+      throw new Error('Failed to look up OAuth client');
+    }
+
+    for (const [clientId, entry] of this.clientStates) {
+      if (entry.expiresAt <= now) {
+        this.clientStates.delete(clientId);
+      }
+    }
+
+    this.clientStates.set(id, {
+      active: !!client,
+      expiresAt: now + config.userStatus.cacheTtlSeconds * 1000,
+    });
+
+    return !!client;
+  }
+
+  /**
+   * Token endpoint, only the client_credentials grant is supported
+   */
+  async issueToken(tokenRequest: OAuthTokenRequest): Promise<OAuthTokenResponse> {
+    if (tokenRequest.grant_type !== 'client_credentials') {
+      throw new OAuthError(
+        'unsupported_grant_type',
+        'Only the client_credentials grant is supported'
+      );
+    }
+
+    if (!tokenRequest.client_id || !tokenRequest.client_secret) {
+      throw new OAuthError('invalid_client', 'Client authentication required', 401);
+    }
+
+    const client = await this.authenticateClient(
+      tokenRequest.client_id,
+      tokenRequest.client_secret
+    );
+    const scopes = this.resolveScopes(client, tokenRequest.scope);
+
+    const accessToken = jwtService.sign(
+      {
+        id: client.id,
+        principal_type: 'service',
+        client_id: client.client_id,
+        token_use: 'service',
+        scopes,
+      },
+      { expiresIn: config.oauth.tokenExpiresIn, jwtid: crypto.randomUUID() }
+    );
+
+    const { iat, exp } = jwt.decode(accessToken) as { iat: number; exp: number };
+
+    logger.info('OAuth token issued', { clientId: client.client_id, scopes });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: exp - iat,
+      scope: scopes.join(' '),
+    };
+  }
+
+  /**
+   * Verify client credentials, throws OAuthError('invalid_client') when they do not match an active client
+   */
+  async authenticateClient(clientId: string, clientSecret: string): Promise<OAuthClient> {
+    const { data: client, error } = await supabaseAdmin
+      .from('oauth_clients')
+      .select(`${PUBLIC_COLUMNS}, secret_hash`)
+      .eq('client_id', clientId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up OAuth client:', { error: error.message, clientId });
+      throw new Error('Failed to authenticate client');
+    }
+
+    const expected = Buffer.from(client?.secret_hash || '', 'hex');
+    const actual = Buffer.from(this.hashSecret(clientSecret), 'hex');
+
+    if (
+      !client ||
+      client.revoked_at ||
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      logger.warn('OAuth client authentication failed', { clientId });
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+
+    return {
+      id: client.id,
+      client_id: client.client_id,
+      name: client.name,
+      scopes: client.scopes,
+      revoked_at: client.revoked_at,
+      created_at: client.created_at,
+    };
+  }
+
+  /**
+   * Requested scopes must be a subset of the client's, none requested means all of them
+   */
+  private resolveScopes(client: OAuthClient, requestedScope?: string): string[] {
+    if (!requestedScope || !requestedScope.trim()) {
+      return client.scopes;
+    }
+
+    const requested = Array.from(new Set(requestedScope.trim().split(/\s+/)));
+    const allowed: string[] = client.scopes;
+    const denied = requested.filter(scope => !allowed.includes(scope));
+
+    if (denied.length > 0) {
+      logger.warn('OAuth client requested scopes it was not granted', {
+        clientId: client.client_id,
+        denied,
+      });
+      throw new OAuthError(
+        'invalid_scope',
+        `Scope not allowed for this client: ${denied.join(' ')}`
+      );
+    }
+
+    return requested;
+  }
+
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
+
+export const oauthService = new OAuthService();
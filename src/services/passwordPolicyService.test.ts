@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import type { PasswordPolicyService } from './passwordPolicyService';
+
+describe('PasswordPolicyService', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+  let listFile: string;
+  let passwordPolicyService: PasswordPolicyService;
+  let PasswordPolicyError: typeof import('./passwordPolicyService').PasswordPolicyError;
+
+  beforeAll(async () => {
+    // The list is read on first use, the path when the configuration loads
+    listFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'breached-')), 'breached.txt');
+    const sha1 = crypto.createHash('sha1').update('Password123').digest('hex').toUpperCase();
+    fs.writeFileSync(listFile, `${sha1}:52000\nnot-a-hash\n`);
+    process.env.PASSWORD_BREACHED_LIST_FILE = listFile;
+
+    ({ passwordPolicyService, PasswordPolicyError } = await import('./passwordPolicyService'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(listFile), { recursive: true, force: true });
+  });
+
+  const rules = async (password: string, subject = {}) =>
+    (await passwordPolicyService.validate(password, subject)).map(violation => violation.rule);
+
+  it('reports every rule a password violates', async () => {
+    await expect(rules('jane')).resolves.toEqual(['min_length', 'uppercase', 'digit']);
+    await expect(rules('x'.repeat(73) + 'A1')).resolves.toEqual(['max_length']);
+    await expect(rules('Correct-Horse-42')).resolves.toEqual([]);
+  });
+
+  it('rejects passwords containing the name or email of the user', async () => {
+    const subject = { name: 'Jane Al Doe', email: 'jdoe@example.com' };
+
+    await expect(rules('Xjane-2024', subject)).resolves.toEqual(['banned_word']);
+    await expect(rules('Jdoe-rules-7', subject)).resolves.toEqual(['banned_word']);
+
+    // Name parts shorter than three characters are too common to ban
+    await expect(rules('Always-42', subject)).resolves.toEqual([]);
+  });
+
+  it('rejects passwords from the breached password list', async () => {
+    await expect(rules('Password123')).resolves.toEqual(['breached']);
+  });
+
+  it('rejects the last passwords of the user and forgets older ones', async () => {
+    for (let index = 1; index <= 6; index++) {
+      await passwordPolicyService.recordPassword('user-1', `Previous-${index}`);
+      clock.advance(1000);
+    }
+
+    expect(db.rows('password_history')).toHaveLength(5);
+    await expect(rules('Previous-6', { userId: 'user-1' })).resolves.toEqual(['reused']);
+    await expect(rules('Previous-2', { userId: 'user-1' })).resolves.toEqual(['reused']);
+    await expect(rules('Previous-1', { userId: 'user-1' })).resolves.toEqual([]);
+    await expect(rules('Previous-6', { userId: 'user-2' })).resolves.toEqual([]);
+  });
+
+  it('throws every violation at once', async () => {
+    const error = await passwordPolicyService.assertValid('short').catch(rejection => rejection);
+
+    expect(error).toBeInstanceOf(PasswordPolicyError);
+    expect(error.violations.map((violation: { rule: string }) => violation.rule)).toEqual([
+      'min_length',
+      'uppercase',
+      'digit',
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { PasswordPolicyViolation, PasswordSubject } from '../utils/types';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// Supabase Auth hashes with bcrypt, which ignores anything past 72 bytes
+const MAX_LENGTH = 72;
+
+// Name parts and email local parts shorter than this are too common to ban
+const MIN_BANNED_WORD_LENGTH = 3;
+
+export class PasswordPolicyError extends Error {
+  constructor(public readonly violations: PasswordPolicyViolation[]) {
+    super('Password does not meet the password policy');
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+export class PasswordPolicyService {
+  private breachedHashes: Set<string> | null = null;
+
+  /**
+   * Check a password against every rule and return all violations
+   */
+  async validate(
+    password: string,
+    subject: PasswordSubject = {}
+  ): Promise<PasswordPolicyViolation[]> {
+    const policy = config.passwordPolicy;
+    const violations: PasswordPolicyViolation[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push({
+        rule: 'min_length',
+        message: `Password must be at least ${policy.minLength} characters`,
+      });
+    }
+
+    if (Buffer.byteLength(password, 'utf8') > MAX_LENGTH) {
+      violations.push({
+        rule: 'max_length',
+        message: `Password cannot exceed ${MAX_LENGTH} bytes`,
+      });
+    }
+
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push({ rule: 'uppercase', message: 'Password must contain an uppercase letter' });
+    }
+
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push({ rule: 'lowercase', message: 'Password must contain a lowercase letter' });
+    }
+
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push({ rule: 'digit', message: 'Password must contain a digit' });
+    }
+
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push({ rule: 'symbol', message: 'Password must contain a symbol' });
+    }
+
+    const bannedWord = this.getBannedWords(subject).find(word =>
+      password.toLowerCase().includes(word)
+    );
+
+    if (bannedWord) {
+      violations.push({
+        rule: 'banned_word',
+        message: 'Password cannot contain your name or email',
+      });
+    }
+
+    if (this.isBreached(password)) {
+      violations.push({
+        rule: 'breached',
+        message: 'Password appears in a list of breached passwords',
+      });
+    }
+
+    if (subject.userId && (await this.isReused(subject.userId, password))) {
+      violations.push({
+        rule: 'reused',
+        message: `Password cannot match any of your last ${policy.historyCount} passwords`,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Throw PasswordPolicyError when the password violates any rule
+   */
+  async assertValid(password: string, subject: PasswordSubject = {}): Promise<void> {
+    const violations = await this.validate(password, subject);
+
+    if (violations.length > 0) {
+      logger.warn('Password rejected by policy', {
+        userId: subject.userId,
+        rules: violations.map(violation => violation.rule),
+      });
+      throw new PasswordPolicyError(violations);
+    }
+  }
+
+  /**
+   * Remember a password that was just set, keeping only the last PASSWORD_HISTORY_COUNT
+   */
+  async recordPassword(userId: string, password: string): Promise<void> {
+    const historyCount = config.passwordPolicy.historyCount;
+
+    if (historyCount <= 0) {
+      return;
+    }
+
+    const { error } = await supabaseAdmin.from('password_history').insert({
+      user_id: userId,
+      password_hash: await this.hashPassword(password),
+    });
+
+    if (error) {
+      logger.error('Failed to store password history:', { error: error.message, userId });
+      throw new Error('Failed to store password history');
+    }
+
+    const { data: expired, error: listError } = await supabaseAdmin
+      .from('password_history')
+      .select('id')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(historyCount, historyCount + 100);
+
+    if (listError) {
+      logger.warn('Failed to list expired password history:', { error: listError.message, userId });
+      return;
+    }
+
+    if (expired && expired.length > 0) {
+      await supabaseAdmin
+        .from('password_history')
+        .delete()
+        .in(
+          'id',
+          expired.map(entry => entry.id)
+        );
+    }
+  }
+
+  private getBannedWords(subject: PasswordSubject): string[] {
+    const words = [
+      ...(subject.name ? subject.name.split(/\s+/) : []),
+      ...(subject.email ? [subject.email.split('@')[0]] : []),
+    ];
+
+    return words
+      .map(word => word.toLowerCase())
+      .filter(word => word.length >= MIN_BANNED_WORD_LENGTH);
+  }
+
+  private async isReused(userId: string, password: string): Promise<boolean> {
+    const { data: history, error } = await supabaseAdmin
+      .from('password_history')
+      .select('password_hash')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(config.passwordPolicy.historyCount);
+
+    if (error) {
+      logger.error('Failed to fetch password history:', { error: error.message, userId });
+      throw new Error('Failed to check password history');
+    }
+
+    for (const entry of history || []) {
+      if (await this.verifyPassword(password, entry.password_hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Breached passwords are SHA-1 hashes, one per line (HIBP `HASH:count` lines are accepted)
+   * The list is loaded on first use from PASSWORD_BREACHED_LIST_FILE
+   */
+  private isBreached(password: string): boolean {
+    if (!config.passwordPolicy.breachedListFile) {
+      return false;
+    }
+
+    if (!this.breachedHashes) {
+      this.breachedHashes = this.loadBreachedHashes(config.passwordPolicy.breachedListFile);
+    }
+
+    const hash = crypto.createHash('sha1').update(password).digest('hex').toUpperCase();
+    return this.breachedHashes.has(hash);
+  }
+
+  private loadBreachedHashes(file: string): Set<string> {
+    const listFile = path.resolve(file);
+
+    try {
+      const hashes = new Set<string>();
+
+      for (const line of fs.readFileSync(listFile, 'utf8').split(/\r?\n/)) {
+        const hash = line.split(':')[0].trim().toUpperCase();
+
+        if (/^[0-9A-F]{40}$/.test(hash)) {
+          hashes.add(hash);
+        }
+      }
+
+      logger.info('Breached password list loaded', { file: listFile, count: hashes.size });
+      return hashes;
+    } catch (error) {
+      throw new Error(
+        `Failed to read breached password list ${listFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, 32);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+
+    if (scheme !== 'scrypt' || !salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+
+    return crypto.timingSafeEqual(expected, actual);
+  }
+}
+
+export const passwordPolicyService = new PasswordPolicyService();
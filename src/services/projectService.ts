@@ -72,8 +72,12 @@ export class ProjectService {
 
   /**
    * Get projects for a user with optional filtering and pagination
+   * A null userId (service principals) lists projects of every user
    */
-  async getProjects(userId: string, query: ListProjectsQuery): Promise<PaginationResponse<Project>> {
+  async getProjects(
+    userId: string | null,
+    query: ListProjectsQuery
+  ): Promise<PaginationResponse<Project>> {
     const { status, page = 1, limit = 10 } = query;
     const offset = (page - 1) * limit;
 
@@ -84,9 +88,12 @@ export class ProjectService {
       let projectQuery = supabaseAdmin
         .from('projects')
         .select('*', { count: 'exact' })
-        .eq('user_id', userId)
         .order('created_at', { ascending: false });
 
+      if (userId) {
+        projectQuery = projectQuery.eq('user_id', userId);
+      }
+
       // Add status filter if provided
       if (status) {
         projectQuery = projectQuery.eq('status', status);
@@ -133,18 +140,22 @@ export class ProjectService {
   }
 
   /**
-   * Get a specific project by ID (with ownership validation)
+   * Get a specific project by ID (with ownership validation unless userId is null)
    */
-  async getProjectById(userId: string, projectId: string): Promise<Project> {
+  async getProjectById(userId: string | null, projectId: string): Promise<Project> {
     try {
       logger.info('Fetching project by ID', { userId, projectId });
 
-      const { data: project, error } = await supabaseAdmin
+      let projectQuery = supabaseAdmin
         .from('projects')
         .select('*')
-        .eq('id', projectId)
-        .eq('user_id', userId) // Ensure ownership
-        .single();
+        .eq('id', projectId);
+
+      if (userId) {
+        projectQuery = projectQuery.eq('user_id', userId); // Ensure ownership
+      }
+
+      const { data: project, error } = await projectQuery.single();
 
       if (error) {
         if (error.code === 'PGRST116') { // No rows returned
@@ -174,9 +185,13 @@ export class ProjectService {
   }
 
   /**
-   * Update a project (with ownership validation)
+   * Update a project (with ownership validation unless userId is null)
    */
-  async updateProject(userId: string, projectId: string, updateData: UpdateProjectRequest): Promise<Project> {
+  async updateProject(
+    userId: string | null,
+    projectId: string,
+    updateData: UpdateProjectRequest
+  ): Promise<Project> {
     const { name, status } = updateData;
 
     try {
@@ -190,7 +205,7 @@ export class ProjectService {
         const { data: duplicateProject, error: checkError } = await supabaseAdmin
           .from('projects')
           .select('id')
-          .eq('user_id', userId)
+          .eq('user_id', existingProject.user_id)
           .eq('name', name)
           .neq('id', projectId)
           .single();
@@ -229,7 +244,7 @@ export class ProjectService {
         .from('projects')
         .update(updateObject)
         .eq('id', projectId)
-        .eq('user_id', userId) // Ensure ownership
+        .eq('user_id', existingProject.user_id) // Ensure ownership
         .select()
         .single();
 
@@ -257,21 +272,21 @@ export class ProjectService {
   }
 
   /**
-   * Delete a project (with ownership validation)
+   * Delete a project (with ownership validation unless userId is null)
    */
-  async deleteProject(userId: string, projectId: string): Promise<void> {
+  async deleteProject(userId: string | null, projectId: string): Promise<void> {
     try {
       logger.info('Deleting project', { userId, projectId });
 
       // First check if project exists and user owns it
-      await this.getProjectById(userId, projectId);
+      const existingProject = await this.getProjectById(userId, projectId);
 
       // Delete the project
       const { error: deleteError } = await supabaseAdmin
         .from('projects')
         .delete()
         .eq('id', projectId)
-        .eq('user_id', userId); // Ensure ownership
+        .eq('user_id', existingProject.user_id); // Ensure ownership
 
       if (deleteError) {
         logger.error('Failed to delete project:', { error: deleteError.message, userId, projectId });
@@ -0,0 +1,103 @@
+import { User as AuthUser } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/supabase';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { ReconciliationReport } from '../utils/types';
+import { reconciliationService } from './reconciliationService';
+
+describe('reconciliationService', () => {
+  const db = useSupabaseFake();
+
+  const authUser = (id: string, email: string) => ({ id, email }) as AuthUser;
+
+  beforeEach(() => {
+    db.seed('users', [
+      {
+        id: 'linked',
+        email: 'linked@example.com',
+        status: 'active',
+        auth_user_id: 'auth-linked',
+        auth_source: 'supabase',
+      },
+      {
+        id: 'sso',
+        email: 'sso@example.com',
+        status: 'active',
+        auth_user_id: null,
+        auth_source: 'sso',
+      },
+      {
+        id: 'missing',
+        email: 'missing@example.com',
+        status: 'active',
+        auth_user_id: null,
+        auth_source: 'supabase',
+      },
+      {
+        id: 'unlinked',
+        email: 'unlinked@example.com',
+        status: 'active',
+        auth_user_id: null,
+        auth_source: 'supabase',
+      },
+    ]);
+
+    jest.spyOn(supabaseAdmin.auth.admin, 'listUsers').mockResolvedValue({
+      data: {
+        users: [
+          authUser('auth-linked', 'linked@example.com'),
+          authUser('auth-unlinked', 'unlinked@example.com'),
+        ],
+        aud: 'authenticated',
+      },
+      error: null,
+    } as any);
+  });
+
+  const runToCompletion = async (mode: 'dry_run' | 'apply'): Promise<ReconciliationReport> => {
+    const { id } = await reconciliationService.start(mode, 'admin-id');
+
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const report = db.rows('reconciliation_reports').find(row => row.id === id);
+
+      if (report && report.status !== 'running') {
+        return report as ReconciliationReport;
+      }
+
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    throw new Error('Reconciliation did not finish');
+  };
+
+  it('counts SSO-provisioned users apart instead of reporting them as missing', async () => {
+    const report = await runToCompletion('dry_run');
+
+    expect(report.status).toBe('completed');
+    expect(report.summary).toMatchObject({
+      system_users: 4,
+      auth_users: 2,
+      sso_only: 1,
+      drift: expect.objectContaining({
+        missing_auth_user: 1,
+        unlinked_user: 1,
+        orphaned_auth_user: 0,
+      }),
+    });
+    expect(report.items?.find(item => item.type === 'missing_auth_user')?.user_id).toBe('missing');
+    expect(report.items?.some(item => item.user_id === 'sso')).toBe(false);
+  });
+
+  it('links users matched by email in apply mode and leaves SSO users alone', async () => {
+    const report = await runToCompletion('apply');
+
+    expect(report.summary).toMatchObject({ repaired: 1, failed: 0 });
+
+    const users = Object.fromEntries(db.rows('users').map(user => [user.id, user.auth_user_id]));
+    expect(users).toEqual({
+      linked: 'auth-linked',
+      sso: null,
+      missing: null,
+      unlinked: 'auth-unlinked',
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { User as AuthUser } from '@supabase/supabase-js';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import {
+  AuthSource,
+  DriftItem,
+  DriftType,
+  ReconciliationMode,
+  ReconciliationReport,
+  ReconciliationSummary,
+} from '../utils/types';
+import { authIdentityService } from './authIdentityService';
+
+const USERS_PAGE_SIZE = 1000;
+
+// Report listings leave out the drift items, they can be large
+const SUMMARY_COLUMNS = 'id, mode, status, triggered_by, summary, error, started_at, completed_at';
+
+const CSV_COLUMNS: (keyof DriftItem)[] = [
+  'type',
+  'user_id',
+  'auth_user_id',
+  'email',
+  'auth_email',
+  'system_status',
+  'auth_banned',
+  'repairable',
+  'repaired',
+  'error',
+];
+
+interface SystemUserRow {
+  id: string;
+  email: string;
+  status: 'active' | 'inactive';
+  auth_user_id: string | null;
+  auth_source: AuthSource;
+}
+
+export class ReconciliationService {
+  private running = false;
+
+  /**
+   * Start a reconciliation run in the background and return its report, still running
+   * Only one run at a time per instance
+   */
+  async start(mode: ReconciliationMode, triggeredBy: string | null): Promise<ReconciliationReport> {
+    if (this.running) {
+      throw new Error('Reconciliation already running');
+    }
+
+    this.running = true;
+
+    try {
+      const { data: report, error } = await supabaseAdmin
+        .from('reconciliation_reports')
+        .insert({ mode, status: 'running', triggered_by: triggeredBy })
+        .select(SUMMARY_COLUMNS)
+        .single();
+
+      if (error || !report) {
+        logger.error('Failed to create reconciliation report:', { error: error?.message });
+        throw new Error('Failed to start reconciliation');
+      }
+
+      logger.info('Reconciliation started', { reportId: report.id, mode, triggeredBy });
+
+      void this.run(report as ReconciliationReport).finally(() => {
+        this.running = false;
+      });
+
+      return report as ReconciliationReport;
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Run on RECONCILIATION_INTERVAL_MINUTES, if set
+   * Every instance schedules its own runs
+   */
+  startSchedule(): void {
+    const { intervalMinutes, scheduledMode } = config.reconciliation;
+
+    if (intervalMinutes <= 0) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      this.start(scheduledMode, null).catch((error) => {
+        logger.warn('Scheduled reconciliation skipped:', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, intervalMinutes * 60 * 1000);
+
+    timer.unref();
+    logger.info('Reconciliation scheduled', { intervalMinutes, mode: scheduledMode });
+  }
+
+  /**
+   * Latest reports without their drift items
+   */
+  async list(limit: number = 20): Promise<ReconciliationReport[]> {
+    const { data: reports, error } = await supabaseAdmin
+      .from('reconciliation_reports')
+      .select(SUMMARY_COLUMNS)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Failed to list reconciliation reports:', { error: error.message });
+      throw new Error('Failed to list reconciliation reports');
+    }
+
+    return (reports || []) as ReconciliationReport[];
+  }
+
+  /**
+   * A report with every drift item
+   */
+  async get(reportId: string): Promise<ReconciliationReport> {
+    const { data: report, error } = await supabaseAdmin
+      .from('reconciliation_reports')
+      .select(`${SUMMARY_COLUMNS}, items`)
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to load reconciliation report:', { error: error.message, reportId });
+      throw new Error('Failed to load reconciliation report');
+    }
+
+    if (!report) {
+      throw new Error('Reconciliation report not found');
+    }
+
+    return report as ReconciliationReport;
+  }
+
+  /**
+   * Drift items as CSV, one row per item
+   */
+  toCsv(report: ReconciliationReport): string {
+    const escape = (value: unknown): string => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = (report.items || []).map(item =>
+      CSV_COLUMNS.map(column => escape(item[column])).join(',')
+    );
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  private async run(report: ReconciliationReport): Promise<void> {
+    try {
+      const { items, summary } = await this.detectDrift();
+
+      if (report.mode === 'apply') {
+        for (const item of items.filter(drift => drift.repairable)) {
+          await this.repair(item);
+
+          if (item.repaired) {
+            summary.repaired++;
+          } else {
+            summary.failed++;
+          }
+        }
+      }
+
+      await this.finish(report.id, { status: 'completed', summary, items });
+
+      logger.info('Reconciliation completed', {
+        reportId: report.id,
+        mode: report.mode,
+        ...summary,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Reconciliation failed:', { error: errorMessage, reportId: report.id });
+      await this.finish(report.id, { status: 'failed', error: errorMessage });
+    }
+  }
+
+  /**
+   * Walk both sides and classify every difference
+   * The users table is the source of truth for status, Supabase Auth for which accounts exist
+   */
+  private async detectDrift(): Promise<{ items: DriftItem[]; summary: ReconciliationSummary }> {
+    const systemUsers = await this.loadSystemUsers();
+    const linkedByAuthId = new Map<string, SystemUserRow>();
+    const unlinkedByEmail = new Map<string, SystemUserRow>();
+    let ssoOnlyCount = 0;
+
+    for (const user of systemUsers) {
+      if (user.auth_user_id) {
+        linkedByAuthId.set(user.auth_user_id, user);
+      } else if (user.auth_source === 'sso') {
+        // Provisioned from the IdP, these users never get a Supabase Auth account
+        ssoOnlyCount++;
+      } else {
+        unlinkedByEmail.set(user.email.toLowerCase(), user);
+      }
+    }
+
+    const items: DriftItem[] = [];
+    const matchedUserIds = new Set<string>();
+    let authUserCount = 0;
+
+    await authIdentityService.forEachAuthUserPage(async authUsers => {
+      for (const authUser of authUsers) {
+        authUserCount++;
+
+        const linked = linkedByAuthId.get(authUser.id);
+
+        if (linked) {
+          matchedUserIds.add(linked.id);
+
+          if (authUser.email?.toLowerCase() !== linked.email.toLowerCase()) {
+            items.push(this.createItem('email_mismatch', linked, authUser, false));
+          }
+
+          this.checkStatus(linked, authUser, items);
+          continue;
+        }
+
+        const unlinked = authUser.email
+          ? unlinkedByEmail.get(authUser.email.toLowerCase())
+          : undefined;
+
+        if (unlinked && !matchedUserIds.has(unlinked.id)) {
+          matchedUserIds.add(unlinked.id);
+          items.push(this.createItem('unlinked_user', unlinked, authUser, true));
+          this.checkStatus(unlinked, authUser, items);
+          continue;
+        }
+
+        items.push(this.createItem('orphaned_auth_user', null, authUser, false));
+      }
+    });
+
+    for (const user of systemUsers) {
+      if (!matchedUserIds.has(user.id) && (user.auth_user_id || user.auth_source !== 'sso')) {
+        items.push(this.createItem('missing_auth_user', user, null, false));
+      }
+    }
+
+    const drift = {
+      orphaned_auth_user: 0,
+      missing_auth_user: 0,
+      unlinked_user: 0,
+      email_mismatch: 0,
+      status_mismatch: 0,
+    } as Record<DriftType, number>;
+
+    for (const item of items) {
+      drift[item.type]++;
+    }
+
+    return {
+      items,
+      summary: {
+        system_users: systemUsers.length,
+        auth_users: authUserCount,
+        drift,
+        sso_only: ssoOnlyCount,
+        repaired: 0,
+        failed: 0,
+      },
+    };
+  }
+
+  private checkStatus(user: SystemUserRow, authUser: AuthUser, items: DriftItem[]): void {
+    const banned = authIdentityService.isBanned(authUser);
+
+    if (banned !== (user.status === 'inactive')) {
+      items.push(this.createItem('status_mismatch', user, authUser, true));
+    }
+  }
+
+  /**
+   * Fix a safe drift: link the account found by email, or apply the system status to the auth account
+   */
+  private async repair(item: DriftItem): Promise<void> {
+    try {
+      // Both drift types that can be repaired have both accounts
+      const { user_id: userId, auth_user_id: authUserId } = item;
+
+      if (!userId || !authUserId) {
+        throw new Error('Drift item has no account to repair');
+      }
+
+      if (item.type === 'unlinked_user') {
+        const { error } = await supabaseAdmin
+          .from('users')
+          .update({ auth_user_id: authUserId })
+          .eq('id', userId)
+          .is('auth_user_id', null);
+
+        if (error) {
+          throw new Error(error.message);
+        }
+      } else if (item.type === 'status_mismatch') {
+        await authIdentityService.setBanned(authUserId, item.system_status === 'inactive');
+      }
+
+      item.repaired = true;
+    } catch (error) {
+      item.error = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.warn('Failed to repair drift:', {
+        error: item.error,
+        type: item.type,
+        userId: item.user_id,
+        authUserId: item.auth_user_id,
+      });
+    }
+  }
+
+  private createItem(
+    type: DriftType,
+    user: SystemUserRow | null,
+    authUser: AuthUser | null,
+    repairable: boolean
+  ): DriftItem {
+    return {
+      type,
+      user_id: user?.id || null,
+      auth_user_id: authUser?.id || user?.auth_user_id || null,
+      email: user?.email || null,
+      auth_email: authUser?.email || null,
+      system_status: user?.status || null,
+      auth_banned: authUser ? authIdentityService.isBanned(authUser) : null,
+      repairable,
+      repaired: false,
+      error: null,
+    };
+  }
+
+  private async loadSystemUsers(): Promise<SystemUserRow[]> {
+    const users: SystemUserRow[] = [];
+
+    for (let from = 0; ; from += USERS_PAGE_SIZE) {
+      const { data: page, error } = await supabaseAdmin
+        .from('users')
+        .select('id, email, status, auth_user_id, auth_source')
+        .order('id')
+        .range(from, from + USERS_PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error('Failed to list users for reconciliation:', { error: error.message, from });
+        throw new Error('Failed to list users');
+      }
+
+      users.push(...((page || []) as SystemUserRow[]));
+
+      if (!page || page.length < USERS_PAGE_SIZE) {
+        return users;
+      }
+    }
+  }
+
+  private async finish(
+    reportId: string,
+    result: Pick<ReconciliationReport, 'status'> &
+      Partial<Pick<ReconciliationReport, 'summary' | 'items' | 'error'>>
+  ): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('reconciliation_reports')
+      .update({ ...result, completed_at: new Date().toISOString() })
+      .eq('id', reportId);
+
+    if (error) {
+      logger.error('Failed to save reconciliation report:', { error: error.message, reportId });
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
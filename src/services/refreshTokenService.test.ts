@@ -0,0 +1,71 @@
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { refreshTokenService } from './refreshTokenService';
+
+describe('refreshTokenService', () => {
+  const db = useSupabaseFake();
+
+  const activeTokens = (familyId: string) =>
+    db.rows('refresh_tokens').filter(row => row.family_id === familyId && !row.revoked_at);
+
+  it('rotates a token into a new one of the same family', async () => {
+    const token = await refreshTokenService.issue('user-1', 'family-1');
+
+    const rotated = await refreshTokenService.rotate(token);
+
+    expect(rotated).toMatchObject({ userId: 'user-1', familyId: 'family-1' });
+    expect(rotated.refreshToken).not.toBe(token);
+    expect(activeTokens('family-1')).toHaveLength(1);
+  });
+
+  it('revokes the whole family when a rotated token is presented again', async () => {
+    const token = await refreshTokenService.issue('user-1', 'family-1');
+    const otherSession = await refreshTokenService.issue('user-1', 'family-2');
+    const { refreshToken } = await refreshTokenService.rotate(token);
+
+    await expect(refreshTokenService.rotate(token)).rejects.toThrow('Refresh token reuse detected');
+
+    // The thief's or the victim's newer token dies with the family, other sessions survive
+    expect(activeTokens('family-1')).toHaveLength(0);
+    await expect(refreshTokenService.rotate(refreshToken)).rejects.toThrow(
+      'Refresh token reuse detected'
+    );
+    await expect(refreshTokenService.rotate(otherSession)).resolves.toMatchObject({
+      familyId: 'family-2',
+    });
+  });
+
+  it('lets only one of two concurrent rotations win and revokes the family', async () => {
+    const token = await refreshTokenService.issue('user-1', 'family-1');
+
+    const results = await Promise.allSettled([
+      refreshTokenService.rotate(token),
+      refreshTokenService.rotate(token),
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(activeTokens('family-1')).toHaveLength(0);
+  });
+
+  it('rejects expired and unknown tokens without revoking anything', async () => {
+    const token = await refreshTokenService.issue('user-1', 'family-1');
+    db.rows('refresh_tokens')[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+    await expect(refreshTokenService.rotate(token)).rejects.toThrow('Refresh token expired');
+    await expect(refreshTokenService.rotate('unknown')).rejects.toThrow('Invalid refresh token');
+    expect(activeTokens('family-1')).toHaveLength(1);
+  });
+
+  it('revokes the family when the user was deactivated since it was issued', async () => {
+    db.seed('profiles', [{ id: 'profile-user', name: 'user' }]);
+    db.seed('users', [
+      { id: 'user-1', email: 'user@example.com', status: 'inactive', profile_id: 'profile-user' },
+    ]);
+    const token = await refreshTokenService.issue('user-1', 'family-1');
+
+    await expect(authService.refreshToken({ refreshToken: token })).rejects.toThrow(
+      'User lookup failed'
+    );
+    expect(activeTokens('family-1')).toHaveLength(0);
+  });
+});
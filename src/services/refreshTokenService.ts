@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RefreshTokenRecord } from '../utils/types';
+
+export class RefreshTokenService {
+  /**
+   * Issue a new opaque refresh token
+   * A new family is started unless an existing family ID is provided (rotation)
+   */
+  async issue(userId: string, familyId?: string): Promise<string> {
+    const token = crypto.randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.jwt.refreshExpiresDays * 24 * 60 * 60 * 1000);
+
+    const { error } = await supabaseAdmin.from('refresh_tokens').insert({
+      user_id: userId,
+      family_id: familyId || crypto.randomUUID(),
+      token_hash: this.hashToken(token),
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (error) {
+      logger.error('Failed to store refresh token:', { error: error.message, userId });
+      throw new Error('Failed to issue refresh token');
+    }
+
+    return token;
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family
+   * Presenting an already rotated token revokes the whole family
+   */
+  async rotate(token: string): Promise<{ userId: string; familyId: string; refreshToken: string }> {
+    const { data: record, error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('*')
+      .eq('token_hash', this.hashToken(token))
+      .single();
+
+    if (error || !record) {
+      logger.warn('Refresh token not found');
+      throw new Error('Invalid refresh token');
+    }
+
+    const storedToken = record as RefreshTokenRecord;
+
+    if (storedToken.revoked_at) {
+      logger.warn('Refresh token reuse detected, revoking family', {
+        userId: storedToken.user_id,
+        familyId: storedToken.family_id,
+      });
+      await this.revokeFamily(storedToken.family_id);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    if (new Date(storedToken.expires_at).getTime() <= Date.now()) {
+      logger.warn('Expired refresh token used', { userId: storedToken.user_id });
+      throw new Error('Refresh token expired');
+    }
+
+    // Mark as used only if nobody rotated it concurrently
+    const { data: consumed, error: consumeError } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', storedToken.id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (consumeError) {
+      logger.error('Failed to consume refresh token:', { error: consumeError.message });
+      throw new Error('Failed to refresh token');
+    }
+
+    if (!consumed || consumed.length === 0) {
+      logger.warn('Refresh token consumed concurrently, revoking family', {
+        userId: storedToken.user_id,
+        familyId: storedToken.family_id,
+      });
+      await this.revokeFamily(storedToken.family_id);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const refreshToken = await this.issue(storedToken.user_id, storedToken.family_id);
+
+    return {
+      userId: storedToken.user_id,
+      familyId: storedToken.family_id,
+      refreshToken,
+    };
+  }
+
+  /**
+   * Look up a refresh token without consuming it, null when it does not exist
+   */
+  async inspect(token: string): Promise<RefreshTokenRecord | null> {
+    const { data: record, error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('*')
+      .eq('token_hash', this.hashToken(token))
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up refresh token:', { error: error.message });
+      throw new Error('Failed to look up refresh token');
+    }
+
+    return record as RefreshTokenRecord | null;
+  }
+
+  /**
+   * Revoke every active refresh token of a family
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('family_id', familyId)
+      .is('revoked_at', null);
+
+    if (error) {
+      logger.error('Failed to revoke refresh token family:', { error: error.message, familyId });
+      throw new Error('Failed to revoke refresh tokens');
+    }
+
+    logger.info('Refresh token family revoked', { familyId });
+  }
+
+  /**
+   * Revoke the family of a refresh token owned by the given user
+   */
+  async revokeByToken(token: string, userId: string): Promise<void> {
+    const { data: record, error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .select('family_id')
+      .eq('token_hash', this.hashToken(token))
+      .eq('user_id', userId)
+      .single();
+
+    if (error || !record) {
+      logger.warn('Refresh token not found for revocation', { userId });
+      return;
+    }
+
+    await this.revokeFamily(record.family_id);
+  }
+
+  /**
+   * Revoke every active refresh token of a user
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('refresh_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (error) {
+      logger.error('Failed to revoke refresh tokens for user:', { error: error.message, userId });
+      throw new Error('Failed to revoke refresh tokens');
+    }
+
+    logger.info('All refresh tokens revoked for user', { userId });
+  }
+
+  /**
+   * Hash tokens before storage so a database leak does not expose usable tokens
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
+
+export const refreshTokenService = new RefreshTokenService();
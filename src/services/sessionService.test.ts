@@ -0,0 +1,109 @@
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { refreshTokenService } from './refreshTokenService';
+import { SessionService } from './sessionService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+describe('SessionService', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+  let sessions: SessionService;
+
+  beforeEach(() => {
+    sessions = new SessionService();
+    tokenRevocationService.useStore(new InMemoryTokenRevocationStore());
+  });
+
+  const open = async (userId: string) => {
+    const session = await sessions.create(userId, { ip: '203.0.113.7', userAgent: 'jest' });
+    const refreshToken = await refreshTokenService.issue(userId, session.id);
+    clock.advance(1000);
+
+    return { ...session, refreshToken };
+  };
+
+  const flushTouches = () => new Promise(resolve => setImmediate(resolve));
+
+  it('lists the active sessions of a user, most recently used first', async () => {
+    const first = await open('user-1');
+    const second = await open('user-1');
+    await open('user-2');
+
+    sessions.touch(first.id);
+    await flushTouches();
+
+    const listed = await sessions.listForUser('user-1');
+
+    expect(listed.map(session => session.id)).toEqual([first.id, second.id]);
+    expect(listed[0]).toMatchObject({ ip: '203.0.113.7', user_agent: 'jest' });
+  });
+
+  it('signs out a session with its refresh and access tokens', async () => {
+    const session = await open('user-1');
+    const other = await open('user-1');
+
+    await sessions.revoke('user-1', session.id);
+
+    await expect(sessions.listForUser('user-1')).resolves.toMatchObject([{ id: other.id }]);
+    await expect(refreshTokenService.rotate(session.refreshToken)).rejects.toThrow(
+      'Refresh token reuse detected'
+    );
+    await expect(tokenRevocationService.isRevoked({ id: 'user-1', sid: session.id })).resolves.toBe(
+      true
+    );
+    await expect(tokenRevocationService.isRevoked({ id: 'user-1', sid: other.id })).resolves.toBe(
+      false
+    );
+  });
+
+  it('does not revoke sessions of another user', async () => {
+    const session = await open('user-2');
+
+    await expect(sessions.revoke('user-1', session.id)).rejects.toThrow('Session not found');
+
+    await expect(sessions.listForUser('user-2')).resolves.toHaveLength(1);
+    await expect(refreshTokenService.rotate(session.refreshToken)).resolves.toMatchObject({
+      userId: 'user-2',
+    });
+  });
+
+  it('signs out every other session of a user', async () => {
+    const current = await open('user-1');
+    await open('user-1');
+    await open('user-1');
+
+    await sessions.revokeAllForUser('user-1', current.id);
+
+    await expect(sessions.listForUser('user-1')).resolves.toMatchObject([{ id: current.id }]);
+  });
+
+  it('goes on revoking when a listed session is already gone', async () => {
+    const other = await open('user-1');
+    const signedOut = await open('user-1');
+    const listed = await sessions.listForUser('user-1');
+
+    // Signed out between the listing and its revocation
+    await sessions.revoke('user-1', signedOut.id);
+    jest.spyOn(sessions, 'listForUser').mockResolvedValueOnce(listed);
+
+    await expect(sessions.revokeAllForUser('user-1')).resolves.toBeUndefined();
+    expect(db.rows('sessions').find(session => session.id === other.id)?.revoked_at).toBeTruthy();
+  });
+
+  it('throttles last seen updates of the same session', async () => {
+    const session = await open('user-1');
+    const updates = () =>
+      db.queries.filter(query => query.table === 'sessions' && query.action === 'update').length;
+
+    sessions.touch(session.id);
+    sessions.touch(session.id);
+    await flushTouches();
+    expect(updates()).toBe(1);
+
+    clock.advance(60 * 1000);
+    sessions.touch(session.id);
+    await flushTouches();
+    expect(updates()).toBe(2);
+    expect(db.rows('sessions')[0].last_seen_at).toBe(new Date(clock.now).toISOString());
+  });
+});
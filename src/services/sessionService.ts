@@ -0,0 +1,161 @@
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { RequestContext, Session } from '../utils/types';
+import { refreshTokenService } from './refreshTokenService';
+import { tokenRevocationService } from './tokenRevocationService';
+
+// Minimum interval between last_seen_at writes for the same session
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export class SessionService {
+  private lastTouched = new Map<string, number>();
+
+  /**
+   * Record a new login session
+   */
+  async create(userId: string, context: RequestContext): Promise<Session> {
+    const now = new Date().toISOString();
+
+    const { data: session, error } = await supabaseAdmin
+      .from('sessions')
+      .insert({
+        user_id: userId,
+        user_agent: context.userAgent || null,
+        ip: context.ip || null,
+        last_seen_at: now,
+      })
+      .select()
+      .single();
+
+    if (error || !session) {
+      logger.error('Failed to create session:', { error: error?.message, userId });
+      throw new Error('Failed to create session');
+    }
+
+    logger.info('Session created', { userId, sessionId: session.id, ip: context.ip });
+    return session;
+  }
+
+  /**
+   * Update last_seen_at, throttled so authenticated requests do not all hit the database
+   * Never throws: a failed touch must not fail the request
+   */
+  touch(sessionId: string): void {
+    const now = Date.now();
+    const lastTouched = this.lastTouched.get(sessionId);
+
+    if (lastTouched && now - lastTouched < TOUCH_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastTouched.delete(sessionId);
+    this.forgetStaleTouches(now);
+    this.lastTouched.set(sessionId, now);
+
+    supabaseAdmin
+      .from('sessions')
+      .update({ last_seen_at: new Date(now).toISOString() })
+      .eq('id', sessionId)
+      .then(
+        ({ error }) => {
+          if (error) {
+            logger.warn('Failed to update session last seen:', { error: error.message, sessionId });
+          }
+        },
+        touchError => {
+          logger.warn('Failed to update session last seen:', {
+            error: touchError instanceof Error ? touchError.message : 'Unknown error',
+            sessionId,
+          });
+        }
+      );
+  }
+
+  /**
+   * List the active sessions of a user, most recently used first
+   */
+  async listForUser(userId: string): Promise<Session[]> {
+    const { data: sessions, error } = await supabaseAdmin
+      .from('sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      logger.error('Failed to list sessions:', { error: error.message, userId });
+      throw new Error('Failed to list sessions');
+    }
+
+    return sessions || [];
+  }
+
+  /**
+   * Sign out a session: its refresh tokens and access tokens stop working
+   */
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const { data: revoked, error } = await supabaseAdmin
+      .from('sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', sessionId)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Failed to revoke session:', { error: error.message, userId, sessionId });
+      throw new Error('Failed to revoke session');
+    }
+
+    if (!revoked || revoked.length === 0) {
+      logger.warn('Session not found for revocation', { userId, sessionId });
+      throw new Error('Session not found');
+    }
+
+    // The session ID is also the refresh token family ID
+    await refreshTokenService.revokeFamily(sessionId);
+    await tokenRevocationService.revokeSession(sessionId);
+    this.lastTouched.delete(sessionId);
+
+    logger.info('Session revoked', { userId, sessionId });
+  }
+
+  /**
+   * Revoke every session of a user except, optionally, the current one
+   */
+  async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<void> {
+    const sessions = await this.listForUser(userId);
+
+    for (const session of sessions) {
+      if (session.id === exceptSessionId) {
+        continue;
+      }
+
+      try {
+        await this.revoke(userId, session.id);
+      } catch (error) {
+        // Signed out or expired since the listing, the others still have to go
+        if (!(error instanceof Error) || error.message !== 'Session not found') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop entries older than the touch interval, they no longer throttle anything
+   * Expired or abandoned sessions would otherwise stay in the map forever
+   */
+  private forgetStaleTouches(now: number): void {
+    // Entries are re-inserted on every touch, so the map is ordered oldest first
+    for (const [sessionId, touchedAt] of this.lastTouched) {
+      if (now - touchedAt < TOUCH_INTERVAL_MS) {
+        break;
+      }
+
+      this.lastTouched.delete(sessionId);
+    }
+  }
+}
+
+export const sessionService = new SessionService();
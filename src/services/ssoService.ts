@@ -0,0 +1,512 @@
+import crypto from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import axiosInstance, { retryRequest } from '../config/axios';
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { loadSsoProviders, SsoProvider } from '../config/ssoProviders';
+import { logger } from '../utils/logger';
+import {
+  LoginResponse,
+  MfaChallengeResponse,
+  PendingSsoLogin,
+  SsoIdentity,
+  SsoProviderSummary,
+} from '../utils/types';
+
+// Time the user has to sign in at the IdP
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+// Time the frontend has to redeem the code it was redirected with
+const LOGIN_CODE_TTL_MS = 60 * 1000;
+
+// Discovery documents and key sets are fetched again after this long
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+// Asymmetric algorithms only, an IdP must never sign ID tokens with a shared secret we would have to trust
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+];
+
+export type SsoLoginResult = LoginResponse | MfaChallengeResponse;
+
+interface OidcMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface Cached<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Failed SSO callback, carries the frontend URL the user is sent back to
+ */
+export class SsoLoginError extends Error {
+  constructor(
+    message: string,
+    public readonly redirectUrl: string
+  ) {
+    super(message);
+    this.name = 'SsoLoginError';
+  }
+}
+
+/**
+ * Storage backend for logins in progress
+ * Implement this interface when instances do not share memory, the callback may reach another instance
+ */
+export interface SsoStateStore {
+  savePendingLogin(state: string, login: PendingSsoLogin, expiresAt: Date): Promise<void>;
+  takePendingLogin(state: string): Promise<PendingSsoLogin | null>;
+  saveLoginResult(code: string, result: SsoLoginResult, expiresAt: Date): Promise<void>;
+  takeLoginResult(code: string): Promise<SsoLoginResult | null>;
+}
+
+/**
+ * Default in-process store, logins in progress are lost on restart
+ */
+export class InMemorySsoStateStore implements SsoStateStore {
+  private pendingLogins = new Map<string, Cached<PendingSsoLogin>>();
+  private loginResults = new Map<string, Cached<SsoLoginResult>>();
+
+  async savePendingLogin(state: string, login: PendingSsoLogin, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.pendingLogins.set(state, { value: login, expiresAt: expiresAt.getTime() });
+  }
+
+  async takePendingLogin(state: string): Promise<PendingSsoLogin | null> {
+    return this.take(this.pendingLogins, state);
+  }
+
+  async saveLoginResult(code: string, result: SsoLoginResult, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.loginResults.set(code, { value: result, expiresAt: expiresAt.getTime() });
+  }
+
+  async takeLoginResult(code: string): Promise<SsoLoginResult | null> {
+    return this.take(this.loginResults, code);
+  }
+
+  // Entries are single use
+  private take<T>(entries: Map<string, Cached<T>>, key: string): T | null {
+    const entry = entries.get(key);
+    entries.delete(key);
+
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const entries of [this.pendingLogins, this.loginResults] as Map<
+      string,
+      Cached<unknown>
+    >[]) {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+  }
+}
+
+export class SsoService {
+  private providers: SsoProvider[] = loadSsoProviders();
+  private store: SsoStateStore = new InMemorySsoStateStore();
+  private metadata = new Map<string, Cached<OidcMetadata>>();
+  private keySets = new Map<string, Cached<crypto.JsonWebKey[]>>();
+
+  /**
+   * Replace the login state backend
+   */
+  useStore(store: SsoStateStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Providers offered on the login page
+   */
+  listProviders(): SsoProviderSummary[] {
+    return this.providers.map(({ id, name }) => ({ id, name }));
+  }
+
+  getProvider(providerId: string): SsoProvider {
+    const provider = this.providers.find(candidate => candidate.id === providerId);
+
+    if (!provider) {
+      throw new Error('SSO provider not found');
+    }
+
+    return provider;
+  }
+
+  /**
+   * Build the authorization code + PKCE request to the IdP
+   * The redirect target must be on FRONTEND_URL, anything else falls back to LOGIN_REDIRECT_URL
+   */
+  async startLogin(providerId: string, redirect?: string): Promise<string> {
+    const provider = this.getProvider(providerId);
+    const metadata = await this.getMetadata(provider);
+
+    const state = this.randomToken();
+    const nonce = this.randomToken();
+    const codeVerifier = this.randomToken();
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await this.store.savePendingLogin(
+      state,
+      {
+        provider: provider.id,
+        codeVerifier,
+        nonce,
+        redirectUrl: this.resolveRedirectUrl(redirect),
+      },
+      new Date(Date.now() + PENDING_LOGIN_TTL_MS)
+    );
+
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    authorizationUrl.searchParams.set('response_type', 'code');
+    authorizationUrl.searchParams.set('client_id', provider.clientId);
+    authorizationUrl.searchParams.set('redirect_uri', this.getCallbackUrl(provider));
+    authorizationUrl.searchParams.set('scope', provider.scopes.join(' '));
+    authorizationUrl.searchParams.set('state', state);
+    authorizationUrl.searchParams.set('nonce', nonce);
+    authorizationUrl.searchParams.set('code_challenge', codeChallenge);
+    authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+
+    logger.info('SSO login started', { provider: provider.id });
+    return authorizationUrl.toString();
+  }
+
+  /**
+   * Resolve the state returned by the IdP to the login that started it, once
+   */
+  async takePendingLogin(providerId: string, state?: string): Promise<PendingSsoLogin> {
+    const pending = state ? await this.store.takePendingLogin(state) : null;
+
+    if (!pending || pending.provider !== providerId) {
+      logger.warn('Invalid SSO state', { provider: providerId });
+      throw new Error('Invalid or expired SSO state');
+    }
+
+    return pending;
+  }
+
+  /**
+   * Redeem the authorization code and verify the ID token it returns
+   */
+  async verifyAuthorizationCode(
+    providerId: string,
+    code: string,
+    pending: PendingSsoLogin
+  ): Promise<SsoIdentity> {
+    const provider = this.getProvider(providerId);
+    const metadata = await this.getMetadata(provider);
+    const idToken = await this.redeemCode(provider, metadata, code, pending.codeVerifier);
+
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Invalid ID token');
+    }
+
+    const key = await this.getVerificationKey(provider, metadata, decoded.header.kid);
+    let claims: JwtPayload;
+
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: provider.issuer,
+        audience: provider.clientId,
+      }) as JwtPayload;
+    } catch (verifyError) {
+      logger.warn('ID token verification failed', {
+        provider: provider.id,
+        error: verifyError instanceof Error ? verifyError.message : 'Unknown error',
+      });
+      throw new Error('Invalid ID token');
+    }
+
+    // The nonce ties the ID token to this login, a token replayed from another login is rejected
+    if (!claims.sub || claims.nonce !== pending.nonce) {
+      logger.warn('ID token nonce or subject mismatch', { provider: provider.id });
+      throw new Error('Invalid ID token');
+    }
+
+    const fullName = [claims.given_name, claims.family_name].filter(Boolean).join(' ');
+
+    return {
+      provider: provider.id,
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name || fullName || null,
+      claims,
+    };
+  }
+
+  /**
+   * Profile name for an identity from the provider claim mapping, null when none applies
+   */
+  resolveProfileName(provider: SsoProvider, identity: SsoIdentity): string | null {
+    const claim = provider.profileClaim ? identity.claims[provider.profileClaim] : undefined;
+    const values = Array.isArray(claim) ? claim : claim !== undefined ? [claim] : [];
+
+    for (const value of values) {
+      if (typeof value === 'string' && provider.profileMapping[value]) {
+        return provider.profileMapping[value];
+      }
+    }
+
+    return provider.defaultProfile || null;
+  }
+
+  /**
+   * User previously linked to an IdP subject
+   */
+  async findLinkedUserId(providerId: string, subject: string): Promise<string | null> {
+    const { data: identity, error } = await supabaseAdmin
+      .from('user_sso_identities')
+      .select('user_id')
+      .eq('provider', providerId)
+      .eq('subject', subject)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up SSO identity:', {
+        error: error.message,
+        provider: providerId,
+      });
+      throw new Error('Failed to look up SSO identity');
+    }
+
+    return identity?.user_id || null;
+  }
+
+  /**
+   * Link an IdP subject to a user, or record a new login of an existing link
+   */
+  async linkIdentity(identity: SsoIdentity, userId: string): Promise<void> {
+    const { error } = await supabaseAdmin.from('user_sso_identities').upsert(
+      {
+        user_id: userId,
+        provider: identity.provider,
+        subject: identity.subject,
+        email: identity.email,
+        last_login_at: new Date().toISOString(),
+      },
+      { onConflict: 'provider,subject' }
+    );
+
+    if (error) {
+      logger.error('Failed to link SSO identity:', {
+        error: error.message,
+        provider: identity.provider,
+        userId,
+      });
+      throw new Error('Failed to link SSO identity');
+    }
+  }
+
+  /**
+   * Keep the login response for the frontend, which redeems it once with the returned code
+   * Tokens never travel in the redirect URL
+   */
+  async saveLoginResult(result: SsoLoginResult): Promise<string> {
+    const code = this.randomToken();
+    await this.store.saveLoginResult(code, result, new Date(Date.now() + LOGIN_CODE_TTL_MS));
+    return code;
+  }
+
+  async takeLoginResult(code: string): Promise<SsoLoginResult> {
+    const result = await this.store.takeLoginResult(code);
+
+    if (!result) {
+      throw new Error('Invalid or expired SSO login code');
+    }
+
+    return result;
+  }
+
+  buildRedirect(target: string, params: Record<string, string>): string {
+    const url = new URL(target);
+
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+
+    return url.toString();
+  }
+
+  private resolveRedirectUrl(redirect?: string): string {
+    if (!redirect) {
+      return config.frontend.loginRedirectUrl;
+    }
+
+    try {
+      if (new URL(redirect).origin === new URL(config.frontend.url).origin) {
+        return redirect;
+      }
+    } catch (urlError) {
+      // Invalid URLs are treated like foreign ones
+    }
+
+    logger.warn('SSO redirect outside FRONTEND_URL ignored', { redirect });
+    return config.frontend.loginRedirectUrl;
+  }
+
+  private getCallbackUrl(provider: SsoProvider): string {
+    return `${config.baseUrl}/api/auth/sso/${provider.id}/callback`;
+  }
+
+  private async redeemCode(
+    provider: SsoProvider,
+    metadata: OidcMetadata,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.getCallbackUrl(provider),
+      code_verifier: codeVerifier,
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    // Only missing with the none method, the provider schema requires it otherwise
+    const clientSecret = provider.clientSecret || '';
+
+    if (provider.tokenEndpointAuthMethod === 'client_secret_basic') {
+      // Credentials are form-encoded before base64 (RFC 6749 section 2.3.1)
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_id', provider.clientId);
+
+      if (provider.tokenEndpointAuthMethod === 'client_secret_post') {
+        body.set('client_secret', clientSecret);
+      }
+    }
+
+    try {
+      // Not retried, authorization codes are single use
+      const { data } = await axiosInstance.post(metadata.token_endpoint, body.toString(), {
+        headers,
+      });
+
+      if (!data || typeof data.id_token !== 'string') {
+        throw new Error('Token response has no id_token');
+      }
+
+      return data.id_token;
+    } catch (error) {
+      logger.error('SSO code exchange failed:', {
+        provider: provider.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error('SSO code exchange failed');
+    }
+  }
+
+  private async getMetadata(provider: SsoProvider): Promise<OidcMetadata> {
+    const cached = this.metadata.get(provider.id);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    const discoveryUrl = `${provider.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+
+    try {
+      const { data } = await retryRequest(() => axiosInstance.get<OidcMetadata>(discoveryUrl));
+
+      if (
+        data.issuer !== provider.issuer ||
+        !data.authorization_endpoint ||
+        !data.token_endpoint ||
+        !data.jwks_uri
+      ) {
+        throw new Error('Discovery document does not match the configured issuer');
+      }
+
+      this.metadata.set(provider.id, { value: data, expiresAt: Date.now() + METADATA_TTL_MS });
+      return data;
+    } catch (error) {
+      logger.error('Failed to load OIDC discovery document:', {
+        provider: provider.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error('Failed to reach identity provider');
+    }
+  }
+
+  /**
+   * Find the ID token key in the IdP key set, fetched again once when the kid is unknown (key rotation)
+   */
+  private async getVerificationKey(
+    provider: SsoProvider,
+    metadata: OidcMetadata,
+    kid?: string
+  ): Promise<crypto.KeyObject> {
+    for (const forceRefresh of [false, true]) {
+      const keys = await this.getKeySet(provider, metadata, forceRefresh);
+      const signingKeys = keys.filter(key => !key.use || key.use === 'sig');
+      const match = kid
+        ? signingKeys.find(key => key.kid === kid)
+        : signingKeys.length === 1
+          ? signingKeys[0]
+          : undefined;
+
+      if (match) {
+        return crypto.createPublicKey({ key: match, format: 'jwk' });
+      }
+    }
+
+    logger.warn('ID token signed with an unknown key', { provider: provider.id, kid });
+    throw new Error('Invalid ID token');
+  }
+
+  private async getKeySet(
+    provider: SsoProvider,
+    metadata: OidcMetadata,
+    forceRefresh: boolean
+  ): Promise<crypto.JsonWebKey[]> {
+    const cached = this.keySets.get(provider.id);
+
+    if (!forceRefresh && cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+
+    try {
+      const { data } = await retryRequest(() =>
+        axiosInstance.get<{ keys: crypto.JsonWebKey[] }>(metadata.jwks_uri)
+      );
+      const keys = Array.isArray(data.keys) ? data.keys : [];
+
+      this.keySets.set(provider.id, { value: keys, expiresAt: Date.now() + METADATA_TTL_MS });
+      return keys;
+    } catch (error) {
+      logger.error('Failed to load IdP key set:', {
+        provider: provider.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new Error('Failed to reach identity provider');
+    }
+  }
+
+  private randomToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+}
+
+export const ssoService = new SsoService();
@@ -0,0 +1,96 @@
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { refreshTokenService } from './refreshTokenService';
+import { InMemoryTokenRevocationStore, tokenRevocationService } from './tokenRevocationService';
+
+describe('token revocation', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+  const accessToken = (jti: string) => ({
+    id: 'user-1',
+    email: 'user@example.com',
+    profile_id: 'profile-user',
+    profile_name: 'user',
+    jti,
+    iat: nowInSeconds(),
+    exp: nowInSeconds() + 15 * 60,
+  });
+
+  let store: InMemoryTokenRevocationStore;
+
+  beforeEach(() => {
+    store = new InMemoryTokenRevocationStore();
+    tokenRevocationService.useStore(store);
+  });
+
+  describe('tokenRevocationService', () => {
+    it('rejects a revoked token until it would have expired anyway', async () => {
+      const token = accessToken('jti-1');
+
+      await tokenRevocationService.revokeToken(token.jti, token.exp);
+
+      await expect(tokenRevocationService.isRevoked(token)).resolves.toBe(true);
+      await expect(tokenRevocationService.isRevoked(accessToken('jti-2'))).resolves.toBe(false);
+
+      clock.advance(15 * 60 * 1000);
+      await expect(tokenRevocationService.isRevoked(token)).resolves.toBe(false);
+    });
+
+    it('revokes every token of the user issued up to the revocation second', async () => {
+      await tokenRevocationService.revokeAllForUser('user-1');
+
+      const revokedAt = (await store.getUserRevokedAt('user-1')) as Date;
+      const revocationSecond = Math.floor(revokedAt.getTime() / 1000);
+      const token = accessToken('jti-1');
+
+      await expect(
+        tokenRevocationService.isRevoked({ ...token, iat: revocationSecond })
+      ).resolves.toBe(true);
+      await expect(
+        tokenRevocationService.isRevoked({ ...token, iat: revocationSecond + 1 })
+      ).resolves.toBe(false);
+      await expect(
+        tokenRevocationService.isRevoked({ ...token, id: 'user-2', iat: revocationSecond })
+      ).resolves.toBe(false);
+    });
+
+    it('forgets a user revocation once no token issued before it can still be used', async () => {
+      await tokenRevocationService.revokeAllForUser('user-1');
+
+      clock.advance(30 * 24 * 60 * 60 * 1000 - 1);
+      await expect(store.getUserRevokedAt('user-1')).resolves.not.toBeNull();
+
+      clock.advance(1);
+      await expect(store.getUserRevokedAt('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('authService.logout', () => {
+    it('revokes the access token and the refresh token family', async () => {
+      const refreshToken = await refreshTokenService.issue('user-1', 'family-1');
+      const token = accessToken('jti-1');
+
+      await authService.logout(token, { refreshToken });
+
+      await expect(tokenRevocationService.isRevoked(token)).resolves.toBe(true);
+      expect(db.rows('refresh_tokens').every(row => row.revoked_at)).toBe(true);
+      await expect(refreshTokenService.rotate(refreshToken)).rejects.toThrow(
+        'Refresh token reuse detected'
+      );
+    });
+
+    it('leaves refresh tokens of other users alone', async () => {
+      const refreshToken = await refreshTokenService.issue('user-2', 'family-2');
+
+      await authService.logout(accessToken('jti-1'), { refreshToken });
+
+      await expect(refreshTokenService.rotate(refreshToken)).resolves.toMatchObject({
+        familyId: 'family-2',
+      });
+    });
+  });
+});
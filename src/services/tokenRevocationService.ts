@@ -0,0 +1,154 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Storage backend for revoked access tokens
+ * Implement this interface to share revocations between instances (e.g. Redis)
+ */
+export interface TokenRevocationStore {
+  revokeToken(jti: string, expiresAt: Date): Promise<void>;
+  isTokenRevoked(jti: string): Promise<boolean>;
+  revokeUserTokens(userId: string, revokedAt: Date, expiresAt: Date): Promise<void>;
+  getUserRevokedAt(userId: string): Promise<Date | null>;
+  revokeSession(sessionId: string, expiresAt: Date): Promise<void>;
+  isSessionRevoked(sessionId: string): Promise<boolean>;
+}
+
+/**
+ * Default in-process store, revocations are lost on restart
+ */
+export class InMemoryTokenRevocationStore implements TokenRevocationStore {
+  private revokedTokens = new Map<string, number>();
+  private revokedUsers = new Map<string, { revokedAt: number; expiresAt: number }>();
+  private revokedSessions = new Map<string, number>();
+
+  async revokeToken(jti: string, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.revokedTokens.set(jti, expiresAt.getTime());
+  }
+
+  async isTokenRevoked(jti: string): Promise<boolean> {
+    const expiresAt = this.revokedTokens.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async revokeUserTokens(userId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.revokedUsers.set(userId, {
+      revokedAt: revokedAt.getTime(),
+      expiresAt: expiresAt.getTime(),
+    });
+  }
+
+  async getUserRevokedAt(userId: string): Promise<Date | null> {
+    const revocation = this.revokedUsers.get(userId);
+    return revocation && revocation.expiresAt > Date.now() ? new Date(revocation.revokedAt) : null;
+  }
+
+  async revokeSession(sessionId: string, expiresAt: Date): Promise<void> {
+    this.purgeExpired();
+    this.revokedSessions.set(sessionId, expiresAt.getTime());
+  }
+
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    const expiresAt = this.revokedSessions.get(sessionId);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const entries of [this.revokedTokens, this.revokedSessions]) {
+      for (const [key, expiresAt] of entries) {
+        if (expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+
+    for (const [userId, { expiresAt }] of this.revokedUsers) {
+      if (expiresAt <= now) {
+        this.revokedUsers.delete(userId);
+      }
+    }
+  }
+}
+
+export class TokenRevocationService {
+  private store: TokenRevocationStore = new InMemoryTokenRevocationStore();
+
+  /**
+   * Replace the revocation backend
+   */
+  useStore(store: TokenRevocationStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Revoke a single access token until it would have expired anyway
+   */
+  async revokeToken(jti: string, exp: number): Promise<void> {
+    await this.store.revokeToken(jti, new Date(exp * 1000));
+    logger.info('Access token revoked', { jti });
+  }
+
+  /**
+   * Revoke every access token issued to a user up to now
+   * Kept as long as a refresh token issued before now could have been used, access tokens expire sooner
+   */
+  async revokeAllForUser(userId: string): Promise<void> {
+    await this.store.revokeUserTokens(userId, new Date(), this.refreshTokenLifetimeEnd());
+    logger.info('All access tokens revoked for user', { userId });
+  }
+
+  /**
+   * Revoke every access token bound to a session
+   * Kept as long as a refresh token of the session could have been used
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    await this.store.revokeSession(sessionId, this.refreshTokenLifetimeEnd());
+    logger.info('Session tokens revoked', { sessionId });
+  }
+
+  /**
+   * Check a decoded token against token, session and user level revocations
+   * Impersonation tokens are also revoked with the tokens of the acting admin
+   */
+  async isRevoked(payload: {
+    id: string;
+    jti?: string;
+    sid?: string;
+    act?: { sub: string };
+    iat?: number;
+  }): Promise<boolean> {
+    if (payload.jti && (await this.store.isTokenRevoked(payload.jti))) {
+      return true;
+    }
+
+    if (payload.sid && (await this.store.isSessionRevoked(payload.sid))) {
+      return true;
+    }
+
+    if (await this.isRevokedForUser(payload.id, payload.iat)) {
+      return true;
+    }
+
+    return !!payload.act && (await this.isRevokedForUser(payload.act.sub, payload.iat));
+  }
+
+  private refreshTokenLifetimeEnd(): Date {
+    return new Date(Date.now() + config.jwt.refreshExpiresDays * 24 * 60 * 60 * 1000);
+  }
+
+  private async isRevokedForUser(userId: string, iat?: number): Promise<boolean> {
+    const userRevokedAt = await this.store.getUserRevokedAt(userId);
+
+    if (userRevokedAt && iat !== undefined) {
+      // iat has second precision, so tokens from the revocation second are revoked too
+      return iat <= Math.floor(userRevokedAt.getTime() / 1000);
+    }
+
+    return false;
+  }
+}
+
+export const tokenRevocationService = new TokenRevocationService();
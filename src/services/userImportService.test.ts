@@ -0,0 +1,128 @@
+import { useSupabaseFake } from '../test/supabaseFake';
+import { authService } from './authService';
+import { mailService } from './mailService';
+import { userImportService } from './userImportService';
+
+const USER_PROFILE = '6f1c2b0a-0000-4000-8000-000000000001';
+const ADMIN_PROFILE = '6f1c2b0a-0000-4000-8000-000000000002';
+
+const CSV = [
+  'name,email,profile',
+  'Ana,ana@example.com,user',
+  '"Silva, Bruno",bruno@example.com,Admin',
+  'Carla,not-an-email,user',
+  'Dani,dani@example.com,unknown',
+  'Ana Again,ANA@example.com,user',
+  'Existing,existing@example.com,user',
+  'Pending,Pending@Example.com,user',
+  'Legacy,legacy@example.com,user',
+].join('\r\n');
+
+describe('userImportService', () => {
+  const db = useSupabaseFake();
+  let sendMail: jest.SpyInstance;
+
+  beforeEach(() => {
+    sendMail = jest.spyOn(mailService, 'send').mockImplementation(() => undefined);
+
+    db.seed('profiles', [
+      { id: USER_PROFILE, name: 'user' },
+      { id: ADMIN_PROFILE, name: 'admin' },
+    ]);
+    db.seed('users', [
+      { email: 'existing@example.com', status: 'active', profile_id: USER_PROFILE },
+      // Stored with the case it was typed in
+      { email: 'Legacy@Example.com', status: 'active', profile_id: USER_PROFILE },
+    ]);
+    db.seed('invitations', [
+      {
+        email: 'pending@example.com',
+        profile_id: USER_PROFILE,
+        accepted_at: null,
+        revoked_at: null,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      },
+    ]);
+  });
+
+  const statuses = (rows: { row: number; status: string }[]) =>
+    Object.fromEntries(rows.map(({ row, status }) => [row, status]));
+
+  it('reports every row in dry-run mode without inviting anyone', async () => {
+    const report = await userImportService.import('admin-1', CSV, 'dry_run');
+
+    expect(statuses(report.rows)).toEqual({
+      1: 'valid',
+      2: 'valid',
+      3: 'invalid',
+      4: 'invalid',
+      5: 'duplicate',
+      6: 'duplicate',
+      7: 'duplicate',
+      8: 'duplicate',
+    });
+    expect(report.summary).toEqual({
+      total: 8,
+      valid: 2,
+      invalid: 2,
+      duplicate: 4,
+      created: 0,
+      failed: 0,
+    });
+    expect(report.rows[3].errors).toEqual(['profile: Profile not found']);
+    expect(report.rows[4].errors).toEqual(['email: Duplicate of row 1']);
+    expect(report.rows[6].errors).toEqual([
+      'email: An invitation is already pending for this email',
+    ]);
+    expect(report.rows[7].errors).toEqual(['email: User already exists']);
+    expect(db.rows('invitations')).toHaveLength(1);
+  });
+
+  it('invites the valid rows in apply mode', async () => {
+    const report = await userImportService.import('admin-1', CSV, 'apply');
+
+    expect(report.summary).toMatchObject({ valid: 0, created: 2, invalid: 2, duplicate: 4 });
+    expect(report.rows[0]).toMatchObject({ status: 'created', invite_url: expect.any(String) });
+
+    const invitations = db.rows('invitations').filter(row => row.invited_by === 'admin-1');
+    expect(invitations.map(row => [row.name, row.email, row.profile_id])).toEqual([
+      ['Ana', 'ana@example.com', USER_PROFILE],
+      ['Silva, Bruno', 'bruno@example.com', ADMIN_PROFILE],
+    ]);
+
+    expect(sendMail.mock.calls.map(([to]) => to).sort()).toEqual([
+      'ana@example.com',
+      'bruno@example.com',
+    ]);
+  });
+
+  it('accepts JSON rows and reports a failed invitation without stopping the others', async () => {
+    const invite = jest.spyOn(authService, 'inviteUser');
+    invite.mockRejectedValueOnce(new Error('Failed to create invitation'));
+
+    const report = await userImportService.import(
+      'admin-1',
+      [
+        { name: 'Ana', email: 'ana@example.com', profile: 'user' },
+        { name: 'Bruno', email: ' bruno@example.com ', profile_id: ADMIN_PROFILE },
+      ],
+      'apply'
+    );
+
+    expect(statuses(report.rows)).toEqual({ 1: 'failed', 2: 'created' });
+    expect(report.rows[0].errors).toEqual(['Failed to create invitation']);
+    expect(invite).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects files that cannot be imported at all', async () => {
+    await expect(
+      userImportService.import('admin-1', 'name,email\nAna,a@b.com', 'dry_run')
+    ).rejects.toThrow('Invalid import file: missing column profile');
+    await expect(
+      userImportService.import('admin-1', 'name,email,profile\n', 'dry_run')
+    ).rejects.toThrow('Import file has no rows');
+    await expect(
+      userImportService.import('admin-1', 'name,email,profile\n"Ana,a@b.com,user', 'dry_run')
+    ).rejects.toThrow('unterminated quoted field');
+  });
+});
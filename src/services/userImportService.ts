@@ -0,0 +1,369 @@
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { escapeLike, toFilterValue } from '../utils/postgrestFilters';
+import { authValidation } from '../middlewares/validationSchemas';
+import { CreateUserRequest, UserImportMode, UserImportReport, UserImportRow } from '../utils/types';
+import { authService } from './authService';
+
+// Emails per lookup, keeps the or() filter well under URL length limits
+const EMAIL_LOOKUP_CHUNK = 50;
+
+const REQUIRED_COLUMNS = ['name', 'email', 'profile'];
+
+// Raw values of a row, profile is a profile name or ID
+interface ImportInput {
+  name: unknown;
+  email: unknown;
+  profile: unknown;
+}
+
+interface ValidRow {
+  report: UserImportRow;
+  data: CreateUserRequest;
+}
+
+export class UserImportService {
+  /**
+   * Validate a CSV or JSON list of users and, in apply mode, invite the valid ones
+   * Rows that fail do not stop the others, every row gets a result in the report
+   */
+  async import(
+    invitedBy: string,
+    content: string | Record<string, unknown>[],
+    mode: UserImportMode
+  ): Promise<UserImportReport> {
+    const inputs =
+      typeof content === 'string'
+        ? this.parseCsv(content)
+        : content.map(item => this.fromJson(item));
+
+    if (inputs.length === 0) {
+      throw new Error('Import file has no rows');
+    }
+
+    if (inputs.length > config.userImport.maxRows) {
+      throw new Error(`Import file exceeds the limit of ${config.userImport.maxRows} rows`);
+    }
+
+    logger.info('User import started', { invitedBy, mode, rows: inputs.length });
+
+    const profileIds = await this.loadProfileIds();
+    const rows: UserImportRow[] = [];
+    const validRows: ValidRow[] = [];
+    const firstRowByEmail = new Map<string, number>();
+
+    inputs.forEach((input, index) => {
+      const report: UserImportRow = {
+        row: index + 1,
+        email: typeof input.email === 'string' && input.email !== '' ? input.email : null,
+        status: 'valid',
+        errors: [],
+      };
+      rows.push(report);
+
+      const data = this.validateRow(input, profileIds, report);
+
+      if (!data) {
+        report.status = 'invalid';
+        return;
+      }
+
+      const emailKey = data.email.toLowerCase();
+      const firstRow = firstRowByEmail.get(emailKey);
+
+      if (firstRow !== undefined) {
+        report.status = 'duplicate';
+        report.errors.push(`email: Duplicate of row ${firstRow}`);
+        return;
+      }
+
+      firstRowByEmail.set(emailKey, report.row);
+      validRows.push({ report, data });
+    });
+
+    const pendingRows = await this.markExisting(validRows);
+
+    if (mode === 'apply') {
+      await this.createInvitations(invitedBy, pendingRows);
+    }
+
+    const report: UserImportReport = { mode, summary: this.summarize(rows), rows };
+
+    logger.info('User import finished', { invitedBy, mode, ...report.summary });
+    return report;
+  }
+
+  /**
+   * Invite the rows in batches, a failed row is reported and the others go on
+   * Invitations create nothing in Supabase Auth, so failures leave no account behind
+   */
+  private async createInvitations(invitedBy: string, rows: ValidRow[]): Promise<void> {
+    const { batchSize } = config.userImport;
+
+    for (let start = 0; start < rows.length; start += batchSize) {
+      const batch = rows.slice(start, start + batchSize);
+
+      await Promise.all(
+        batch.map(async ({ report, data }) => {
+          try {
+            const result = await authService.inviteUser(invitedBy, data);
+
+            report.status = 'created';
+            report.invitation_id = result.invitation.id;
+            report.invite_url = result.inviteUrl;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+            // Someone else invited or created the same email since the checks ran
+            report.status =
+              errorMessage.includes('already exists') || errorMessage.includes('already pending')
+                ? 'duplicate'
+                : 'failed';
+            report.errors.push(errorMessage);
+          }
+        })
+      );
+    }
+  }
+
+  /**
+   * Flag rows whose email is already a user or has a pending invitation, return the others
+   * Emails are compared without case, stored ones keep the case they were typed in
+   */
+  private async markExisting(rows: ValidRow[]): Promise<ValidRow[]> {
+    const emails = rows.map(({ data }) => data.email.toLowerCase());
+    const existingUsers = new Set<string>();
+    const pendingInvitations = new Set<string>();
+
+    for (let start = 0; start < emails.length; start += EMAIL_LOOKUP_CHUNK) {
+      const emailFilter = emails
+        .slice(start, start + EMAIL_LOOKUP_CHUNK)
+        .map(email => `email.ilike.${toFilterValue(escapeLike(email))}`)
+        .join(',');
+
+      const { data: users, error: usersError } = await supabaseAdmin
+        .from('users')
+        .select('email')
+        .or(emailFilter);
+
+      if (usersError) {
+        logger.error('Failed to check existing users for import:', { error: usersError.message });
+        throw new Error('Failed to import users');
+      }
+
+      const { data: invitations, error: invitationsError } = await supabaseAdmin
+        .from('invitations')
+        .select('email')
+        .or(emailFilter)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString());
+
+      if (invitationsError) {
+        logger.error('Failed to check pending invitations for import:', {
+          error: invitationsError.message,
+        });
+        throw new Error('Failed to import users');
+      }
+
+      (users || []).forEach(user => existingUsers.add(user.email.toLowerCase()));
+      (invitations || []).forEach(invitation =>
+        pendingInvitations.add(invitation.email.toLowerCase())
+      );
+    }
+
+    return rows.filter(({ report, data }) => {
+      const email = data.email.toLowerCase();
+
+      if (existingUsers.has(email)) {
+        report.status = 'duplicate';
+        report.errors.push('email: User already exists');
+        return false;
+      }
+
+      if (pendingInvitations.has(email)) {
+        report.status = 'duplicate';
+        report.errors.push('email: An invitation is already pending for this email');
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Resolve the profile and validate the row with the same rules as POST /api/auth/users
+   */
+  private validateRow(
+    input: ImportInput,
+    profileIds: Map<string, string>,
+    report: UserImportRow
+  ): CreateUserRequest | null {
+    const profile = typeof input.profile === 'string' ? input.profile : undefined;
+    const profileId = profile
+      ? (profileIds.get(profile) ?? profileIds.get(profile.toLowerCase()))
+      : undefined;
+
+    const result = authValidation.createUser.body.safeParse({
+      name: input.name,
+      email: input.email,
+      profile_id: profileId ?? (input.profile === '' ? undefined : input.profile),
+    });
+
+    if (result.success && profileId) {
+      return result.data;
+    }
+
+    if (!result.success) {
+      result.error.errors.forEach(issue => {
+        const field = issue.path[0] === 'profile_id' ? 'profile' : issue.path.join('.');
+
+        // An unknown profile is reported once below, not as a malformed ID
+        if (field !== 'profile' || !profile) {
+          report.errors.push(`${field}: ${issue.message}`);
+        }
+      });
+    }
+
+    if (profile && !profileId) {
+      report.errors.push('profile: Profile not found');
+    }
+
+    return null;
+  }
+
+  /**
+   * Map profile IDs and lowercase names to IDs
+   */
+  private async loadProfileIds(): Promise<Map<string, string>> {
+    const { data: profiles, error } = await supabaseAdmin.from('profiles').select('id, name');
+
+    if (error) {
+      logger.error('Failed to load profiles for import:', { error: error.message });
+      throw new Error('Failed to import users');
+    }
+
+    const profileIds = new Map<string, string>();
+
+    (profiles || []).forEach(profile => {
+      profileIds.set(profile.id, profile.id);
+      profileIds.set(profile.name.toLowerCase(), profile.id);
+    });
+
+    return profileIds;
+  }
+
+  private summarize(rows: UserImportRow[]): UserImportReport['summary'] {
+    const summary: UserImportReport['summary'] = {
+      total: rows.length,
+      valid: 0,
+      invalid: 0,
+      duplicate: 0,
+      created: 0,
+      failed: 0,
+    };
+
+    rows.forEach(row => {
+      summary[row.status]++;
+    });
+
+    return summary;
+  }
+
+  private fromJson(item: Record<string, unknown>): ImportInput {
+    const trim = (value: unknown) => (typeof value === 'string' ? value.trim() : value);
+
+    return {
+      name: trim(item.name),
+      email: trim(item.email),
+      profile: trim(item.profile ?? item.profile_id),
+    };
+  }
+
+  /**
+   * Parse RFC 4180 CSV with a header row, blank lines are skipped
+   * profile_id is accepted as the header of the profile column
+   */
+  private parseCsv(content: string): ImportInput[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+    const text = content.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new Error('Invalid import file: unterminated quoted field');
+    }
+
+    if (field !== '' || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const [header, ...dataRows] = records.filter(values =>
+      values.some(value => value.trim() !== '')
+    );
+
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(column => {
+      const name = column.trim().toLowerCase();
+      return name === 'profile_id' ? 'profile' : name;
+    });
+
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+
+    if (missing.length > 0) {
+      throw new Error(`Invalid import file: missing column ${missing.join(', ')}`);
+    }
+
+    return dataRows.map(values => {
+      const valueOf = (column: string) => {
+        const value = values[columns.indexOf(column)];
+        return value !== undefined ? value.trim() : undefined;
+      };
+
+      return {
+        name: valueOf('name'),
+        email: valueOf('email'),
+        profile: valueOf('profile'),
+      };
+    });
+  }
+}
+
+export const userImportService = new UserImportService();
@@ -0,0 +1,89 @@
+import { useFakeClock } from '../test/clock';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { userService } from './userService';
+
+describe('userService', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  beforeEach(() => {
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+
+    const users = [
+      { id: 'user-1', name: 'Ana Lima', email: 'ana@example.com', status: 'active' },
+      { id: 'user-2', name: 'Bruno', email: 'bruno@corp.example', status: 'inactive' },
+      { id: 'user-3', name: 'Carla 100%', email: 'carla@example.com', status: 'active' },
+      { id: 'user-4', name: 'Diego', email: 'diego@example.com', status: 'active' },
+    ];
+
+    for (const user of users) {
+      db.seed('users', [
+        { ...user, profile_id: user.id === 'user-4' ? 'profile-admin' : 'profile-user' },
+      ]);
+      clock.advance(1000);
+    }
+  });
+
+  const ids = (result: { items: { id: string }[] }) => result.items.map(user => user.id);
+
+  describe('list', () => {
+    it('pages through every user, newest first, inactive ones included', async () => {
+      const firstPage = await userService.list({ page: 1, limit: 3 });
+
+      expect(ids(firstPage)).toEqual(['user-4', 'user-3', 'user-2']);
+      expect(firstPage.pagination).toEqual({ page: 1, limit: 3, total: 4, pages: 2 });
+      expect(firstPage.items[0]).toMatchObject({ profile_name: 'admin' });
+      expect(firstPage.items[0]).not.toHaveProperty('profiles');
+
+      await expect(userService.list({ page: 2, limit: 3 }).then(ids)).resolves.toEqual(['user-1']);
+    });
+
+    it('searches names and emails without case and takes wildcards literally', async () => {
+      await expect(userService.list({ search: 'LIMA' }).then(ids)).resolves.toEqual(['user-1']);
+      await expect(userService.list({ search: 'corp.' }).then(ids)).resolves.toEqual(['user-2']);
+      await expect(userService.list({ search: '0%' }).then(ids)).resolves.toEqual(['user-3']);
+      await expect(userService.list({ search: '_' }).then(ids)).resolves.toEqual([]);
+    });
+
+    it('filters by status, profile and creation date and sorts by any column', async () => {
+      await expect(
+        userService
+          .list({ status: 'active', profile_id: 'profile-user', sort: 'name', order: 'asc' })
+          .then(ids)
+      ).resolves.toEqual(['user-1', 'user-3']);
+
+      const createdAt = db.rows('users').map(user => user.created_at);
+      await expect(
+        userService.list({ created_from: createdAt[1], created_to: createdAt[3] }).then(ids)
+      ).resolves.toEqual(['user-3', 'user-2']);
+    });
+  });
+
+  describe('getById', () => {
+    it('returns the user with project counts by status', async () => {
+      db.seed('projects', [
+        { user_id: 'user-2', status: 'active' },
+        { user_id: 'user-2', status: 'active' },
+        { user_id: 'user-2', status: 'completed' },
+        { user_id: 'user-1', status: 'active' },
+      ]);
+
+      await expect(userService.getById('user-2')).resolves.toMatchObject({
+        id: 'user-2',
+        status: 'inactive',
+        profile_name: 'user',
+        projects: {
+          total: 3,
+          by_status: { pending: 0, active: 2, completed: 1, cancelled: 0 },
+        },
+      });
+    });
+
+    it('reports unknown users', async () => {
+      await expect(userService.getById('missing')).rejects.toThrow('User not found');
+    });
+  });
+});
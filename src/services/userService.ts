@@ -0,0 +1,137 @@
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { escapeLike, toFilterValue } from '../utils/postgrestFilters';
+import {
+  ListUsersQuery,
+  PaginationResponse,
+  Project,
+  UserDetails,
+  UserWithProfile,
+} from '../utils/types';
+
+const USER_COLUMNS =
+  'id, name, email, status, profile_id, auth_user_id, auth_source, created_at, profiles(name)';
+
+const PROJECT_STATUSES: Project['status'][] = ['pending', 'active', 'completed', 'cancelled'];
+
+export class UserService {
+  /**
+   * Page through users, inactive ones included, with search, filters and sorting
+   */
+  async list(query: ListUsersQuery): Promise<PaginationResponse<UserWithProfile>> {
+    const { page = 1, limit = 10, sort = 'created_at', order = 'desc' } = query;
+    const offset = (page - 1) * limit;
+
+    let userQuery = supabaseAdmin
+      .from('users')
+      .select(USER_COLUMNS, { count: 'exact' })
+      .order(sort, { ascending: order === 'asc' });
+
+    // Stable order between pages when the sort column has duplicates
+    if (sort !== 'created_at') {
+      userQuery = userQuery.order('created_at', { ascending: false });
+    }
+
+    if (query.search) {
+      const pattern = toFilterValue(`%${escapeLike(query.search)}%`);
+      userQuery = userQuery.or(`name.ilike.${pattern},email.ilike.${pattern}`);
+    }
+
+    if (query.status) {
+      userQuery = userQuery.eq('status', query.status);
+    }
+
+    if (query.profile_id) {
+      userQuery = userQuery.eq('profile_id', query.profile_id);
+    }
+
+    if (query.created_from) {
+      userQuery = userQuery.gte('created_at', query.created_from);
+    }
+
+    if (query.created_to) {
+      userQuery = userQuery.lt('created_at', query.created_to);
+    }
+
+    const { data: users, error, count } = await userQuery.range(offset, offset + limit - 1);
+
+    if (error) {
+      logger.error('Failed to list users:', { error: error.message, query });
+      throw new Error('Failed to list users');
+    }
+
+    const total = count || 0;
+
+    return {
+      items: (users || []).map(user => this.toUserWithProfile(user)),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Load a user, inactive ones included, with its profile and project counts
+   */
+  async getById(userId: string): Promise<UserDetails> {
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to fetch user:', { error: error.message, userId });
+      throw new Error('Failed to fetch user');
+    }
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const counts = await Promise.all(
+      PROJECT_STATUSES.map(status => this.countProjects(userId, status))
+    );
+
+    const byStatus = Object.fromEntries(
+      PROJECT_STATUSES.map((status, index) => [status, counts[index]])
+    ) as Record<Project['status'], number>;
+
+    return {
+      ...this.toUserWithProfile(user),
+      projects: {
+        total: counts.reduce((sum, count) => sum + count, 0),
+        by_status: byStatus,
+      },
+    };
+  }
+
+  private async countProjects(userId: string, status: Project['status']): Promise<number> {
+    const { count, error } = await supabaseAdmin
+      .from('projects')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('status', status);
+
+    if (error) {
+      logger.error('Failed to count projects:', { error: error.message, userId, status });
+      throw new Error('Failed to fetch user');
+    }
+
+    return count || 0;
+  }
+
+  private toUserWithProfile(user: any): UserWithProfile {
+    const { profiles, ...fields } = user;
+
+    return {
+      ...fields,
+      profile_name: profiles?.name || 'user',
+    };
+  }
+}
+
+export const userService = new UserService();
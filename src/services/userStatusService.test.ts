@@ -0,0 +1,95 @@
+import { authenticate } from '../middlewares/authenticate';
+import { useFakeClock } from '../test/clock';
+import { runMiddleware } from '../test/http';
+import { useSupabaseFake } from '../test/supabaseFake';
+import { jwtService } from './jwtService';
+import { UserStatusService, userStatusService } from './userStatusService';
+
+describe('live user status', () => {
+  const db = useSupabaseFake();
+  const clock = useFakeClock();
+
+  beforeEach(() => {
+    db.seed('profiles', [
+      { id: 'profile-admin', name: 'admin' },
+      { id: 'profile-user', name: 'user' },
+    ]);
+    db.seed('users', [
+      { id: 'user-1', email: 'user@example.com', status: 'active', profile_id: 'profile-user' },
+    ]);
+  });
+
+  describe('UserStatusService', () => {
+    let statuses: UserStatusService;
+
+    beforeEach(() => {
+      statuses = new UserStatusService();
+    });
+
+    const lookups = () => db.queries.filter(query => query.table === 'users').length;
+
+    it('caches the state of a user for the configured TTL', async () => {
+      await expect(statuses.getState('user-1')).resolves.toEqual({
+        status: 'active',
+        profile_id: 'profile-user',
+        profile_name: 'user',
+      });
+
+      db.rows('users')[0].status = 'inactive';
+      await expect(statuses.getState('user-1')).resolves.toMatchObject({ status: 'active' });
+      expect(lookups()).toBe(1);
+
+      clock.advance(30 * 1000);
+      await expect(statuses.getState('user-1')).resolves.toMatchObject({ status: 'inactive' });
+      expect(lookups()).toBe(2);
+    });
+
+    it('reloads the state after invalidate and reports removed users as null', async () => {
+      await statuses.getState('user-1');
+      db.tables.users = [];
+
+      statuses.invalidate('user-1');
+
+      await expect(statuses.getState('user-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('authenticate', () => {
+    const bearer = () => ({
+      authorization: `Bearer ${jwtService.sign(
+        {
+          id: 'user-1',
+          email: 'user@example.com',
+          profile_id: 'profile-user',
+          profile_name: 'user',
+        },
+        { expiresIn: '15m' }
+      )}`,
+    });
+
+    beforeEach(() => {
+      userStatusService.invalidate('user-1');
+    });
+
+    it('applies the current profile instead of the one in the token', async () => {
+      const headers = bearer();
+      db.rows('users')[0].profile_id = 'profile-admin';
+
+      const result = await runMiddleware(authenticate, { headers });
+
+      expect(result.nextCalled).toBe(true);
+      expect(result.req.user).toMatchObject({ profile_id: 'profile-admin', profile_name: 'admin' });
+    });
+
+    it('rejects tokens of users deactivated since they were issued', async () => {
+      const headers = bearer();
+      db.rows('users')[0].status = 'inactive';
+
+      const result = await runMiddleware(authenticate, { headers });
+
+      expect(result.nextCalled).toBe(false);
+      expect(result.status).toBe(401);
+      expect(result.body.data.code).toBe('USER_INACTIVE');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { supabaseAdmin } from '../config/supabase';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { UserState } from '../utils/types';
+
+interface CachedUserState {
+  // null when the user no longer exists
+  state: UserState | null;
+  expiresAt: number;
+}
+
+export class UserStatusService {
+  private cache = new Map<string, CachedUserState>();
+
+  /**
+   * Current status and profile of a user, cached in process for USER_STATUS_CACHE_TTL_SECONDS
+   * Returns null when the user does not exist
+   */
+  async getState(userId: string): Promise<UserState | null> {
+    const now = Date.now();
+    const cached = this.cache.get(userId);
+
+    if (cached && cached.expiresAt > now) {
+      return cached.state;
+    }
+
+    const { data: user, error } = await supabaseAdmin
+      .from('users')
+      .select('status, profile_id, profiles(name)')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Failed to look up user status:', { error: error.message, userId });
+      throw new Error('Failed to look up user status');
+    }
+
+    const state: UserState | null = user
+      ? {
+          status: user.status,
+          profile_id: user.profile_id,
+          profile_name: (user.profiles as any)?.name || 'user',
+        }
+      : null;
+
+    this.purgeExpired(now);
+    this.cache.set(userId, { state, expiresAt: now + config.userStatus.cacheTtlSeconds * 1000 });
+
+    return state;
+  }
+
+  /**
+   * Drop the cached state of a user, call after changing their status or profile
+   * Only clears this instance, other instances catch up when their entry expires
+   */
+  invalidate(userId: string): void {
+    this.cache.delete(userId);
+  }
+
+  private purgeExpired(now: number): void {
+    for (const [userId, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(userId);
+      }
+    }
+  }
+}
+
+export const userStatusService = new UserStatusService();
@@ -0,0 +1,115 @@
+import { MailTemplates, escapeHtml, formatDate, renderHtml } from './layout';
+
+const greeting = (name?: string): string => (name ? `Hello ${name},` : 'Hello,');
+
+export const en: MailTemplates = {
+  invite: ({ name, inviteUrl, expiresAt }) => {
+    const subject = 'You have been invited';
+    const expires = formatDate(expiresAt, 'en');
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'An account has been created for you. Open the link below to choose your password:',
+        inviteUrl,
+        `The link expires on ${expires}.`,
+      ].join('\n\n'),
+      html: renderHtml(
+        subject,
+        [
+          escapeHtml(greeting(name)),
+          'An account has been created for you. Use the button below to choose your password.',
+          `The link expires on ${escapeHtml(expires)}.`,
+        ],
+        { label: 'Accept invitation', url: inviteUrl }
+      ),
+    };
+  },
+
+  password_reset: ({ name, resetUrl }) => {
+    const subject = 'Reset your password';
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'We received a request to reset your password. Open the link below to choose a new one:',
+        resetUrl,
+        'If you did not request this, you can ignore this email.',
+      ].join('\n\n'),
+      html: renderHtml(
+        subject,
+        [
+          escapeHtml(greeting(name)),
+          'We received a request to reset your password. Use the button below to choose a new one.',
+          'If you did not request this, you can ignore this email.',
+        ],
+        { label: 'Reset password', url: resetUrl }
+      ),
+    };
+  },
+
+  password_changed: ({ name, changedAt }) => {
+    const subject = 'Your password was changed';
+    const changed = formatDate(changedAt, 'en');
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        `The password of your account was changed on ${changed}.`,
+        'If you did not make this change, reset your password and contact an administrator immediately.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        `The password of your account was changed on ${escapeHtml(changed)}.`,
+        'If you did not make this change, reset your password and contact an administrator immediately.',
+      ]),
+    };
+  },
+
+  account_deactivated: ({ name }) => {
+    const subject = 'Your account was deactivated';
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Your account was deactivated by an administrator and all of your sessions were signed out.',
+        'Contact an administrator if you think this is a mistake.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        'Your account was deactivated by an administrator and all of your sessions were signed out.',
+        'Contact an administrator if you think this is a mistake.',
+      ]),
+    };
+  },
+
+  new_login: ({ name, loggedInAt, ip, userAgent }) => {
+    const subject = 'New sign-in to your account';
+    const when = formatDate(loggedInAt, 'en');
+    const details = [
+      `Time: ${when}`,
+      `IP address: ${ip || 'unknown'}`,
+      `Device: ${userAgent || 'unknown'}`,
+    ];
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Your account was just used to sign in from a new device or location:',
+        details.join('\n'),
+        'If this was not you, change your password and sign out your other sessions.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        'Your account was just used to sign in from a new device or location:',
+        details.map(escapeHtml).join('<br>'),
+        'If this was not you, change your password and sign out your other sessions.',
+      ]),
+    };
+  },
+};
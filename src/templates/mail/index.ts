@@ -0,0 +1,22 @@
+import { MailLocale, MailTemplateData, MailTemplateName, RenderedMail } from '../../utils/types';
+import { MailTemplates } from './layout';
+import { en } from './en';
+import { ptBR } from './ptBR';
+
+// Add a locale by translating every template of `en` and registering it here
+const templates: Record<MailLocale, MailTemplates> = {
+  en,
+  'pt-BR': ptBR,
+};
+
+/**
+ * Render the subject, text and HTML bodies of a template in the given locale
+ */
+export const renderMailTemplate = <K extends MailTemplateName>(
+  name: K,
+  data: MailTemplateData[K],
+  locale: MailLocale
+): RenderedMail => {
+  const render = templates[locale][name] as (templateData: MailTemplateData[K]) => RenderedMail;
+  return render(data);
+};
@@ -0,0 +1,55 @@
+import { MailLocale, MailTemplateData, MailTemplateName, RenderedMail } from '../../utils/types';
+
+export type MailTemplates = {
+  [K in MailTemplateName]: (data: MailTemplateData[K]) => RenderedMail;
+};
+
+/**
+ * Escape user-controlled values before interpolating them in HTML
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Format an ISO timestamp for the recipient's locale, always in UTC
+ */
+export const formatDate = (iso: string, locale: MailLocale): string =>
+  `${new Date(iso).toLocaleString(locale, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC',
+  })} UTC`;
+
+/**
+ * Wrap paragraphs (already escaped) and an optional call to action in the shared HTML layout
+ */
+export const renderHtml = (
+  title: string,
+  paragraphs: string[],
+  action?: { label: string; url: string }
+): string => {
+  const body = paragraphs
+    .map(paragraph => `<p style="margin:0 0 16px;line-height:1.5">${paragraph}</p>`)
+    .join('\n');
+
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#2563eb;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">${escapeHtml(action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family:Arial,Helvetica,sans-serif;color:#111827;background:#f9fafb;padding:24px">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">
+<h1 style="font-size:20px;margin:0 0 24px">${escapeHtml(title)}</h1>
+${body}
+${button}
+</div>
+</body>
+</html>`;
+};
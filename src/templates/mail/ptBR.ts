@@ -0,0 +1,115 @@
+import { MailTemplates, escapeHtml, formatDate, renderHtml } from './layout';
+
+const greeting = (name?: string): string => (name ? `Olá ${name},` : 'Olá,');
+
+export const ptBR: MailTemplates = {
+  invite: ({ name, inviteUrl, expiresAt }) => {
+    const subject = 'Você foi convidado';
+    const expires = formatDate(expiresAt, 'pt-BR');
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Uma conta foi criada para você. Abra o link abaixo para escolher sua senha:',
+        inviteUrl,
+        `O link expira em ${expires}.`,
+      ].join('\n\n'),
+      html: renderHtml(
+        subject,
+        [
+          escapeHtml(greeting(name)),
+          'Uma conta foi criada para você. Use o botão abaixo para escolher sua senha.',
+          `O link expira em ${escapeHtml(expires)}.`,
+        ],
+        { label: 'Aceitar convite', url: inviteUrl }
+      ),
+    };
+  },
+
+  password_reset: ({ name, resetUrl }) => {
+    const subject = 'Redefinição de senha';
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Recebemos um pedido para redefinir sua senha. Abra o link abaixo para escolher uma nova:',
+        resetUrl,
+        'Se você não fez este pedido, ignore este email.',
+      ].join('\n\n'),
+      html: renderHtml(
+        subject,
+        [
+          escapeHtml(greeting(name)),
+          'Recebemos um pedido para redefinir sua senha. Use o botão abaixo para escolher uma nova.',
+          'Se você não fez este pedido, ignore este email.',
+        ],
+        { label: 'Redefinir senha', url: resetUrl }
+      ),
+    };
+  },
+
+  password_changed: ({ name, changedAt }) => {
+    const subject = 'Sua senha foi alterada';
+    const changed = formatDate(changedAt, 'pt-BR');
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        `A senha da sua conta foi alterada em ${changed}.`,
+        'Se você não fez esta alteração, redefina sua senha e contate um administrador imediatamente.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        `A senha da sua conta foi alterada em ${escapeHtml(changed)}.`,
+        'Se você não fez esta alteração, redefina sua senha e contate um administrador imediatamente.',
+      ]),
+    };
+  },
+
+  account_deactivated: ({ name }) => {
+    const subject = 'Sua conta foi desativada';
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Sua conta foi desativada por um administrador e todas as suas sessões foram encerradas.',
+        'Contate um administrador se acreditar que isso é um engano.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        'Sua conta foi desativada por um administrador e todas as suas sessões foram encerradas.',
+        'Contate um administrador se acreditar que isso é um engano.',
+      ]),
+    };
+  },
+
+  new_login: ({ name, loggedInAt, ip, userAgent }) => {
+    const subject = 'Novo acesso à sua conta';
+    const when = formatDate(loggedInAt, 'pt-BR');
+    const details = [
+      `Data: ${when}`,
+      `Endereço IP: ${ip || 'desconhecido'}`,
+      `Dispositivo: ${userAgent || 'desconhecido'}`,
+    ];
+
+    return {
+      subject,
+      text: [
+        greeting(name),
+        'Sua conta acabou de ser acessada a partir de um novo dispositivo ou local:',
+        details.join('\n'),
+        'Se não foi você, altere sua senha e encerre as outras sessões.',
+      ].join('\n\n'),
+      html: renderHtml(subject, [
+        escapeHtml(greeting(name)),
+        'Sua conta acabou de ser acessada a partir de um novo dispositivo ou local:',
+        details.map(escapeHtml).join('<br>'),
+        'Se não foi você, altere sua senha e encerre as outras sessões.',
+      ]),
+    };
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * Drive Date.now() and new Date() by hand for every test of the file, starting from a fixed instant
+ * Only Date is faked, timers and promises keep running normally
+ */
+export const useFakeClock = (start: number = Date.UTC(2026, 0, 1)) => {
+  const clock = {
+    now: start,
+    advance(ms: number): void {
+      clock.now += ms;
+      jest.setSystemTime(clock.now);
+    },
+  };
+
+  beforeEach(() => {
+    clock.now = start;
+    jest.useFakeTimers({
+      now: start,
+      doNotFake: [
+        'hrtime',
+        'nextTick',
+        'performance',
+        'queueMicrotask',
+        'setImmediate',
+        'clearImmediate',
+        'setInterval',
+        'clearInterval',
+        'setTimeout',
+        'clearTimeout',
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  return clock;
+};
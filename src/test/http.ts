@@ -0,0 +1,63 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface MiddlewareResult {
+  nextCalled: boolean;
+  status: number | null;
+  body: any;
+  headers: Record<string, string>;
+  req: Request;
+}
+
+/**
+ * Run a middleware or controller action against a minimal request,
+ * recording whether it called next() or what it responded
+ */
+export const runMiddleware = async (
+  middleware: RequestHandler,
+  options: { headers?: Record<string, string>; body?: unknown; user?: Request['user'] } = {}
+): Promise<MiddlewareResult> => {
+  const headers = Object.fromEntries(
+    Object.entries(options.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  const result: MiddlewareResult = {
+    nextCalled: false,
+    status: null,
+    body: undefined,
+    headers: {},
+    req: {
+      headers,
+      get: (name: string) => headers[name.toLowerCase()],
+      ip: '127.0.0.1',
+      method: 'GET',
+      originalUrl: '/api/test',
+      body: options.body,
+      user: options.user,
+    } as unknown as Request,
+  };
+
+  const res = {
+    statusCode: 200,
+    status(code: number) {
+      result.status = code;
+      res.statusCode = code;
+      return res;
+    },
+    set(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return res;
+    },
+    on: () => res,
+  };
+
+  const next: NextFunction = () => {
+    result.nextCalled = true;
+  };
+
+  await middleware(result.req, res as unknown as Response, next);
+  return result;
+};
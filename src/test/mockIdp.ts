@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+interface IssuedCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+}
+
+export interface MockIdpOptions {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Local OpenID Connect provider for tests: discovery, JWKS, authorization and token endpoints
+ * The authorization endpoint signs in whoever setNextLogin() named and redirects straight back,
+ * the token endpoint checks the client credentials, redirect URI and PKCE verifier like a real IdP
+ */
+export class MockIdp {
+  readonly clientId: string;
+  readonly clientSecret: string;
+  issuer = '';
+
+  private server: http.Server;
+  private codes = new Map<string, IssuedCode>();
+  private nextClaims: Record<string, unknown> = {};
+  private readonly keyId = 'mock-idp-key';
+  private readonly keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  constructor(options: MockIdpOptions = {}) {
+    this.clientId = options.clientId || 'mock-client';
+    this.clientSecret = options.clientSecret || 'mock-secret';
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.send(res, 500, { error: 'server_error', error_description: String(error) });
+      });
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close(error => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Claims of the user the next authorization request signs in, sub is required
+   */
+  setNextLogin(claims: { sub: string } & Record<string, unknown>): void {
+    this.nextClaims = claims;
+  }
+
+  /**
+   * Follow an authorization URL like the browser would and return the callback query parameters
+   */
+  async authorize(authorizationUrl: string): Promise<Record<string, string>> {
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = response.headers.get('location');
+
+    if (response.status !== 302 || !location) {
+      throw new Error(`Mock IdP authorization failed with status ${response.status}`);
+    }
+
+    return Object.fromEntries(new URL(location).searchParams);
+  }
+
+  /**
+   * Sign an ID token with the IdP key, for tests that tamper with the claims
+   */
+  signIdToken(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+    return jwt.sign({ iss: this.issuer, aud: this.clientId, ...claims }, this.keys.privateKey, {
+      algorithm: 'RS256',
+      keyid: this.keyId,
+      expiresIn: '5m',
+      ...options,
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', this.issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      this.send(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      this.send(res, 200, { keys: [{ ...jwk, kid: this.keyId, use: 'sig', alg: 'RS256' }] });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      this.authorizeRequest(url, res);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      this.tokenRequest(req, new URLSearchParams(await this.readBody(req)), res);
+      return;
+    }
+
+    this.send(res, 404, { error: 'not_found' });
+  }
+
+  private authorizeRequest(url: URL, res: http.ServerResponse): void {
+    const params = url.searchParams;
+    const redirectUri = params.get('redirect_uri');
+
+    if (params.get('client_id') !== this.clientId || !redirectUri) {
+      this.send(res, 400, { error: 'invalid_request' });
+      return;
+    }
+
+    const callback = new URL(redirectUri);
+    callback.searchParams.set('state', params.get('state') || '');
+
+    if (params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      callback.searchParams.set('error', 'unsupported_response_type');
+    } else {
+      const code = crypto.randomBytes(16).toString('hex');
+
+      this.codes.set(code, {
+        redirectUri,
+        codeChallenge: params.get('code_challenge') || '',
+        nonce: params.get('nonce') || '',
+        claims: this.nextClaims,
+      });
+      callback.searchParams.set('code', code);
+    }
+
+    res.writeHead(302, { Location: callback.toString() });
+    res.end();
+  }
+
+  private tokenRequest(
+    req: http.IncomingMessage,
+    body: URLSearchParams,
+    res: http.ServerResponse
+  ): void {
+    if (!this.hasClientCredentials(req, body)) {
+      this.send(res, 401, { error: 'invalid_client' });
+      return;
+    }
+
+    const code = body.get('code') || '';
+    const issued = this.codes.get(code);
+
+    // Codes are single use, a second redemption fails like a replay would
+    this.codes.delete(code);
+
+    const verifier = body.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      body.get('grant_type') !== 'authorization_code' ||
+      !issued ||
+      issued.redirectUri !== body.get('redirect_uri') ||
+      issued.codeChallenge !== challenge
+    ) {
+      this.send(res, 400, { error: 'invalid_grant' });
+      return;
+    }
+
+    this.send(res, 200, {
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: this.signIdToken({ ...issued.claims, nonce: issued.nonce }),
+    });
+  }
+
+  private hasClientCredentials(req: http.IncomingMessage, body: URLSearchParams): boolean {
+    const authorization = req.headers.authorization;
+
+    if (authorization?.startsWith('Basic ')) {
+      const [clientId, clientSecret] = Buffer.from(authorization.slice(6), 'base64')
+        .toString('utf8')
+        .split(':')
+        .map(decodeURIComponent);
+
+      return clientId === this.clientId && clientSecret === this.clientSecret;
+    }
+
+    return (
+      body.get('client_id') === this.clientId && body.get('client_secret') === this.clientSecret
+    );
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
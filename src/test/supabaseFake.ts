@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+
+type Row = Record<string, any>;
+
+interface QueryResult {
+  data: any;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+/**
+ * In-memory stand-in for the PostgREST query builder of supabaseAdmin
+ * Supports the filters, modifiers and mutations the services use, rows are copied in and out
+ */
+export class SupabaseFake {
+  tables: Record<string, Row[]> = {};
+
+  // Every from() call, in order, for assertions on what was queried
+  queries: { table: string; action: Action }[] = [];
+
+  seed(table: string, rows: Row[]): Row[] {
+    const inserted = rows.map(row => this.withDefaults(row));
+    this.rows(table).push(...inserted);
+    return inserted.map(row => structuredClone(row));
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables[table]) {
+      this.tables[table] = [];
+    }
+
+    return this.tables[table];
+  }
+
+  reset(): void {
+    this.tables = {};
+    this.queries = [];
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  withDefaults(row: Row): Row {
+    return {
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...structuredClone(row),
+    };
+  }
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: Action = 'select';
+  private values: Row[] = [];
+  private patch: Row = {};
+  private onConflict: string[] = ['id'];
+  private columns = '*';
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private maxRows: number | null = null;
+  private cardinality: 'single' | 'maybeSingle' | null = null;
+
+  constructor(
+    private readonly fake: SupabaseFake,
+    private readonly table: string
+  ) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+    this.columns = columns;
+    this.countRows = options.count === 'exact';
+    this.head = options.head === true;
+
+    if (this.action !== 'select') {
+      this.returning = true;
+    }
+
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim());
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.action = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(row => this.field(row, column) === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(row => this.field(row, column) !== value);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where(row =>
+      value === null ? this.field(row, column) == null : this.field(row, column) === value
+    );
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(row => values.includes(this.field(row, column)));
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(row => {
+      const current = this.field(row, column);
+      return current != null && current > (value as any);
+    });
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(row => {
+      const current = this.field(row, column);
+      return current != null && current >= (value as any);
+    });
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(row => {
+      const current = this.field(row, column);
+      return current != null && current < (value as any);
+    });
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(row => {
+      const current = this.field(row, column);
+      return current != null && current <= (value as any);
+    });
+  }
+
+  contains(column: string, values: unknown[]): this {
+    return this.where(
+      row => Array.isArray(row[column]) && values.every(v => row[column].includes(v))
+    );
+  }
+
+  containedBy(column: string, values: unknown[]): this {
+    return this.where(
+      row => Array.isArray(row[column]) && row[column].every((v: unknown) => values.includes(v))
+    );
+  }
+
+  /**
+   * PostgREST or() with comma separated column.operator.value conditions
+   * Values may be double quoted, with backslash escapes, to contain commas or parentheses
+   */
+  or(expression: string): this {
+    const conditions = splitConditions(expression).map(condition => {
+      const [column, operator] = condition.split('.', 2);
+      const value = unquote(condition.slice(column.length + operator.length + 2));
+
+      return (row: Row) => {
+        const current = row[column];
+
+        switch (operator) {
+          case 'is':
+            return value === 'null' ? current == null : String(current) === value;
+          case 'eq':
+            return String(current) === value;
+          case 'lt':
+            return current != null && Number(current) < Number(value);
+          case 'gt':
+            return current != null && Number(current) > Number(value);
+          case 'ilike':
+            return typeof current === 'string' && likePattern(value).test(current);
+          default:
+            throw new Error(`Unsupported or() operator: ${operator}`);
+        }
+      };
+    });
+
+    return this.where(row => conditions.some(condition => condition(row)));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending !== false });
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private where(filter: (row: Row) => boolean): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  /**
+   * Column value of a row, table.column filters read the embedded many-to-one relation
+   */
+  private field(row: Row, column: string): any {
+    const [table, relatedColumn] = column.split('.');
+
+    if (!relatedColumn) {
+      return row[column];
+    }
+
+    return this.related(row, table)?.[relatedColumn];
+  }
+
+  private related(row: Row, table: string): Row | undefined {
+    const foreignKey = `${table.replace(/s$/, '')}_id`;
+    return this.fake.rows(table).find(candidate => candidate.id === row[foreignKey]);
+  }
+
+  private execute(): QueryResult {
+    this.fake.queries.push({ table: this.table, action: this.action });
+
+    const table = this.fake.rows(this.table);
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+    let rows: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        rows = this.values.map(value => this.fake.withDefaults(value));
+        table.push(...rows);
+        break;
+      case 'upsert':
+        rows = this.values.map(value => {
+          const existing = table.find(row =>
+            this.onConflict.every(column => row[column] === value[column])
+          );
+
+          if (existing) {
+            return Object.assign(existing, structuredClone(value));
+          }
+
+          const inserted = this.fake.withDefaults(value);
+          table.push(inserted);
+          return inserted;
+        });
+        break;
+      case 'update':
+        rows = table.filter(matches);
+        rows.forEach(row => Object.assign(row, structuredClone(this.patch)));
+        break;
+      case 'delete':
+        rows = table.filter(matches);
+        this.fake.tables[this.table] = table.filter(row => !rows.includes(row));
+        break;
+      default:
+        rows = this.sort(table.filter(matches));
+    }
+
+    const count = this.countRows ? rows.length : null;
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null, count };
+    }
+
+    if (this.window) {
+      rows = rows.slice(this.window.from, this.window.to + 1);
+    }
+
+    if (this.maxRows !== null) {
+      rows = rows.slice(0, this.maxRows);
+    }
+
+    const data = this.head ? null : rows.map(row => this.project(row, this.columns));
+
+    if (this.cardinality && data) {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return {
+          data: null,
+          error: {
+            message: 'JSON object requested, multiple (or no) rows returned',
+            code: 'PGRST116',
+          },
+          count,
+        };
+      }
+
+      return { data: data[0] ?? null, error: null, count };
+    }
+
+    return { data, error: null, count };
+  }
+
+  private sort(rows: Row[]): Row[] {
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.ordering) {
+        if (a[column] !== b[column]) {
+          return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+        }
+      }
+
+      return 0;
+    });
+  }
+
+  /**
+   * Pick the selected columns, embedding many-to-one relations such as profiles(name) through profile_id
+   */
+  private project(row: Row, columns: string): Row {
+    const selection = this.splitColumns(columns);
+
+    if (selection.length === 0 || selection.includes('*')) {
+      return structuredClone(row);
+    }
+
+    const projected: Row = {};
+
+    for (const column of selection) {
+      // profiles(name) and profiles!inner(name) embed the same way, filters do the inner join
+      const relation = column.match(/^(\w+)(?:!\w+)?\((.*)\)$/s);
+
+      if (!relation) {
+        projected[column] = structuredClone(row[column]);
+        continue;
+      }
+
+      const [, table, innerColumns] = relation;
+      const related = this.related(row, table);
+
+      projected[table] = related ? this.project(related, innerColumns) : null;
+    }
+
+    return projected;
+  }
+
+  private splitColumns(columns: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of columns) {
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+
+      depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+      current += char;
+    }
+
+    parts.push(current.trim());
+    return parts.filter(part => part !== '');
+  }
+}
+
+const splitConditions = (expression: string): string[] => {
+  const conditions: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index];
+
+    if (char === '\\' && quoted) {
+      current += char + expression[++index];
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = !quoted;
+    }
+
+    if (char === ',' && !quoted) {
+      conditions.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  conditions.push(current);
+  return conditions;
+};
+
+const unquote = (value: string): string =>
+  value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+
+/**
+ * Case-insensitive LIKE: % and * match any run of characters, _ one character, a backslash escapes them
+ */
+const likePattern = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '\\') {
+      source += (pattern[++index] || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '%' || char === '*') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`, 'is');
+};
+
+/**
+ * Route supabaseAdmin.from() to a fresh in-memory database for every test of the file
+ * The client is required lazily, so a test can adjust the environment before config loads
+ */
+export const useSupabaseFake = (): SupabaseFake => {
+  const fake = new SupabaseFake();
+
+  beforeEach(async () => {
+    const { supabaseAdmin } = await import('../config/supabase');
+
+    fake.reset();
+    jest
+      .spyOn(supabaseAdmin, 'from')
+      .mockImplementation(((table: string) => fake.from(table)) as any);
+  });
+
+  return fake;
+};
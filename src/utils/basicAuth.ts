@@ -0,0 +1,37 @@
+import { Request } from 'express';
+
+/**
+ * Client credentials sent with HTTP Basic authentication (RFC 6749 section 2.3.1)
+ */
+export const parseBasicCredentials = (
+  req: Request
+): { client_id: string; client_secret: string } | null => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Basic ')) {
+    return null;
+  }
+
+  const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+
+  if (separator === -1) {
+    return null;
+  }
+
+  try {
+    return {
+      client_id: decodeURIComponent(decoded.substring(0, separator)),
+      client_secret: decodeURIComponent(decoded.substring(separator + 1)),
+    };
+  } catch {
+    // Malformed percent-encoding, treated like a missing header
+    return null;
+  }
+};
+
+/**
+ * Whether the request attempted HTTP Basic authentication, parsable or not
+ */
+export const hasBasicAuthorization = (req: Request): boolean =>
+  !!req.headers.authorization?.startsWith('Basic ');
@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+// AES-256-GCM key derived from the configured secret
+const encryptionKey = crypto.createHash('sha256').update(config.mfa.encryptionKey).digest();
+
+/**
+ * Encrypt a value for storage, output format: iv.authTag.ciphertext (base64)
+ */
+export const encrypt = (plainText: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey, iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map(part => part.toString('base64')).join('.');
+};
+
+export const decrypt = (payload: string): string => {
+  const [iv, authTag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Invalid encrypted payload');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
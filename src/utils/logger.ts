@@ -45,8 +45,8 @@ const transports: winston.transport[] = [
   }),
 ];
 
-// Add console transport for non-production environments
-if (config.nodeEnv !== 'production') {
+// Add console transport in development, test runs only log to the files
+if (config.nodeEnv === 'development') {
   transports.push(
     new winston.transports.Console({
       format: consoleFormat,
@@ -78,6 +78,37 @@ logger.rejections.handle(
   })
 );
 
+// Request fields never written to the logs: passwords, client secrets, tokens and one-time codes
+const SENSITIVE_KEY = /password|secret|token|code/i;
+
+/**
+ * Copy of a request body, params or query safe to log
+ * Sensitive fields are masked and raw text or arrays (e.g. uploaded files) are reduced to their size
+ */
+export const redactForLog = (value: unknown): unknown => {
+  if (typeof value === 'string') {
+    return `[${value.length} characters]`;
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.length} items]`;
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => {
+      if (SENSITIVE_KEY.test(key)) {
+        return [key, '[REDACTED]'];
+      }
+
+      return [key, field && typeof field === 'object' ? redactForLog(field) : field];
+    })
+  );
+};
+
 // Create a stream object for Morgan HTTP logging
 export const logStream = {
   write: (message: string) => {
@@ -0,0 +1,9 @@
+/**
+ * LIKE wildcards in the value match literally
+ */
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+/**
+ * Quoted so commas and parentheses in the value do not break the or() filter syntax
+ */
+export const toFilterValue = (value: string): string => `"${value.replace(/["\\]/g, '\\$&')}"`;
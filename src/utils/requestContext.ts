@@ -0,0 +1,10 @@
+import { Request } from 'express';
+import { RequestContext } from './types';
+
+/**
+ * Client IP and user agent of a request, as recorded on sessions
+ */
+export const getRequestContext = (req: Request): RequestContext => ({
+  ip: req.ip,
+  userAgent: req.get('User-Agent'),
+});
@@ -0,0 +1,81 @@
+import { logger } from './logger';
+
+export interface RetryQueueOptions {
+  maxAttempts: number;
+  // Delay before the first retry, doubled on every following one
+  baseDelayMs: number;
+}
+
+/**
+ * In-process queue that runs jobs in the background and retries failures with exponential back-off
+ * Enqueueing never throws, jobs that exhaust their attempts are logged and dropped
+ * Pending jobs are lost on restart
+ */
+export class RetryQueue<T> {
+  private pending = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly handler: (job: T) => Promise<void>,
+    private readonly options: RetryQueueOptions,
+    private readonly describe: (job: T) => Record<string, unknown> = () => ({})
+  ) {}
+
+  /**
+   * Schedule a job, the first attempt runs on the next tick
+   */
+  enqueue(job: T): void {
+    this.pending++;
+    this.schedule(job, 1, 0);
+  }
+
+  /**
+   * Jobs waiting for a first attempt or a retry
+   */
+  get size(): number {
+    return this.pending;
+  }
+
+  private schedule(job: T, attempt: number, delayMs: number): void {
+    // Timers are unref'd so pending retries never keep the process alive
+    const timer = setTimeout(() => {
+      void this.run(job, attempt);
+    }, delayMs);
+
+    timer.unref();
+  }
+
+  private async run(job: T, attempt: number): Promise<void> {
+    try {
+      await this.handler(job);
+      this.pending--;
+
+      if (attempt > 1) {
+        logger.info(`${this.name} job succeeded after retry`, { attempt, ...this.describe(job) });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      if (attempt >= this.options.maxAttempts) {
+        this.pending--;
+        logger.error(`${this.name} job failed, giving up`, {
+          error: errorMessage,
+          attempts: attempt,
+          ...this.describe(job),
+        });
+        return;
+      }
+
+      const delayMs = this.options.baseDelayMs * Math.pow(2, attempt - 1);
+
+      logger.warn(`${this.name} job failed, retrying`, {
+        error: errorMessage,
+        attempt,
+        retryInMs: delayMs,
+        ...this.describe(job),
+      });
+
+      this.schedule(job, attempt + 1, delayMs);
+    }
+  }
+}
@@ -6,12 +6,19 @@ export interface ApiResponse<T = any> {
 }
 
 // User related types
+// How a user signs in, SSO users provisioned from the IdP have no Supabase Auth account
+export type AuthSource = 'supabase' | 'sso';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   status: 'active' | 'inactive';
   profile_id: string;
+  // Supabase Auth account of the user, null until backfilled for users created before it was stored
+  // and always null for users provisioned from SSO (auth_source sso)
+  auth_user_id: string | null;
+  auth_source: AuthSource;
   created_at: string;
 }
 
@@ -19,6 +26,31 @@ export interface UserWithProfile extends User {
   profile_name: string;
 }
 
+export type UserSortField = 'name' | 'email' | 'status' | 'created_at';
+
+export interface ListUsersQuery {
+  search?: string;
+  status?: User['status'];
+  profile_id?: string;
+  created_from?: string;
+  created_to?: string;
+  sort?: UserSortField;
+  order?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+// Admin view of a user
+export interface UserDetails extends UserWithProfile {
+  projects: {
+    total: number;
+    by_status: Record<Project['status'], number>;
+  };
+}
+
+// Current status and role of a user, checked on every authenticated request
+export type UserState = Pick<UserWithProfile, 'status' | 'profile_id' | 'profile_name'>;
+
 // Profile types
 export interface Profile {
   id: string;
@@ -35,6 +67,193 @@ export interface Project {
   created_at: string;
 }
 
+// Session types
+export interface Session {
+  id: string;
+  user_id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+}
+
+export interface SessionWithCurrent extends Session {
+  current: boolean;
+}
+
+// Login history types
+export type LoginMethod = 'password' | 'magic_link' | 'token_exchange' | 'sso';
+
+export interface LoginEvent {
+  id: string;
+  user_id: string | null;
+  email: string | null;
+  method: LoginMethod;
+  success: boolean;
+  failure_reason: string | null;
+  mfa: boolean;
+  session_id: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  device_fingerprint: string | null;
+  new_device: boolean;
+  created_at: string;
+}
+
+export interface ListLoginEventsQuery {
+  user_id?: string;
+  email?: string;
+  method?: LoginMethod;
+  success?: boolean;
+  ip?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+// API key types
+export type ApiKeyScope = 'projects:read' | 'projects:write';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+}
+
+export interface CreateApiKeyResponse {
+  apiKey: ApiKey;
+  key: string;
+}
+
+// OAuth2 client types
+// projects:admin lets a service act on the projects of every user, personal API keys cannot hold it
+export type ServiceScope = ApiKeyScope | 'projects:admin';
+
+export interface OAuthClient {
+  id: string;
+  client_id: string;
+  name: string;
+  scopes: ServiceScope[];
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface CreateOAuthClientRequest {
+  name: string;
+  scopes: ServiceScope[];
+}
+
+export interface CreateOAuthClientResponse {
+  client: OAuthClient;
+  clientSecret: string;
+}
+
+export interface OAuthTokenRequest {
+  grant_type: string;
+  client_id?: string;
+  client_secret?: string;
+  scope?: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+// Token introspection types (RFC 7662)
+export type IntrospectionTokenType = 'access_token' | 'refresh_token' | 'api_key';
+
+export interface IntrospectionRequest {
+  token: string;
+  token_type_hint?: string;
+}
+
+export interface IntrospectionResponse {
+  active: boolean;
+  sub?: string;
+  scope?: string;
+  exp?: number;
+  iat?: number;
+  jti?: string;
+  client_id?: string;
+  username?: string;
+  profile_name?: string;
+  token_type?: IntrospectionTokenType;
+  // Admin acting as the user, for impersonation tokens
+  act?: { sub: string };
+}
+
+// Mail types
+export type MailLocale = 'en' | 'pt-BR';
+
+// Variables available to each email template
+export interface MailTemplateData {
+  invite: { name: string; inviteUrl: string; expiresAt: string };
+  password_reset: { name?: string; resetUrl: string };
+  password_changed: { name?: string; changedAt: string };
+  account_deactivated: { name: string };
+  new_login: { name?: string; loggedInAt: string; ip?: string; userAgent?: string };
+}
+
+export type MailTemplateName = keyof MailTemplateData;
+
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailMessage extends RenderedMail {
+  to: string;
+  template: MailTemplateName;
+}
+
+// Password policy types
+export type PasswordPolicyRule =
+  | 'min_length'
+  | 'max_length'
+  | 'uppercase'
+  | 'lowercase'
+  | 'digit'
+  | 'symbol'
+  | 'banned_word'
+  | 'reused'
+  | 'breached';
+
+export interface PasswordPolicyViolation {
+  rule: PasswordPolicyRule;
+  message: string;
+}
+
+// Personal data that must not appear in a password
+export interface PasswordSubject {
+  userId?: string;
+  name?: string;
+  email?: string;
+}
+
+// Client information captured from the request for auditing
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+}
+
 // Authentication types
 export interface LoginRequest {
   email: string;
@@ -43,15 +262,76 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   token: string;
+  refreshToken: string;
   user: UserWithProfile;
 }
 
+export interface ImpersonationResponse {
+  token: string;
+  expiresIn: string;
+  user: UserWithProfile;
+}
+
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaEnrollmentRequired: boolean;
+  challengeToken: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  user_id: string;
+  family_id: string;
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
 export interface CreateUserRequest {
   name: string;
   email: string;
   profile_id: string;
 }
 
+export interface Invitation {
+  id: string;
+  name: string;
+  email: string;
+  profile_id: string;
+  invited_by: string | null;
+  user_id: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface InvitationResponse {
+  invitation: Invitation;
+  token: string;
+  inviteUrl: string;
+}
+
+export interface InvitationDetails {
+  name: string;
+  email: string;
+  profile_name: string;
+  expires_at: string;
+}
+
+export interface AcceptInvitationRequest {
+  password: string;
+}
+
 export interface UpdateUserStatusRequest {
   status: 'active' | 'inactive';
 }
@@ -61,17 +341,241 @@ export interface ChangePasswordRequest {
   newPassword: string;
 }
 
+export interface ChangeOwnPasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 export interface ResetPasswordRequest {
   email: string;
 }
 
+export interface ConfirmPasswordResetRequest {
+  tokenHash: string;
+  newPassword: string;
+}
+
+export interface MagicLinkRequest {
+  email: string;
+}
+
+export interface MagicLinkVerifyRequest {
+  tokenHash: string;
+}
+
+// OIDC single sign-on types
+export interface SsoProviderSummary {
+  id: string;
+  name: string;
+}
+
+// Identity asserted by a verified ID token
+export interface SsoIdentity {
+  provider: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  claims: Record<string, unknown>;
+}
+
+// Authorization request waiting for the IdP callback
+export interface PendingSsoLogin {
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUrl: string;
+}
+
+export interface SsoStartRequest {
+  redirect?: string;
+}
+
+export interface SsoCallbackRequest {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export interface SsoCompleteRequest {
+  code: string;
+}
+
+export interface TokenExchangeRequest {
+  // Supabase Auth access token of a session started with supabase-js
+  accessToken: string;
+}
+
 export interface CheckSyncRequest {
   email: string;
 }
 
+// Result of applying a status change to Supabase Auth
+// sso_only: the user signs in through SSO only, there is no Supabase Auth account to sync
+export type AuthSyncStatus = 'synced' | 'queued' | 'not_linked' | 'sso_only';
+
+export interface AuthSyncResult {
+  status: AuthSyncStatus;
+  // Why the first attempt failed, when queued
+  error?: string;
+}
+
+export interface UpdateUserStatusResponse {
+  user: User;
+  authSync: AuthSyncResult;
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  profile_id?: string;
+}
+
+// What happens to the projects of a deleted user
+export type ProjectDisposition = 'reassign' | 'delete';
+
+export interface DeleteUserRequest {
+  projects: ProjectDisposition;
+  // Required with reassign
+  reassign_to?: string;
+}
+
+export interface DeleteUserResponse {
+  user: Pick<User, 'id' | 'email'>;
+  projects: {
+    action: ProjectDisposition;
+    count: number;
+    reassigned_to?: string;
+  };
+  // Deletion of the Supabase Auth account
+  authSync: AuthSyncResult;
+}
+
+export type UserImportMode = 'dry_run' | 'apply';
+
+export type UserImportRowStatus =
+  | 'valid' // Passed every check, created in apply mode
+  | 'invalid' // Failed validation
+  | 'duplicate' // Repeated in the file, already a user or already invited
+  | 'created' // Invitation created
+  | 'failed'; // Passed the checks but the invitation could not be created
+
+export interface UserImportRow {
+  // Position in the file, 1 is the first row after the CSV header
+  row: number;
+  email: string | null;
+  status: UserImportRowStatus;
+  errors: string[];
+  invitation_id?: string;
+  invite_url?: string;
+}
+
+export interface UserImportReport {
+  mode: UserImportMode;
+  summary: Record<UserImportRowStatus, number> & { total: number };
+  rows: UserImportRow[];
+}
+
+export type ReconciliationMode = 'dry_run' | 'apply';
+
+export type ReconciliationStatus = 'running' | 'completed' | 'failed';
+
+export type DriftType =
+  | 'orphaned_auth_user' // Supabase Auth account with no system user
+  | 'missing_auth_user' // System user with no Supabase Auth account
+  | 'unlinked_user' // System user matched by email but without auth_user_id
+  | 'email_mismatch' // Linked accounts with different emails
+  | 'status_mismatch'; // Inactive user not banned in Supabase Auth, or active user banned
+
+export interface DriftItem {
+  type: DriftType;
+  user_id: string | null;
+  auth_user_id: string | null;
+  email: string | null;
+  auth_email: string | null;
+  system_status: 'active' | 'inactive' | null;
+  auth_banned: boolean | null;
+  // Safe cases are fixed in apply mode, the others need a manual decision
+  repairable: boolean;
+  repaired: boolean;
+  error: string | null;
+}
+
+export interface ReconciliationSummary {
+  system_users: number;
+  auth_users: number;
+  drift: Record<DriftType, number>;
+  // SSO-provisioned users, expected to have no Supabase Auth account and not reported as drift
+  sso_only: number;
+  repaired: number;
+  failed: number;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  mode: ReconciliationMode;
+  status: ReconciliationStatus;
+  // null for scheduled runs
+  triggered_by: string | null;
+  summary: ReconciliationSummary | null;
+  items?: DriftItem[];
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface StartReconciliationRequest {
+  mode?: ReconciliationMode;
+}
+
+export interface AuthUserIdBackfillResult {
+  // Supabase Auth users examined
+  scanned: number;
+  linked: number;
+  failed: number;
+  // Emails of system users with no matching Supabase Auth account
+  unmatched: string[];
+}
+
+// MFA types
+export interface MfaFactor {
+  user_id: string;
+  secret_encrypted: string;
+  enabled: boolean;
+  recovery_code_hashes: string[];
+  last_used_step: number | null;
+  confirmed_at: string | null;
+  created_at: string;
+}
+
+export interface MfaEnrollmentResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaConfirmRequest {
+  code: string;
+}
+
+export interface MfaVerifyRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface MfaConfirmResponse {
+  recoveryCodes: string[];
+  login?: LoginResponse;
+}
+
+export interface UpdateProfileMfaRequest {
+  mfa_required: boolean;
+}
+
 // Project types
 export interface CreateProjectRequest {
   name: string;
+  user_id?: string;
 }
 
 export interface UpdateProjectRequest {